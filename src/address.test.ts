@@ -0,0 +1,92 @@
+/**
+ * Tests for sam addresses
+ */
+
+import { describe, expect, it } from 'vitest';
+import { AddressError, at, parseAddress, resolveAddress } from './address';
+import { c, d, x } from './commands';
+import { compileSam } from './sam';
+
+const text = 'one\nbegin\ntwo\nend\nthree\n';
+
+const region = (address: string, dot?: { start: number; end: number }) => {
+  const m = resolveAddress(address, text, dot);
+  return [m.start, m.end, m.text];
+};
+
+describe('resolveAddress', () => {
+  it('selects lines, characters and the ends', () => {
+    expect(region('2')).toEqual([4, 10, 'begin\n']);
+    expect(region('0')).toEqual([0, 0, '']);
+    expect(region('#5')).toEqual([5, 5, '']);
+    expect(region('$')).toEqual([24, 24, '']);
+  });
+
+  it('searches forwards and backwards with wrap-around', () => {
+    expect(region('/e/')).toEqual([2, 3, 'e']);
+    expect(region('/e/', { start: 3, end: 3 })).toEqual([5, 6, 'e']);
+    expect(region('?one?', { start: 10, end: 10 })).toEqual([0, 3, 'one']);
+    expect(region('?three?', { start: 0, end: 0 })).toEqual([18, 23, 'three']);
+  });
+
+  it('evaluates ranges', () => {
+    expect(region('2,3')).toEqual([4, 14, 'begin\ntwo\n']);
+    expect(region(',')).toEqual([0, 24, text]);
+    expect(region('/begin/;/end/')).toEqual([4, 17, 'begin\ntwo\nend']);
+    expect(region('3,')).toEqual([10, 24, 'two\nend\nthree\n']);
+  });
+
+  it('applies + and - offsets', () => {
+    expect(region('/begin/+')).toEqual([10, 14, 'two\n']);
+    expect(region('/end/-2')).toEqual([4, 10, 'begin\n']);
+    expect(region('#3+#2')).toEqual([5, 5, '']);
+    expect(region('$-')).toEqual([18, 24, 'three\n']);
+    expect(region('/two/-/e/')).toEqual([5, 6, 'e']);
+  });
+
+  it('uses dot', () => {
+    expect(region('.', { start: 4, end: 9 })).toEqual([4, 9, 'begin']);
+    expect(region('.+1', { start: 4, end: 10 })).toEqual([10, 14, 'two\n']);
+  });
+
+  it('reports resolution errors', () => {
+    expect(() => resolveAddress('9', text)).toThrow('Address out of range');
+    expect(() => resolveAddress('/nope/', text)).toThrow('No match for /nope/');
+    expect(() => resolveAddress('4,2', text)).toThrow('Addresses out of order');
+  });
+});
+
+describe('parseAddress', () => {
+  it('reports syntax errors with offsets', () => {
+    try {
+      parseAddress('/begin/;/end');
+      expect.unreachable();
+    } catch (err) {
+      expect(err).toBeInstanceOf(AddressError);
+      expect((err as AddressError).offset).toBe(8);
+    }
+    expect(() => parseAddress('3 x')).toThrow("Unexpected 'x' in address");
+  });
+});
+
+describe('at', () => {
+  it('applies a command to the addressed region only', () => {
+    expect(at('2', (s) => s.toUpperCase())('a\nb\nc')).toBe('a\nB\nc');
+    expect(at('/begin/;/end/', d())('a begin b end c')).toBe('a  c');
+  });
+
+  it('composes with x', () => {
+    expect(at('2,3', x(/e/, c('E')))(text)).toBe('one\nbEgin\ntwo\nend\nthree\n');
+  });
+
+  it('prefixes sam commands', () => {
+    expect(compileSam('/begin/+,/end/- x/./ c/*/')(text)).toBe('one\nbegin\n***\nend\nthree\n');
+    expect(compileSam('$- d')(text)).toBe('one\nbegin\ntwo\nend\n');
+  });
+
+  it('reports address errors in sam source with a column', () => {
+    expect(() => compileSam('p\n/abc d')).toThrow(
+      "Unterminated regular expression, expected '/' at line 2, column 1",
+    );
+  });
+});
@@ -0,0 +1,393 @@
+/**
+ * Addresses: sam's language for selecting a region of text
+ *
+ * An address evaluates to a single region (a `Match`) relative to "dot",
+ * the current selection:
+ *
+ * - #n        - empty string after character n
+ * - n         - line n (1-based, including its newline); 0 is the start
+ * - /re/      - first match after dot (wrapping around)
+ * - ?re?      - first match before dot, searching backwards (wrapping around)
+ * - $         - empty string at the end
+ * - .         - dot itself
+ * - a+b, a-b  - b evaluated forwards from the end / backwards from the start of a
+ * - a,b       - from the start of a to the end of b
+ * - a;b       - like a,b but b is evaluated with dot set to a
+ *
+ * `a+` and `a-` mean one line after/before; a missing left side is dot.
+ * In `a,b` a missing left side is line 0 and a missing right side is `$`.
+ *
+ * @module address
+ */
+
+import { define, findMatches } from './commands';
+import type { Command, Match } from './types';
+
+/**
+ * Parsed address expression
+ */
+export type Address =
+  | { type: 'char'; offset: number }
+  | { type: 'line'; line: number }
+  | { type: 'regex'; pattern: RegExp; backward: boolean }
+  | { type: 'end' }
+  | { type: 'dot' }
+  | { type: 'relative'; op: '+' | '-'; left: Address; right: Address }
+  | { type: 'range'; op: ',' | ';'; left: Address; right: Address };
+
+/**
+ * A region of text: [start, end)
+ */
+type Range = Pick<Match, 'start' | 'end'>;
+
+/**
+ * Error raised when an address cannot be parsed or resolved.
+ * For syntax errors, `offset` is the position in the address source.
+ */
+export class AddressError extends Error {
+  readonly offset?: number;
+
+  constructor(message: string, offset?: number) {
+    super(message);
+    this.name = 'AddressError';
+    this.offset = offset;
+  }
+}
+
+// ============================================================
+// Parsing
+// ============================================================
+
+/**
+ * Read an address starting at `pos` in `src`.
+ * Returns `undefined` for the address when none is present.
+ *
+ * @internal Used by the sam command parser
+ */
+export function readAddress(src: string, pos: number): { address?: Address; end: number } {
+  const parser = new AddressParser(src, pos);
+  const address = parser.parseCompound();
+  return { address, end: parser.pos };
+}
+
+class AddressParser {
+  constructor(
+    private readonly src: string,
+    public pos: number,
+  ) {}
+
+  // compound := simple? ((',' | ';') simple?)*
+  parseCompound(): Address | undefined {
+    let left = this.parseSimple();
+    for (;;) {
+      this.skipBlanks();
+      const op = this.src[this.pos];
+      if (op !== ',' && op !== ';') return left;
+      this.pos++;
+      const right = this.parseSimple();
+      left = {
+        type: 'range',
+        op,
+        left: left ?? { type: 'line', line: 0 },
+        right: right ?? { type: 'end' },
+      };
+    }
+  }
+
+  // simple := primary? (('+' | '-') primary?)*
+  private parseSimple(): Address | undefined {
+    let left = this.parsePrimary();
+    for (;;) {
+      this.skipBlanks();
+      const op = this.src[this.pos];
+      if (op !== '+' && op !== '-') return left;
+      this.pos++;
+      const right = this.parsePrimary() ?? { type: 'line', line: 1 };
+      left = { type: 'relative', op, left: left ?? { type: 'dot' }, right };
+    }
+  }
+
+  private parsePrimary(): Address | undefined {
+    this.skipBlanks();
+    const ch = this.src[this.pos];
+    if (ch === undefined) return undefined;
+
+    if (/\d/.test(ch)) {
+      return { type: 'line', line: this.readNumber() };
+    }
+    switch (ch) {
+      case '#': {
+        this.pos++;
+        if (!/\d/.test(this.src[this.pos] ?? '')) {
+          throw new AddressError("Expected number after '#'", this.pos);
+        }
+        return { type: 'char', offset: this.readNumber() };
+      }
+      case '/':
+      case '?':
+        return { type: 'regex', pattern: this.readRegex(ch), backward: ch === '?' };
+      case '$':
+        this.pos++;
+        return { type: 'end' };
+      case '.':
+        this.pos++;
+        return { type: 'dot' };
+      default:
+        return undefined;
+    }
+  }
+
+  private readNumber(): number {
+    const start = this.pos;
+    while (/\d/.test(this.src[this.pos] ?? '')) this.pos++;
+    return Number(this.src.slice(start, this.pos));
+  }
+
+  private readRegex(delim: string): RegExp {
+    const start = this.pos++;
+    let source = '';
+    while (this.pos < this.src.length && this.src[this.pos] !== '\n') {
+      const ch = this.src[this.pos];
+      if (ch === delim) {
+        this.pos++;
+        try {
+          return new RegExp(source, 'm');
+        } catch (err) {
+          throw new AddressError(`Invalid regular expression: ${(err as Error).message}`, start);
+        }
+      }
+      if (ch === '\\' && this.pos + 1 < this.src.length) {
+        const next = this.src[this.pos + 1];
+        source += next === delim && delim === '/' ? next : ch + next;
+        this.pos += 2;
+        continue;
+      }
+      source += ch;
+      this.pos++;
+    }
+    throw new AddressError(`Unterminated regular expression, expected '${delim}'`, start);
+  }
+
+  private skipBlanks(): void {
+    while (this.src[this.pos] === ' ' || this.src[this.pos] === '\t') this.pos++;
+  }
+}
+
+/**
+ * Parse an address expression.
+ *
+ * @param source - Address text, e.g. `/begin/;/end/` or `3,$`
+ * @returns The parsed address
+ * @throws {AddressError} On syntax errors (with `offset` set)
+ *
+ * @example
+ * parseAddress('3,5'); // lines 3 through 5
+ */
+export function parseAddress(source: string): Address {
+  const { address, end } = readAddress(source, 0);
+  if (end < source.length) {
+    throw new AddressError(`Unexpected '${source[end]}' in address`, end);
+  }
+  if (!address) {
+    throw new AddressError('Empty address', 0);
+  }
+  return address;
+}
+
+/**
+ * Print an address in sam syntax; the inverse of `parseAddress`.
+ *
+ * @example
+ * formatAddress(parseAddress('/begin/;/end/+')); // => '/begin/;/end/+1'
+ */
+export function formatAddress(address: Address): string {
+  switch (address.type) {
+    case 'char':
+      return `#${address.offset}`;
+    case 'line':
+      return String(address.line);
+    case 'regex':
+      return address.backward ? `?${address.pattern.source}?` : `/${address.pattern.source}/`;
+    case 'end':
+      return '$';
+    case 'dot':
+      return '.';
+    case 'relative':
+    case 'range':
+      return `${formatAddress(address.left)}${address.op}${formatAddress(address.right)}`;
+  }
+}
+
+// ============================================================
+// Resolution
+// ============================================================
+
+/**
+ * Evaluate an address against text.
+ *
+ * @param address - Address source or parsed address
+ * @param text - The text to address
+ * @param dot - Current selection (defaults to the empty string at 0)
+ * @returns The selected region
+ * @throws {AddressError} When the address is out of range or a search fails
+ *
+ * @example
+ * // From the line matching /begin/ to the next /end/
+ * resolveAddress('/begin/;/end/', 'a\nbegin\nb\nend\nc');
+ * // => { text: 'begin\nb\nend', start: 2, end: 13, groups: ['begin\nb\nend'] }
+ */
+export function resolveAddress(
+  address: string | Address,
+  text: string,
+  dot: Range = { start: 0, end: 0 },
+): Match {
+  const parsed = typeof address === 'string' ? parseAddress(address) : address;
+  const { start, end } = evaluate(parsed, text, dot);
+  const selected = text.slice(start, end);
+  return { text: selected, start, end, groups: [selected] };
+}
+
+function evaluate(addr: Address, text: string, dot: Range): Range {
+  switch (addr.type) {
+    case 'char':
+      return charAddress(text, dot, addr.offset, 0);
+    case 'line':
+      return lineAddress(text, dot, addr.line, 0);
+    case 'regex':
+      return regexAddress(text, dot, addr.pattern, addr.backward ? -1 : 1);
+    case 'end':
+      return { start: text.length, end: text.length };
+    case 'dot':
+      return dot;
+    case 'relative': {
+      const base = evaluate(addr.left, text, dot);
+      const sign = addr.op === '+' ? 1 : -1;
+      const right = addr.right;
+      switch (right.type) {
+        case 'char':
+          return charAddress(text, base, right.offset, sign);
+        case 'line':
+          return lineAddress(text, base, right.line, sign);
+        case 'regex':
+          return regexAddress(text, base, right.pattern, right.backward ? -sign : sign);
+        default:
+          return evaluate(right, text, base);
+      }
+    }
+    case 'range': {
+      const left = evaluate(addr.left, text, dot);
+      const right = evaluate(addr.right, text, addr.op === ';' ? left : dot);
+      if (right.end < left.start) {
+        throw new AddressError('Addresses out of order');
+      }
+      return { start: left.start, end: right.end };
+    }
+  }
+}
+
+function charAddress(text: string, base: Range, n: number, sign: number): Range {
+  const pos = sign === 0 ? n : sign > 0 ? base.end + n : base.start - n;
+  if (pos < 0 || pos > text.length) {
+    throw new AddressError('Address out of range');
+  }
+  return { start: pos, end: pos };
+}
+
+// Line n counted from the start (sign 0), after base (+) or before base (-), as in sam
+function lineAddress(text: string, base: Range, n: number, sign: number): Range {
+  const len = text.length;
+  let p: number;
+  let start: number;
+
+  if (sign >= 0) {
+    if (n === 0) {
+      if (sign === 0 || base.end === 0) return { start: 0, end: 0 };
+      start = base.end;
+      p = base.end - 1;
+    } else {
+      let count: number;
+      if (sign === 0 || base.end === 0) {
+        p = 0;
+        count = 1;
+      } else {
+        p = base.end - 1;
+        count = text[p++] === '\n' ? 1 : 0;
+      }
+      while (count < n) {
+        if (p >= len) throw new AddressError('Address out of range');
+        if (text[p++] === '\n') count++;
+      }
+      start = p;
+    }
+    while (p < len && text[p++] !== '\n');
+    return { start, end: p };
+  }
+
+  p = base.start;
+  let end: number;
+  if (n === 0) {
+    end = base.start;
+  } else {
+    for (let count = 0; count < n; ) {
+      if (p === 0) {
+        if (++count !== n) throw new AddressError('Address out of range');
+      } else if (text[p - 1] !== '\n' || ++count !== n) {
+        p--;
+      }
+    }
+    end = p;
+    if (p > 0) p--;
+  }
+  while (p > 0 && text[p - 1] !== '\n') p--;
+  return { start: p, end };
+}
+
+// First match after base (sign > 0) or before it (sign < 0), wrapping around
+function regexAddress(text: string, base: Range, pattern: RegExp, sign: number): Range {
+  const matches = findMatches(pattern, text);
+  let found: Match | undefined;
+  if (sign >= 0) {
+    found = matches.find((m) => m.start >= base.end && m.end > base.end) ?? matches[0];
+  } else {
+    found = matches[matches.length - 1];
+    for (let i = matches.length - 1; i >= 0; i--) {
+      if (matches[i].end <= base.start && matches[i].start < base.start) {
+        found = matches[i];
+        break;
+      }
+    }
+  }
+  if (!found) {
+    throw new AddressError(`No match for /${pattern.source}/`);
+  }
+  return { start: found.start, end: found.end };
+}
+
+/**
+ * **Address command**: apply a command to the region selected by an address.
+ *
+ * The address is evaluated against each input with dot at the start of the
+ * text. Text outside the region is preserved.
+ *
+ * @param address - Address source or parsed address
+ * @param cmd - Command to apply to the selected region
+ * @returns A command that transforms the addressed region
+ * @throws {AddressError} When the address source is invalid, or at run time
+ *   when it cannot be resolved against the input
+ *
+ * @example
+ * // Delete from the first "begin" through the "end" that follows it
+ * const strip = at('/begin/;/end/', d());
+ * strip('a begin b end c'); // => 'a  c'
+ *
+ * @example
+ * // Uppercase line 2
+ * at('2', str => str.toUpperCase())('a\nb\nc'); // => 'a\nB\nc'
+ */
+export function at(address: string | Address, cmd: Command): Command {
+  const parsed = typeof address === 'string' ? parseAddress(address) : address;
+  return define({ op: 'at', address: parsed, cmd }, (input: string): string => {
+    const region = resolveAddress(parsed, input);
+    return input.slice(0, region.start) + cmd(region.text) + input.slice(region.end);
+  });
+}
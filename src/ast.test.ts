@@ -0,0 +1,202 @@
+/**
+ * Tests for the serializable command AST
+ */
+
+import { describe, expect, it } from 'vitest';
+import { at } from './address';
+import { ASTError, type CommandAST, commandSchema, compile, toAST } from './ast';
+import { c, d, g, ifMatch, l, n, p, pipe, s, v, x, xAny, xFirst, xMatch, y } from './commands';
+import { sre } from './dsl';
+
+function astError(fn: () => unknown): ASTError {
+  try {
+    fn();
+  } catch (err) {
+    expect(err).toBeInstanceOf(ASTError);
+    return err as ASTError;
+  }
+  throw new Error('expected an ASTError');
+}
+
+describe('toAST', () => {
+  it('describes built-in commands as data', () => {
+    expect(
+      toAST(pipe(x(/\d+/g, c('N')), s(/a/i, '$&!'), n(0, 3, p()), l(-1, undefined, d()))),
+    ).toEqual({
+      op: 'pipe',
+      commands: [
+        { op: 'x', pattern: { source: '\\d+', flags: 'g' }, cmd: { op: 'c', text: 'N' } },
+        { op: 's', pattern: { source: 'a', flags: 'i' }, replacement: '$&!' },
+        { op: 'n', start: 0, end: 3, cmd: { op: 'p' } },
+        { op: 'l', start: -1, cmd: { op: 'd' } },
+      ],
+    });
+  });
+
+  it('describes addresses', () => {
+    expect(toAST(at('/a/;+', d()))).toEqual({
+      op: 'at',
+      address: {
+        type: 'range',
+        op: ';',
+        left: { type: 'regex', pattern: { source: 'a', flags: 'm' }, backward: false },
+        right: {
+          type: 'relative',
+          op: '+',
+          left: { type: 'dot' },
+          right: { type: 'line', line: 1 },
+        },
+      },
+      cmd: { op: 'd' },
+    });
+  });
+
+  it('rejects functions, naming where they are', () => {
+    const err = astError(() =>
+      toAST(
+        pipe(
+          p(),
+          g(/a/, function shout(t) {
+            return t.toUpperCase();
+          }),
+        ),
+      ),
+    );
+    expect(err.path).toBe('$.commands[1].cmd');
+    expect(err.message).toBe("$.commands[1].cmd: Custom function 'shout' has no AST form");
+    expect(astError(() => toAST(xMatch(/a/, (m) => m.text))).path).toBe('$');
+  });
+});
+
+describe('compile', () => {
+  it('round-trips every built-in command through JSON', () => {
+    const input = 'foo 123\nbar 4567 foo\n\nbaz 89 foo9\n';
+    const commands = [
+      x(/\d+/, c('N')),
+      y(/\d+/, d()),
+      g(/foo/, s(/(?<w>o+)/g, '[$<w>]')),
+      v(/zzz/, xFirst(/\w+/, p())),
+      ifMatch(/^bar/m, n(2, -2, d()), c('none')),
+      l(1, 3, x(/a/gi, c('A'))),
+      at('/bar/,$', d()),
+      at('#3,2-', c('|')),
+      xAny([
+        { pattern: /ba\w/, cmd: c('B') },
+        { pattern: /\w+/, cmd: d() },
+      ]),
+      xAny([{ pattern: /\d/, cmd: p() }], { mode: 'priority' }),
+      pipe(),
+    ];
+    for (const cmd of commands) {
+      const ast = JSON.parse(JSON.stringify(toAST(cmd)));
+      const compiled = compile(ast);
+      expect(compiled(input)).toBe(cmd(input));
+      expect(toAST(compiled)).toEqual(ast);
+    }
+  });
+
+  it('builds commands from stored rules', () => {
+    const rules: CommandAST = {
+      op: 'pipe',
+      commands: [
+        { op: 'x', pattern: { source: '\\d{3}-\\d{4}' }, cmd: { op: 'c', text: '[PHONE]' } },
+        { op: 's', pattern: { source: '\\s+', flags: 'g' }, replacement: ' ' },
+      ],
+    };
+    expect(compile(rules)('call  555-1234\tnow')).toBe('call [PHONE] now');
+  });
+
+  it('reports malformed nodes with their path', () => {
+    const cases: [unknown, string][] = [
+      [null, '$'],
+      [{ op: 'eval' }, '$.op'],
+      [{ op: 'c' }, '$.text'],
+      [
+        {
+          op: 'pipe',
+          commands: [{ op: 'p' }, { op: 'x', pattern: { source: '(' }, cmd: { op: 'p' } }],
+        },
+        '$.commands[1].pattern',
+      ],
+      [{ op: 'x', pattern: { source: 'a', flags: 'q' }, cmd: { op: 'p' } }, '$.pattern'],
+      [{ op: 'n', start: 1.5, cmd: { op: 'p' } }, '$.start'],
+      [{ op: 'ifMatch', pattern: { source: 'a' }, then: { op: 'p' } }, '$.else'],
+      [
+        {
+          op: 'at',
+          address: { type: 'range', op: '+', left: { type: 'dot' }, right: { type: 'end' } },
+          cmd: { op: 'p' },
+        },
+        '$.address.op',
+      ],
+      [
+        { op: 'at', address: { type: 'regex', pattern: { source: 'a' } }, cmd: { op: 'p' } },
+        '$.address.backward',
+      ],
+      [{ op: 'xAny', branches: [{ pattern: { source: 'a' } }] }, '$.branches[0].cmd'],
+      [{ op: 'xAny', branches: [], mode: 'shortest' }, '$.mode'],
+      [
+        {
+          op: 'xAny',
+          branches: [
+            { pattern: { source: 'a', flags: 'i' }, cmd: { op: 'p' } },
+            { pattern: { source: 'b' }, cmd: { op: 'p' } },
+          ],
+        },
+        '$.branches',
+      ],
+    ];
+    for (const [ast, path] of cases) {
+      expect(astError(() => compile(ast)).path).toBe(path);
+    }
+  });
+});
+
+describe('commandSchema', () => {
+  it('is plain JSON covering every op', () => {
+    expect(JSON.parse(JSON.stringify(commandSchema))).toEqual(commandSchema);
+    const ops = commandSchema.$defs.command.oneOf.flatMap((branch) => {
+      const op: { const?: string; enum?: readonly string[] } = branch.properties.op;
+      return op.enum ?? [op.const];
+    });
+    expect(ops.sort()).toEqual(
+      [
+        'at',
+        'c',
+        'd',
+        'g',
+        'ifMatch',
+        'l',
+        'n',
+        'p',
+        'pipe',
+        's',
+        'v',
+        'x',
+        'xAny',
+        'xFirst',
+        'y',
+      ].sort(),
+    );
+  });
+});
+
+describe('fluent pipelines', () => {
+  it('describes fluent pipelines', () => {
+    const ast = toAST(sre().x(/\w+/).g(/^a/).c('A').end().s('b', 'B').build());
+    expect(ast).toEqual({
+      op: 'pipe',
+      commands: [
+        {
+          op: 'x',
+          pattern: { source: '\\w+' },
+          cmd: { op: 'g', pattern: { source: '^a' }, cmd: { op: 'c', text: 'A' } },
+        },
+        { op: 's', pattern: { source: 'b', flags: 'g' }, replacement: 'B' },
+      ],
+    });
+    expect(compile(ast)('abc bcd')).toBe(
+      sre('abc bcd').x(/\w+/).g(/^a/).c('A').end().s('b', 'B').value(),
+    );
+  });
+});
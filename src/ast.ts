@@ -0,0 +1,510 @@
+/**
+ * AST: pipelines as plain, serializable data
+ *
+ * Commands are closures, so they cannot be stored, diffed or sent over the
+ * wire. A `CommandAST` describes a pipeline of built-in commands as JSON
+ * data: `toAST` reads it back from built commands, and `compile` turns it
+ * into a command again without `eval`. `commandSchema` is the matching
+ * JSON Schema, for validating rules wherever they are stored.
+ *
+ * Regexes are `{ source, flags }` objects, and `xAny` omits its mode when
+ * it is the default `'longest'`. `xMatch`, custom functions and matchers
+ * such as `literals(...)` have no AST form.
+ *
+ * @module ast
+ */
+
+import { type Address, at } from './address';
+import { compileRegex } from './cache';
+import {
+  c,
+  d,
+  describeCommand,
+  g,
+  ifMatch,
+  l,
+  n,
+  p,
+  pipe,
+  s,
+  v,
+  x,
+  xAny,
+  xFirst,
+  y,
+} from './commands';
+import type { Command, XAnyMode, XBranch } from './types';
+
+/**
+ * A regex as data
+ */
+export interface PatternAST {
+  source: string;
+  /** Regex flags (default none) */
+  flags?: string;
+}
+
+/**
+ * An address (see `parseAddress`) as data
+ */
+export type AddressAST =
+  | { type: 'char'; offset: number }
+  | { type: 'line'; line: number }
+  | { type: 'regex'; pattern: PatternAST; backward: boolean }
+  | { type: 'end' }
+  | { type: 'dot' }
+  | { type: 'relative'; op: '+' | '-'; left: AddressAST; right: AddressAST }
+  | { type: 'range'; op: ',' | ';'; left: AddressAST; right: AddressAST };
+
+/**
+ * A built-in command as data
+ */
+export type CommandAST =
+  | { op: 'x' | 'y' | 'g' | 'v' | 'xFirst'; pattern: PatternAST; cmd: CommandAST }
+  | { op: 'xAny'; branches: { pattern: PatternAST; cmd: CommandAST }[]; mode?: XAnyMode }
+  | { op: 's'; pattern: PatternAST; replacement: string }
+  | { op: 'c'; text: string }
+  | { op: 'p' }
+  | { op: 'd' }
+  | { op: 'n' | 'l'; start: number; end?: number; cmd: CommandAST }
+  | { op: 'pipe'; commands: CommandAST[] }
+  | { op: 'ifMatch'; pattern: PatternAST; then: CommandAST; else: CommandAST }
+  | { op: 'at'; address: AddressAST; cmd: CommandAST };
+
+/**
+ * Error raised for commands without an AST form, and for invalid ASTs.
+ * `path` locates the offending node, e.g. `$.commands[1].pattern`.
+ */
+export class ASTError extends Error {
+  readonly path: string;
+
+  constructor(message: string, path: string) {
+    super(`${path}: ${message}`);
+    this.name = 'ASTError';
+    this.path = path;
+  }
+}
+
+// ============================================================
+// Commands to AST
+// ============================================================
+
+/**
+ * Describe a command built from primitives as an AST.
+ *
+ * @param cmd - A command built with x, y, g, v, p, d, c, s, n, l, pipe,
+ *   xAny, xFirst, ifMatch or at
+ * @returns The command's AST
+ * @throws {ASTError} When the command contains `xMatch`, a custom function or
+ *   a matcher such as `literals(...)`
+ *
+ * @example
+ * toAST(x(/\d+/, c('N')));
+ * // => { op: 'x', pattern: { source: '\\d+' }, cmd: { op: 'c', text: 'N' } }
+ */
+export function toAST(cmd: Command): CommandAST {
+  return commandToAST(cmd, '$');
+}
+
+function commandToAST(cmd: Command, path: string): CommandAST {
+  const spec = describeCommand(cmd);
+  if (!spec) {
+    throw new ASTError(`Custom function '${cmd.name || 'command'}' has no AST form`, path);
+  }
+  switch (spec.op) {
+    case 'p':
+    case 'd':
+      return { op: spec.op };
+    case 'c':
+      return { op: 'c', text: spec.text };
+    case 's':
+      return { op: 's', pattern: patternToAST(spec.pattern), replacement: spec.replacement };
+    case 'x':
+    case 'y':
+    case 'g':
+    case 'v':
+    case 'xFirst':
+      if (!(spec.pattern instanceof RegExp)) {
+        throw new ASTError(`Matcher ${spec.pattern.label} has no AST form`, `${path}.pattern`);
+      }
+      return {
+        op: spec.op,
+        pattern: patternToAST(spec.pattern),
+        cmd: commandToAST(spec.cmd, `${path}.cmd`),
+      };
+    case 'xAny': {
+      const ast: Extract<CommandAST, { op: 'xAny' }> = {
+        op: 'xAny',
+        branches: spec.branches.map((branch, i) => ({
+          pattern: patternToAST(branch.pattern),
+          cmd: commandToAST(branch.cmd, `${path}.branches[${i}].cmd`),
+        })),
+      };
+      if (spec.mode !== 'longest') ast.mode = spec.mode;
+      return ast;
+    }
+    case 'n':
+    case 'l': {
+      const ast: Extract<CommandAST, { op: 'n' | 'l' }> = {
+        op: spec.op,
+        start: spec.start,
+        cmd: commandToAST(spec.cmd, `${path}.cmd`),
+      };
+      if (spec.end !== undefined) ast.end = spec.end;
+      return ast;
+    }
+    case 'pipe':
+      return {
+        op: 'pipe',
+        commands: spec.commands.map((step, i) => commandToAST(step, `${path}.commands[${i}]`)),
+      };
+    case 'ifMatch':
+      return {
+        op: 'ifMatch',
+        pattern: patternToAST(spec.pattern),
+        then: commandToAST(spec.then, `${path}.then`),
+        else: commandToAST(spec.else, `${path}.else`),
+      };
+    case 'at':
+      return {
+        op: 'at',
+        address: addressToAST(spec.address),
+        cmd: commandToAST(spec.cmd, `${path}.cmd`),
+      };
+    case 'xMatch':
+      throw new ASTError('xMatch has no AST form (its callback is a function)', path);
+  }
+}
+
+function patternToAST(pattern: RegExp): PatternAST {
+  return pattern.flags
+    ? { source: pattern.source, flags: pattern.flags }
+    : { source: pattern.source };
+}
+
+function addressToAST(address: Address): AddressAST {
+  switch (address.type) {
+    case 'regex':
+      return { type: 'regex', pattern: patternToAST(address.pattern), backward: address.backward };
+    case 'relative':
+    case 'range':
+      return {
+        ...address,
+        left: addressToAST(address.left),
+        right: addressToAST(address.right),
+      } as AddressAST;
+    default:
+      return { ...address };
+  }
+}
+
+// ============================================================
+// AST to commands
+// ============================================================
+
+/**
+ * Build a command from an AST, validating it first.
+ *
+ * The AST may come from untrusted storage: it is checked node by node and
+ * never evaluated as code.
+ *
+ * @param ast - A `CommandAST`, e.g. parsed from JSON
+ * @returns The equivalent command
+ * @throws {ASTError} When the AST is malformed or a regex is invalid
+ *
+ * @example
+ * const rules = JSON.parse(row.rules);
+ * const redact = compile(rules);
+ * redact('call 555-1234');
+ */
+export function compile(ast: unknown): Command {
+  return compileCommand(ast, '$');
+}
+
+const PATTERN_OPS = new Set(['x', 'y', 'g', 'v', 'xFirst']);
+
+function compileCommand(node: unknown, path: string): Command {
+  const ast = record(node, path);
+  const op = ast.op;
+  if (op === 'p') return p();
+  if (op === 'd') return d();
+  if (op === 'c') return c(string(ast.text, `${path}.text`));
+  if (op === 's') {
+    return s(
+      compilePatternAST(ast.pattern, `${path}.pattern`),
+      string(ast.replacement, `${path}.replacement`),
+    );
+  }
+  if (typeof op === 'string' && PATTERN_OPS.has(op)) {
+    const build = { x, y, g, v, xFirst }[op as 'x' | 'y' | 'g' | 'v' | 'xFirst'];
+    return build(
+      compilePatternAST(ast.pattern, `${path}.pattern`),
+      compileCommand(ast.cmd, `${path}.cmd`),
+    );
+  }
+  if (op === 'xAny') return compileXAny(ast, path);
+  if (op === 'n' || op === 'l') {
+    const start = integer(ast.start, `${path}.start`);
+    const end = ast.end === undefined ? undefined : integer(ast.end, `${path}.end`);
+    return (op === 'n' ? n : l)(start, end, compileCommand(ast.cmd, `${path}.cmd`));
+  }
+  if (op === 'pipe') {
+    if (!Array.isArray(ast.commands)) {
+      throw new ASTError('Expected an array of commands', `${path}.commands`);
+    }
+    return pipe(...ast.commands.map((step, i) => compileCommand(step, `${path}.commands[${i}]`)));
+  }
+  if (op === 'ifMatch') {
+    return ifMatch(
+      compilePatternAST(ast.pattern, `${path}.pattern`),
+      compileCommand(ast.then, `${path}.then`),
+      compileCommand(ast.else, `${path}.else`),
+    );
+  }
+  if (op === 'at') {
+    return at(
+      compileAddress(ast.address, `${path}.address`),
+      compileCommand(ast.cmd, `${path}.cmd`),
+    );
+  }
+  throw new ASTError(`Unknown op ${JSON.stringify(op)}`, `${path}.op`);
+}
+
+const XANY_MODES: readonly XAnyMode[] = ['longest', 'priority'];
+
+function compileXAny(ast: Record<string, unknown>, path: string): Command {
+  if (!Array.isArray(ast.branches)) {
+    throw new ASTError('Expected an array of branches', `${path}.branches`);
+  }
+  const branches = ast.branches.map((node, i): XBranch => {
+    const branch = record(node, `${path}.branches[${i}]`);
+    return {
+      pattern: compilePatternAST(branch.pattern, `${path}.branches[${i}].pattern`),
+      cmd: compileCommand(branch.cmd, `${path}.branches[${i}].cmd`),
+    };
+  });
+  const mode = ast.mode ?? 'longest';
+  if (!XANY_MODES.includes(mode as XAnyMode)) {
+    throw new ASTError(
+      `Expected one of ${XANY_MODES.map((m) => `'${m}'`).join(', ')}`,
+      `${path}.mode`,
+    );
+  }
+  try {
+    return xAny(branches, { mode: mode as XAnyMode });
+  } catch (err) {
+    throw new ASTError((err as Error).message, `${path}.branches`);
+  }
+}
+
+function compilePatternAST(node: unknown, path: string): RegExp {
+  const ast = record(node, path);
+  const source = string(ast.source, `${path}.source`);
+  const flags = ast.flags === undefined ? '' : string(ast.flags, `${path}.flags`);
+  try {
+    return compileRegex(source, flags);
+  } catch (err) {
+    throw new ASTError((err as Error).message, path);
+  }
+}
+
+function compileAddress(node: unknown, path: string): Address {
+  const ast = record(node, path);
+  switch (ast.type) {
+    case 'char':
+      return { type: 'char', offset: integer(ast.offset, `${path}.offset`) };
+    case 'line':
+      return { type: 'line', line: integer(ast.line, `${path}.line`) };
+    case 'regex':
+      if (typeof ast.backward !== 'boolean') {
+        throw new ASTError('Expected a boolean', `${path}.backward`);
+      }
+      return {
+        type: 'regex',
+        pattern: compilePatternAST(ast.pattern, `${path}.pattern`),
+        backward: ast.backward,
+      };
+    case 'end':
+    case 'dot':
+      return { type: ast.type };
+    case 'relative':
+    case 'range': {
+      const ops = ast.type === 'relative' ? ['+', '-'] : [',', ';'];
+      if (!ops.includes(ast.op as string)) {
+        throw new ASTError(`Expected one of ${ops.map((o) => `'${o}'`).join(', ')}`, `${path}.op`);
+      }
+      return {
+        type: ast.type,
+        op: ast.op,
+        left: compileAddress(ast.left, `${path}.left`),
+        right: compileAddress(ast.right, `${path}.right`),
+      } as Address;
+    }
+    default:
+      throw new ASTError(`Unknown address type ${JSON.stringify(ast.type)}`, `${path}.type`);
+  }
+}
+
+function record(node: unknown, path: string): Record<string, unknown> {
+  if (typeof node !== 'object' || node === null || Array.isArray(node)) {
+    throw new ASTError('Expected an object', path);
+  }
+  return node as Record<string, unknown>;
+}
+
+function string(value: unknown, path: string): string {
+  if (typeof value !== 'string') throw new ASTError('Expected a string', path);
+  return value;
+}
+
+function integer(value: unknown, path: string): number {
+  if (!Number.isInteger(value)) throw new ASTError('Expected an integer', path);
+  return value as number;
+}
+
+// ============================================================
+// JSON Schema
+// ============================================================
+
+const ref = (name: string) => ({ $ref: `#/$defs/${name}` });
+
+const withPattern = (ops: string[], extra: Record<string, unknown>, required: string[]) => ({
+  type: 'object',
+  properties: { op: { enum: ops }, pattern: ref('pattern'), ...extra },
+  required: ['op', 'pattern', ...required],
+  additionalProperties: false,
+});
+
+const binaryAddress = (type: string, ops: string[]) => ({
+  type: 'object',
+  properties: {
+    type: { const: type },
+    op: { enum: ops },
+    left: ref('address'),
+    right: ref('address'),
+  },
+  required: ['type', 'op', 'left', 'right'],
+  additionalProperties: false,
+});
+
+/**
+ * JSON Schema (draft 2020-12) for `CommandAST` documents.
+ *
+ * @example
+ * import Ajv from 'ajv/dist/2020';
+ * const validate = new Ajv().compile(commandSchema);
+ */
+export const commandSchema = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  $id: 'https://github.com/obiverse/pike-sre/command.schema.json',
+  title: 'pike-sre command',
+  $ref: '#/$defs/command',
+  $defs: {
+    pattern: {
+      type: 'object',
+      properties: {
+        source: { type: 'string' },
+        flags: { type: 'string', pattern: '^[dgimsuvy]*$' },
+      },
+      required: ['source'],
+      additionalProperties: false,
+    },
+    address: {
+      oneOf: [
+        {
+          type: 'object',
+          properties: { type: { const: 'char' }, offset: { type: 'integer' } },
+          required: ['type', 'offset'],
+          additionalProperties: false,
+        },
+        {
+          type: 'object',
+          properties: { type: { const: 'line' }, line: { type: 'integer' } },
+          required: ['type', 'line'],
+          additionalProperties: false,
+        },
+        {
+          type: 'object',
+          properties: {
+            type: { const: 'regex' },
+            pattern: ref('pattern'),
+            backward: { type: 'boolean' },
+          },
+          required: ['type', 'pattern', 'backward'],
+          additionalProperties: false,
+        },
+        {
+          type: 'object',
+          properties: { type: { enum: ['end', 'dot'] } },
+          required: ['type'],
+          additionalProperties: false,
+        },
+        binaryAddress('relative', ['+', '-']),
+        binaryAddress('range', [',', ';']),
+      ],
+    },
+    command: {
+      oneOf: [
+        withPattern(['x', 'y', 'g', 'v', 'xFirst'], { cmd: ref('command') }, ['cmd']),
+        withPattern(['s'], { replacement: { type: 'string' } }, ['replacement']),
+        {
+          type: 'object',
+          properties: {
+            op: { const: 'xAny' },
+            branches: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: { pattern: ref('pattern'), cmd: ref('command') },
+                required: ['pattern', 'cmd'],
+                additionalProperties: false,
+              },
+            },
+            mode: { enum: ['longest', 'priority'] },
+          },
+          required: ['op', 'branches'],
+          additionalProperties: false,
+        },
+        withPattern(['ifMatch'], { then: ref('command'), else: ref('command') }, ['then', 'else']),
+        {
+          type: 'object',
+          properties: { op: { const: 'c' }, text: { type: 'string' } },
+          required: ['op', 'text'],
+          additionalProperties: false,
+        },
+        {
+          type: 'object',
+          properties: { op: { enum: ['p', 'd'] } },
+          required: ['op'],
+          additionalProperties: false,
+        },
+        {
+          type: 'object',
+          properties: {
+            op: { enum: ['n', 'l'] },
+            start: { type: 'integer' },
+            end: { type: 'integer' },
+            cmd: ref('command'),
+          },
+          required: ['op', 'start', 'cmd'],
+          additionalProperties: false,
+        },
+        {
+          type: 'object',
+          properties: {
+            op: { const: 'pipe' },
+            commands: { type: 'array', items: ref('command') },
+          },
+          required: ['op', 'commands'],
+          additionalProperties: false,
+        },
+        {
+          type: 'object',
+          properties: { op: { const: 'at' }, address: ref('address'), cmd: ref('command') },
+          required: ['op', 'address', 'cmd'],
+          additionalProperties: false,
+        },
+      ],
+    },
+  },
+} as const;
@@ -0,0 +1,171 @@
+/**
+ * Tests for async commands
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  gAsync,
+  ifMatchAsync,
+  pipeAsync,
+  sreAsync,
+  vAsync,
+  xAllAsync,
+  xAsync,
+  yAsync,
+} from './async';
+import { BudgetExceededError } from './budget';
+import { c, s, x } from './commands';
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Async upper-casing that finishes later for earlier inputs
+const slowUpper = async (text: string): Promise<string> => {
+  await delay(text.length === 1 ? 5 : 1);
+  return text.toUpperCase();
+};
+
+describe('async commands', () => {
+  it('xAsync keeps results in match order', async () => {
+    expect(await xAsync(/\w+/, slowUpper)('a bb c ddd')).toBe('A BB C DDD');
+  });
+
+  it('xAsync limits concurrency', async () => {
+    let active = 0;
+    let peak = 0;
+    const track = async (text: string): Promise<string> => {
+      peak = Math.max(peak, ++active);
+      await delay(1);
+      active--;
+      return `<${text}>`;
+    };
+    const out = await xAsync(/\d/, track, { concurrency: 2 })('1 2 3 4 5');
+    expect(out).toBe('<1> <2> <3> <4> <5>');
+    expect(peak).toBe(2);
+  });
+
+  it('rejects invalid concurrency', () => {
+    expect(() => xAsync(/a/, slowUpper, { concurrency: 0 })).toThrow(RangeError);
+  });
+
+  it('stops starting work after a failure', async () => {
+    const seen: string[] = [];
+    const failOnB = async (text: string): Promise<string> => {
+      seen.push(text);
+      if (text === 'b') throw new Error('lookup failed');
+      return text;
+    };
+    await expect(xAsync(/\w/, failOnB, { concurrency: 1 })('a b c')).rejects.toThrow(
+      'lookup failed',
+    );
+    expect(seen).toEqual(['a', 'b']);
+  });
+
+  it('yAsync transforms the gaps between matches', async () => {
+    expect(await yAsync(/\{\w+\}/, slowUpper)('hi {name}, bye')).toBe('HI {name}, BYE');
+    expect(await yAsync(/\d/, slowUpper)('abc')).toBe('ABC');
+  });
+
+  it('gAsync and vAsync gate on the pattern', async () => {
+    expect(await gAsync(/err/, slowUpper)('err x')).toBe('ERR X');
+    expect(await gAsync(/err/, slowUpper)('ok')).toBe('ok');
+    expect(await vAsync(/err/, slowUpper)('ok')).toBe('OK');
+  });
+
+  it('pipeAsync mixes sync and async commands', async () => {
+    const run = pipeAsync(x(/\s+/, c(' ')), xAsync(/\w+/, slowUpper), s(/!/, '.'));
+    expect(await run('hello   world!')).toBe('HELLO WORLD.');
+  });
+
+  it('xAllAsync collects results in order', async () => {
+    expect(await xAllAsync(/\w+/, slowUpper, { concurrency: 2 })('a bb c')).toEqual([
+      'A',
+      'BB',
+      'C',
+    ]);
+  });
+
+  it('ifMatchAsync branches', async () => {
+    const route = ifMatchAsync(/^E/, slowUpper, async (text) => `ok: ${text}`);
+    expect(await route('err')).toBe('ok: err');
+    expect(await route('Err')).toBe('ERR');
+  });
+});
+
+describe('sreAsync', () => {
+  it('runs async commands inside scopes with valueAsync', async () => {
+    const out = await sreAsync('a1 b2')
+      .x(/\d/)
+      .applyAsync(async (d) => `${Number(d) * 10}`)
+      .valueAsync();
+    expect(out).toBe('a10 b20');
+  });
+
+  it('supports guards, ranges and closed scopes', async () => {
+    const out = await sreAsync('keep 1\nskip 2\nkeep 3')
+      .x(/^.*$/m)
+      .g(/keep/)
+      .x(/\d/)
+      .applyAsync(slowUpper)
+      .c('N')
+      .end()
+      .end()
+      .l(0, 1)
+      .applyAsync(slowUpper)
+      .valueAsync({ concurrency: 1 });
+    expect(out).toBe('KEEP N\nskip 2\nkeep N');
+  });
+
+  it('runs a range body once, whatever the text holds', async () => {
+    const seen: string[] = [];
+    const wrap = async (text: string) => {
+      seen.push(text);
+      return `[${text}]`;
+    };
+    expect(await sreAsync('a\u0000b\u0001c').n(1, -1).applyAsync(wrap).valueAsync()).toBe(
+      'a[\u0000b\u0001]c',
+    );
+    expect(await sreAsync('x\ny\nz').l(-2).applyAsync(wrap).valueAsync()).toBe('x\n[y\nz]');
+    expect(await sreAsync('x').l(5).applyAsync(wrap).valueAsync()).toBe('x\n[]');
+    expect(seen).toEqual(['\u0000b\u0001', 'y\nz', '']);
+  });
+
+  it('keeps the options of overlapping valueAsync calls apart', async () => {
+    const pipeline = sreAsync('1 2').applyAsync(slowUpper).x(/\d/).applyAsync(slowUpper).end();
+    const first = pipeline.valueAsync({ concurrency: 1 });
+    const second = pipeline.valueAsync({ concurrency: 0 });
+    await Promise.all([
+      expect(first).resolves.toBe('1 2'),
+      expect(second).rejects.toThrow(RangeError),
+    ]);
+  });
+
+  it('valueAsync honours the budget', async () => {
+    const numbers = sreAsync('1 2 3').x(/\d/).applyAsync(slowUpper).end();
+    await expect(numbers.budget({ maxMatches: 2 }).valueAsync()).rejects.toMatchObject({
+      limit: 'matches',
+      command: 'x/\\d/',
+    });
+    expect(await numbers.budget({ maxMatches: 3 }).valueAsync()).toBe('1 2 3');
+
+    const grow = sreAsync('ab').applyAsync(async (text) => text.repeat(4));
+    await expect(grow.budget({ maxOutput: 5 }).valueAsync()).rejects.toMatchObject({
+      limit: 'output',
+    });
+
+    const wait = sreAsync('a').applyAsync(async function lookup(text) {
+      await delay(30);
+      return text;
+    });
+    await expect(wait.s(/a/, 'b').budget({ timeout: 5 }).valueAsync()).rejects.toThrow(
+      BudgetExceededError,
+    );
+  });
+
+  it('value() refuses pipelines with async commands', () => {
+    expect(() => sreAsync('a').applyAsync(slowUpper).value()).toThrow(/valueAsync/);
+  });
+
+  it('valueAsync runs synchronous pipelines too', async () => {
+    expect(await sreAsync('a1').x(/\d/).c('N').valueAsync()).toBe('aN');
+  });
+});
@@ -0,0 +1,366 @@
+/**
+ * Async: structural commands whose bodies may await
+ *
+ * `Command` is synchronous, so a body cannot call a translation service,
+ * query a database or hand work to a worker. The functions here mirror
+ * `x`, `y`, `g`, `v`, `pipe`, `xAll` and `ifMatch` for `AsyncCommand`s,
+ * which may return a string or a promise of one. Plain commands are valid
+ * async commands, so both kinds mix freely.
+ *
+ * Per-match work (`xAsync`, `yAsync`, `xAllAsync`) runs concurrently up to
+ * the `concurrency` option; results are always assembled in match order.
+ * `sreAsync` is the fluent builder with `applyAsync()` and `valueAsync()`.
+ *
+ * @module async
+ */
+
+import { AsyncMeter, type Budget } from './budget';
+import { clampRange, describeCommand, findMatches, matcherFor } from './commands';
+import { type Opener, SRE, type Step } from './dsl';
+import type { Command, Selector } from './types';
+
+/**
+ * A command that may complete asynchronously
+ */
+export type AsyncCommand = (input: string) => string | Promise<string>;
+
+/**
+ * Options for per-match async work
+ */
+export interface AsyncOptions {
+  /** Maximum number of regions processed at once (default: all at once) */
+  concurrency?: number;
+}
+
+/**
+ * Run fn over items with at most `limit` calls in flight, keeping order.
+ * Stops starting new calls after the first failure.
+ */
+async function mapLimit<T>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T) => string | Promise<string>,
+): Promise<string[]> {
+  const results = new Array<string>(items.length);
+  let next = 0;
+  let failed = false;
+  const worker = async (): Promise<void> => {
+    while (next < items.length && !failed) {
+      const index = next++;
+      try {
+        results[index] = await fn(items[index]);
+      } catch (err) {
+        failed = true;
+        throw err;
+      }
+    }
+  };
+  const workers = Math.min(limit, items.length);
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}
+
+function concurrencyOf(options: AsyncOptions): number {
+  const { concurrency = Number.POSITIVE_INFINITY } = options;
+  if (
+    concurrency !== Number.POSITIVE_INFINITY &&
+    (!Number.isInteger(concurrency) || concurrency < 1)
+  ) {
+    throw new RangeError(`concurrency must be a positive integer, got ${concurrency}`);
+  }
+  return concurrency;
+}
+
+/**
+ * Async **x command**: apply an async command to every match.
+ *
+ * @param pattern - Regex pattern to match
+ * @param cmd - Command to apply to each match
+ * @param options - Concurrency limit for per-match work
+ * @returns An async command; text outside matches is kept
+ * @throws {RangeError} When `concurrency` is not a positive integer
+ *
+ * @example
+ * // Translate quoted strings, four requests at a time
+ * const translateAll = xAsync(/"[^"]*"/, translate, { concurrency: 4 });
+ * await translateAll('say "hello" and "bye"');
+ */
+export function xAsync(
+  pattern: Selector,
+  cmd: AsyncCommand,
+  options: AsyncOptions = {},
+): (input: string) => Promise<string> {
+  const concurrency = concurrencyOf(options);
+  return async (input: string): Promise<string> => {
+    const matches = findMatches(pattern, input);
+    if (matches.length === 0) return input;
+
+    const replaced = await mapLimit(matches, concurrency, (m) => cmd(m.text));
+    let result = '';
+    let lastEnd = 0;
+    matches.forEach((match, i) => {
+      result += input.slice(lastEnd, match.start) + replaced[i];
+      lastEnd = match.end;
+    });
+    return result + input.slice(lastEnd);
+  };
+}
+
+/**
+ * Async **y command**: apply an async command to the text between matches.
+ *
+ * @param pattern - Regex pattern whose matches are kept unchanged
+ * @param cmd - Command to apply to each gap
+ * @param options - Concurrency limit for per-gap work
+ * @returns An async command
+ * @throws {RangeError} When `concurrency` is not a positive integer
+ *
+ * @example
+ * // Look up everything except the placeholders
+ * await yAsync(/\{\w+\}/, lookup)('Hello {name}, welcome');
+ */
+export function yAsync(
+  pattern: Selector,
+  cmd: AsyncCommand,
+  options: AsyncOptions = {},
+): (input: string) => Promise<string> {
+  const concurrency = concurrencyOf(options);
+  return async (input: string): Promise<string> => {
+    const matches = findMatches(pattern, input);
+    if (matches.length === 0) return cmd(input);
+
+    // Alternating gap/match pieces; only gaps are transformed
+    const pieces: { text: string; gap: boolean }[] = [];
+    let lastEnd = 0;
+    for (const match of matches) {
+      if (match.start > lastEnd) {
+        pieces.push({ text: input.slice(lastEnd, match.start), gap: true });
+      }
+      pieces.push({ text: match.text, gap: false });
+      lastEnd = match.end;
+    }
+    if (lastEnd < input.length) {
+      pieces.push({ text: input.slice(lastEnd), gap: true });
+    }
+
+    const gaps = pieces.filter((piece) => piece.gap);
+    const replaced = await mapLimit(gaps, concurrency, (piece) => cmd(piece.text));
+    let gapIndex = 0;
+    return pieces.map((piece) => (piece.gap ? replaced[gapIndex++] : piece.text)).join('');
+  };
+}
+
+/**
+ * Async **g command**: run the command only if the pattern matches.
+ *
+ * @example
+ * const audit = gAsync(/password/i, async (text) => (await scan(text)) ? '[REDACTED]' : text);
+ */
+export function gAsync(pattern: Selector, cmd: AsyncCommand): (input: string) => Promise<string> {
+  return async (input: string): Promise<string> =>
+    matcherFor(pattern).test(input) ? cmd(input) : input;
+}
+
+/**
+ * Async **v command**: run the command only if the pattern does NOT match.
+ *
+ * @example
+ * const enrich = vAsync(/^#/, lookupLine);
+ */
+export function vAsync(pattern: Selector, cmd: AsyncCommand): (input: string) => Promise<string> {
+  return async (input: string): Promise<string> =>
+    matcherFor(pattern).test(input) ? input : cmd(input);
+}
+
+/**
+ * Compose sync and async commands left-to-right, awaiting each step.
+ *
+ * @example
+ * const run = pipeAsync(x(/\s+/, c(' ')), xAsync(/\w+/, translate), s(/!/, '.'));
+ * await run('hello   world!');
+ */
+export function pipeAsync(...commands: AsyncCommand[]): (input: string) => Promise<string> {
+  return async (input: string): Promise<string> => {
+    let acc = input;
+    for (const cmd of commands) {
+      acc = await cmd(acc);
+    }
+    return acc;
+  };
+}
+
+/**
+ * Async `xAll`: collect the results of an async command on every match.
+ *
+ * @param pattern - Regex pattern to match
+ * @param cmd - Command to apply to each match
+ * @param options - Concurrency limit for per-match work
+ * @returns An async function returning results in match order
+ * @throws {RangeError} When `concurrency` is not a positive integer
+ *
+ * @example
+ * const owners = await xAllAsync(/@\w+/, fetchOwner, { concurrency: 2 })(text);
+ */
+export function xAllAsync(
+  pattern: RegExp,
+  cmd: AsyncCommand,
+  options: AsyncOptions = {},
+): (input: string) => Promise<string[]> {
+  const concurrency = concurrencyOf(options);
+  return (input: string): Promise<string[]> =>
+    mapLimit(findMatches(pattern, input), concurrency, (m) => cmd(m.text));
+}
+
+/**
+ * Async conditional: apply thenCmd if the pattern matches, else elseCmd.
+ *
+ * @example
+ * const route = ifMatchAsync(/^ERROR/, notify, archive);
+ */
+export function ifMatchAsync(
+  pattern: RegExp,
+  thenCmd: AsyncCommand,
+  elseCmd: AsyncCommand,
+): (input: string) => Promise<string> {
+  return async (input: string): Promise<string> =>
+    matcherFor(pattern).test(input) ? thenCmd(input) : elseCmd(input);
+}
+
+// ============================================================
+// Fluent builder
+// ============================================================
+
+/**
+ * What one `valueAsync()` call passes to the scopes it builds
+ */
+interface AsyncRun {
+  options: AsyncOptions;
+  meter?: AsyncMeter;
+}
+
+/**
+ * Fluent builder for pipelines with async commands
+ *
+ * Works like `SRE`; after `applyAsync()` the pipeline is async and runs
+ * with `valueAsync()`.
+ */
+export class AsyncSRE extends SRE {
+  private async = false;
+  private limits?: Budget;
+
+  /**
+   * Apply a custom async command; the pipeline then runs with `valueAsync()`
+   */
+  applyAsync(cmd: AsyncCommand): this {
+    this.async = true;
+    this.current().push(cmd);
+    return this;
+  }
+
+  /**
+   * Limit the work `valueAsync()` may do (see `withBudget`)
+   */
+  budget(budget: Budget): this {
+    this.limits = budget;
+    return this;
+  }
+
+  /**
+   * Compose a pipeline without async commands into a command
+   *
+   * @throws {Error} When the pipeline contains async commands
+   */
+  override build(): Command {
+    if (this.async) {
+      throw new Error('Pipeline contains async commands; use valueAsync()');
+    }
+    return super.build();
+  }
+
+  /**
+   * Execute a pipeline that may contain async commands.
+   * `concurrency` limits how many x/y regions run at once. Under a budget,
+   * time spent waiting counts towards `timeout`.
+   *
+   * @throws {BudgetExceededError} When a budget is set and exceeded (as a rejection)
+   */
+  async valueAsync(options: AsyncOptions = {}): Promise<string> {
+    const run: AsyncRun = { options, meter: this.limits && new AsyncMeter(this.limits) };
+    const steps = this.pipeline();
+    const cmd = buildAsync(steps, run);
+    return (run.meter && steps.length > 1 ? run.meter.step(cmd, 'pipe') : cmd)(this.input);
+  }
+}
+
+/**
+ * Create a new async SRE pipeline
+ *
+ * @example
+ * await sreAsync(text)
+ *   .x(/"[^"]*"/)
+ *   .applyAsync(translate)
+ *   .valueAsync({ concurrency: 4 });
+ */
+export function sreAsync(input = ''): AsyncSRE {
+  return new AsyncSRE(input);
+}
+
+/**
+ * Build the steps of an async pipeline for one run
+ */
+function buildAsync(steps: Step[], run: AsyncRun): AsyncCommand {
+  const { meter } = run;
+  const built = steps.map((step): AsyncCommand => {
+    if (typeof step !== 'function') return wrapAsync(step.opener, buildAsync(step.steps, run), run);
+    if (!meter) return step;
+    // Plain commands are metered inside; async ones only as a whole
+    return describeCommand(step as Command) ? meter.command(step as Command) : meter.step(step);
+  });
+  return built.length === 1 ? built[0] : pipeAsync(...built);
+}
+
+/**
+ * The async command for a scope running `body`
+ */
+function wrapAsync(opener: Opener, body: AsyncCommand, run: AsyncRun): AsyncCommand {
+  // Under a budget, scopes count their matches
+  const select = (pattern: Selector) =>
+    run.meter ? run.meter.selector(opener.op, pattern) : pattern;
+  switch (opener.op) {
+    case 'x':
+      return xAsync(select(opener.pattern), body, run.options);
+    case 'y':
+      return yAsync(select(opener.pattern), body, run.options);
+    case 'g':
+      return gAsync(select(opener.pattern), body);
+    case 'v':
+      return vAsync(select(opener.pattern), body);
+    case 'n':
+      return nAsync(opener.start, opener.end, body);
+    case 'l':
+      return lAsync(opener.start, opener.end, body);
+  }
+}
+
+/**
+ * n() with an async body
+ */
+function nAsync(start: number, end: number | undefined, body: AsyncCommand): AsyncCommand {
+  return async (input: string): Promise<string> => {
+    const range = clampRange(start, end, input.length);
+    const selected = await body(input.slice(range.start, range.end));
+    return input.slice(0, range.start) + selected + input.slice(range.end);
+  };
+}
+
+/**
+ * l() with an async body
+ */
+function lAsync(start: number, end: number | undefined, body: AsyncCommand): AsyncCommand {
+  return async (input: string): Promise<string> => {
+    const lines = input.split('\n');
+    const range = clampRange(start, end, lines.length);
+    const selected = await body(lines.slice(range.start, range.end).join('\n'));
+    return [...lines.slice(0, range.start), selected, ...lines.slice(range.end)].join('\n');
+  };
+}
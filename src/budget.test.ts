@@ -0,0 +1,102 @@
+/**
+ * Tests for runtime budgets
+ */
+
+import { describe, expect, it } from 'vitest';
+import { at } from './address';
+import { BudgetExceededError, withBudget } from './budget';
+import { c, d, g, ifMatch, l, n, p, pipe, s, v, x, xAny, xFirst, xMatch, y } from './commands';
+import { sre } from './dsl';
+import type { Command } from './types';
+
+function budgetError(fn: () => unknown): BudgetExceededError {
+  try {
+    fn();
+  } catch (err) {
+    expect(err).toBeInstanceOf(BudgetExceededError);
+    return err as BudgetExceededError;
+  }
+  throw new Error('expected a BudgetExceededError');
+}
+
+describe('withBudget', () => {
+  it('gives the same output as the unbudgeted command', () => {
+    const input = 'foo 123\nbar 4567 foo\n\nbaz 89 foo9\n';
+    const commands: Command[] = [
+      x(/\d+/, c('N')),
+      y(/\d+/, (gap) => gap.toUpperCase()),
+      y(/zzz/, d()),
+      s(/(\w+) (?<num>\d+)/, '$<num>-$1 [$&]'),
+      s(/o*/, '.'),
+      xMatch(/\d/, (m, i) => `${m.start}:${i}`),
+      pipe(x(/^.*$/m, pipe(g(/foo/, x(/o+/, c('0'))), v(/bar/, s(/a/, 'A')))), p()),
+      ifMatch(/baz/, n(0, 3, c('X')), d()),
+      l(1, 2, xFirst(/\d+/, p())),
+      at('/bar/', c('BAR')),
+      xAny([
+        { pattern: /fo+/, cmd: c('F') },
+        { pattern: /\w+/, cmd: x(/\d/, c('#')) },
+      ]),
+      (text) => text.trim(),
+    ];
+    for (const cmd of commands) {
+      expect(withBudget(cmd, { maxMatches: 100, maxOutput: 1000, timeout: 1000 })(input)).toBe(
+        cmd(input),
+      );
+    }
+  });
+
+  it('limits matches per command call', () => {
+    const cmd = withBudget(x(/\w+/, x(/\d/, c('N'))), { maxMatches: 3 });
+    expect(cmd('a1 b22 c333')).toBe('aN bNN cNNN');
+    const err = budgetError(() => cmd('a1 b2 c3 d4'));
+    expect(err).toMatchObject({ limit: 'matches', max: 3, command: 'x/\\w+/' });
+    expect(err.message).toBe("Command 'x/\\w+/' exceeded its budget: more than 3 matches");
+    expect(budgetError(() => cmd('a1234')).command).toBe('x/\\d/');
+  });
+
+  it('limits output size and names the growing command', () => {
+    const grow = x(/./, (ch) => ch.repeat(10));
+    const err = budgetError(() => withBudget(pipe(p(), grow), { maxOutput: 50 })('abcdefgh'));
+    expect(err).toMatchObject({ limit: 'output', max: 50, command: 'x/./' });
+    expect(() => withBudget(grow, { maxOutput: 50 })('abcde')).not.toThrow();
+  });
+
+  it('names custom functions', () => {
+    const explode = (text: string) => text.repeat(100);
+    const err = budgetError(() => withBudget(s(/a/, 'b'), { maxOutput: 0 })('a'));
+    expect(err.command).toBe('s/a/');
+    expect(budgetError(() => withBudget(explode, { maxOutput: 10 })('ab')).command).toBe('explode');
+  });
+
+  it('stops pipelines that run too long', () => {
+    const slow = (text: string) => {
+      const until = Date.now() + 20;
+      while (Date.now() <= until) {}
+      return text;
+    };
+    const err = budgetError(() => withBudget(x(/\w/, slow), { timeout: 5 })('abc'));
+    expect(err).toMatchObject({ limit: 'time', max: 5, command: 'slow' });
+  });
+
+  it('starts a fresh budget on every call', () => {
+    const cmd = withBudget(x(/\d/, c('N')), { maxMatches: 2 });
+    expect(cmd('12')).toBe('NN');
+    expect(cmd('34')).toBe('NN');
+  });
+
+  it('validates limits', () => {
+    expect(() => withBudget(p(), { maxMatches: -1 })).toThrow(RangeError);
+    expect(() => withBudget(p(), { maxOutput: 1.5 })).toThrow(/maxOutput/);
+    expect(() => withBudget(p(), { timeout: Number.NaN })).toThrow(/timeout/);
+  });
+});
+
+describe('fluent pipelines', () => {
+  it('applies the budget to the built command', () => {
+    const numbers = withBudget(sre().x(/\w/).c('N').build(), { maxMatches: 3 });
+    expect(numbers('a b c')).toBe('N N N');
+    const err = budgetError(() => numbers('a b c d'));
+    expect(err.command).toBe('x/\\w/');
+  });
+});
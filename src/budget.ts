@@ -0,0 +1,402 @@
+/**
+ * Budget: runtime limits for pipelines and the pattern engine
+ *
+ * A budget bounds the work one run may do:
+ *
+ * - maxMatches: matches a single x, xAny, y, xMatch or s may visit per input
+ *   (for `PatternEngine.apply`, the number of reactions)
+ * - maxOutput: length of any command's output (for `PatternEngine.apply`,
+ *   the serialized data of any reaction)
+ * - timeout: wall-clock milliseconds for the whole run
+ * - maxDepth: how many `then` cascades `PatternEngine.apply` may follow
+ *
+ * Limits are checked between steps and between matches. JavaScript cannot
+ * interrupt a single regex search, so a catastrophically backtracking
+ * pattern still blocks until that search returns; reject those up front
+ * with `analyzeRegex` or `safety: 'reject'`.
+ *
+ * @module budget
+ */
+
+import { at } from './address';
+import type { AsyncCommand } from './async';
+import { globalRegex } from './cache';
+import {
+  type BranchMatch,
+  MultiMatcher,
+  commandLabel,
+  describeCommand,
+  expandReplacement,
+  g,
+  ifMatch,
+  l,
+  matcherFor,
+  n,
+  namedGroups,
+  pipe,
+  v,
+  xFirst,
+} from './commands';
+import { advanceIndex } from './source';
+import type { Command, CommandSpec, Match, Selector, TextMatcher } from './types';
+
+/**
+ * Limits for one run of a command or of `PatternEngine.apply`.
+ * Omitted limits are unlimited.
+ */
+export interface Budget {
+  /** Maximum matches per x, xAny, y, xMatch or s call (engine: reactions per apply) */
+  maxMatches?: number;
+  /** Maximum output length in characters (engine: serialized reaction data) */
+  maxOutput?: number;
+  /** Maximum wall-clock time per run, in milliseconds */
+  timeout?: number;
+  /** Maximum depth of `then` cascades in `PatternEngine.apply` */
+  maxDepth?: number;
+}
+
+/**
+ * Which limit of a budget was exceeded
+ */
+export type BudgetLimit = 'matches' | 'output' | 'time' | 'depth';
+
+/**
+ * What exceeded a budget: a command (labelled like edit logs, e.g. `x/\d+/`)
+ * or a pattern of a `PatternEngine`
+ */
+export type BudgetCulprit = { command: string } | { pattern: string };
+
+/**
+ * Error raised when a run exceeds its budget
+ */
+export class BudgetExceededError extends Error {
+  readonly limit: BudgetLimit;
+  /** The configured limit */
+  readonly max: number;
+  /** Label of the command responsible, when a command exceeded the budget */
+  readonly command?: string;
+  /** Name of the pattern responsible, when a pattern exceeded the budget */
+  readonly pattern?: string;
+
+  constructor(limit: BudgetLimit, max: number, culprit: BudgetCulprit) {
+    const who =
+      'command' in culprit ? `Command '${culprit.command}'` : `Pattern '${culprit.pattern}'`;
+    super(`${who} exceeded its budget: ${describeLimit(limit, max)}`);
+    this.name = 'BudgetExceededError';
+    this.limit = limit;
+    this.max = max;
+    if ('command' in culprit) this.command = culprit.command;
+    else this.pattern = culprit.pattern;
+  }
+}
+
+function describeLimit(limit: BudgetLimit, max: number): string {
+  switch (limit) {
+    case 'matches':
+      return `more than ${max} matches`;
+    case 'output':
+      return `output longer than ${max} characters`;
+    case 'time':
+      return `ran longer than ${max}ms`;
+    case 'depth':
+      return `cascade deeper than ${max}`;
+  }
+}
+
+/**
+ * Validate a budget before it is used.
+ *
+ * @throws {RangeError} When a limit is negative, or a count is not an integer
+ */
+function checkBudget(budget: Budget): void {
+  for (const key of ['maxMatches', 'maxOutput', 'maxDepth'] as const) {
+    const value = budget[key];
+    if (value !== undefined && !(Number.isInteger(value) && value >= 0)) {
+      throw new RangeError(`${key} must be a non-negative integer, got ${value}`);
+    }
+  }
+  if (budget.timeout !== undefined && !(budget.timeout >= 0)) {
+    throw new RangeError(`timeout must be a non-negative number, got ${budget.timeout}`);
+  }
+}
+
+/**
+ * Tracks one run against a budget.
+ *
+ * @internal Shared with the pattern engine
+ */
+export class Meter {
+  private readonly deadline: number;
+
+  /**
+   * @throws {RangeError} When the budget is invalid
+   */
+  constructor(readonly budget: Budget = {}) {
+    checkBudget(budget);
+    this.deadline =
+      budget.timeout === undefined ? Number.POSITIVE_INFINITY : Date.now() + budget.timeout;
+  }
+
+  time(culprit: BudgetCulprit): void {
+    if (Date.now() > this.deadline) {
+      throw new BudgetExceededError('time', this.budget.timeout!, culprit);
+    }
+  }
+
+  matches(count: number, culprit: BudgetCulprit): void {
+    const { maxMatches } = this.budget;
+    if (maxMatches !== undefined && count > maxMatches) {
+      throw new BudgetExceededError('matches', maxMatches, culprit);
+    }
+  }
+
+  output(length: number, culprit: BudgetCulprit): void {
+    const { maxOutput } = this.budget;
+    if (maxOutput !== undefined && length > maxOutput) {
+      throw new BudgetExceededError('output', maxOutput, culprit);
+    }
+  }
+
+  depth(depth: number, culprit: BudgetCulprit): void {
+    const { maxDepth } = this.budget;
+    if (maxDepth !== undefined && depth > maxDepth) {
+      throw new BudgetExceededError('depth', maxDepth, culprit);
+    }
+  }
+}
+
+/**
+ * Run a command under a budget.
+ *
+ * Built-in commands are re-assembled so that every nested step is metered;
+ * custom functions run as one step whose output and duration are checked
+ * when they return. Each call of the returned command gets a fresh budget.
+ *
+ * @param cmd - Command or pipeline to limit
+ * @param budget - Limits per call
+ * @returns A command that throws `BudgetExceededError` when a limit is exceeded
+ * @throws {RangeError} When the budget is invalid
+ *
+ * @example
+ * const safe = withBudget(pipe(x(/\w+/, expand), s(/a/, 'b')), {
+ *   maxMatches: 10_000,
+ *   maxOutput: 1_000_000,
+ *   timeout: 50,
+ * });
+ * safe(input); // throws BudgetExceededError naming e.g. 'x/\w+/'
+ */
+export function withBudget(cmd: Command, budget: Budget): Command {
+  checkBudget(budget);
+  let current: Meter | undefined;
+  const run = meter(cmd, () => current!);
+  return (input: string): string => {
+    const outer = current;
+    current = new Meter(budget);
+    try {
+      return run(input);
+    } finally {
+      current = outer;
+    }
+  };
+}
+
+/**
+ * Meters one run of an async pipeline (`SRE.valueAsync`) against a budget.
+ * Commands are metered as by `withBudget`; async steps have their output
+ * and elapsed time checked when they settle, so waiting counts towards
+ * `timeout`; scope selectors count their matches.
+ *
+ * @internal Shared with the fluent builder
+ */
+export class AsyncMeter {
+  private readonly current: Meter;
+
+  /**
+   * @throws {RangeError} When the budget is invalid
+   */
+  constructor(budget: Budget) {
+    this.current = new Meter(budget);
+  }
+
+  command(cmd: Command): Command {
+    return meter(cmd, () => this.current);
+  }
+
+  step(cmd: AsyncCommand, label = cmd.name || 'command'): AsyncCommand {
+    const culprit = { command: label };
+    return async (input: string): Promise<string> => {
+      this.current.time(culprit);
+      const output = await cmd(input);
+      this.current.output(output.length, culprit);
+      this.current.time(culprit);
+      return output;
+    };
+  }
+
+  /** The pattern of an `op` scope, checking the budget before each match */
+  selector(op: string, pattern: Selector): TextMatcher {
+    const label =
+      pattern instanceof RegExp ? `${op}/${pattern.source}/` : `${op}<${pattern.label}>`;
+    const culprit = { command: label };
+    const find = matchesOf(pattern);
+    const scan = (text: string) => metered(find(text), this.current, culprit);
+    return { label, scan, test: (text) => !scan(text).next().done };
+  }
+}
+
+// ============================================================
+// Metered commands
+// ============================================================
+
+type MeterRef = () => Meter;
+
+// Wrap a command so its output and elapsed time are checked
+function meter(cmd: Command, ref: MeterRef): Command {
+  const spec = describeCommand(cmd);
+  const culprit = { command: commandLabel(cmd) };
+  const body = spec ? rebuild(spec, cmd, ref, culprit) : cmd;
+  return (input: string): string => {
+    const current = ref();
+    current.time(culprit);
+    const output = body(input);
+    current.output(output.length, culprit);
+    current.time(culprit);
+    return output;
+  };
+}
+
+function rebuild(spec: CommandSpec, cmd: Command, ref: MeterRef, culprit: BudgetCulprit): Command {
+  const inner = (child: Command) => meter(child, ref);
+  switch (spec.op) {
+    case 'p':
+    case 'd':
+    case 'c':
+      return cmd;
+    case 'x': {
+      const body = inner(spec.cmd);
+      return regions(matchesOf(spec.pattern), ref, culprit, (m) => body(m.text));
+    }
+    case 'xAny': {
+      const bodies = spec.branches.map((branch) => inner(branch.cmd));
+      const matcher = new MultiMatcher(
+        spec.branches.map((branch) => branch.pattern),
+        spec.mode,
+      );
+      return regions<BranchMatch>(
+        (input) => matcher.scan(input),
+        ref,
+        culprit,
+        (m) => bodies[m.branch](m.text),
+      );
+    }
+    case 'xMatch': {
+      const fn = spec.fn;
+      return regions(matchesOf(spec.pattern), ref, culprit, (m, index) => fn(m, index));
+    }
+    case 's': {
+      const { replacement } = spec;
+      return regions(matchesOf(spec.pattern), ref, culprit, (m, _, input) =>
+        expandReplacement(replacement, m, input),
+      );
+    }
+    case 'y': {
+      const body = inner(spec.cmd);
+      const find = matchesOf(spec.pattern);
+      return (input: string): string => {
+        const current = ref();
+        let result = '';
+        let lastEnd = 0;
+        let found = false;
+        for (const match of metered(find(input), current, culprit)) {
+          if (match.start > lastEnd) result += body(input.slice(lastEnd, match.start));
+          result += match.text;
+          lastEnd = match.end;
+          found = true;
+          current.output(result.length, culprit);
+        }
+        if (!found) return body(input);
+        if (lastEnd < input.length) result += body(input.slice(lastEnd));
+        return result;
+      };
+    }
+    case 'g':
+      return g(spec.pattern, inner(spec.cmd));
+    case 'v':
+      return v(spec.pattern, inner(spec.cmd));
+    case 'xFirst':
+      return xFirst(spec.pattern, inner(spec.cmd));
+    case 'ifMatch':
+      return ifMatch(spec.pattern, inner(spec.then), inner(spec.else));
+    case 'n':
+      return n(spec.start, spec.end, inner(spec.cmd));
+    case 'l':
+      return l(spec.start, spec.end, inner(spec.cmd));
+    case 'at':
+      return at(spec.address, inner(spec.cmd));
+    case 'pipe':
+      return pipe(...spec.commands.map(inner));
+  }
+}
+
+// x, xAny, xMatch and s: replace each match, keeping the text between matches
+function regions<M extends Match>(
+  find: (input: string) => Iterable<M>,
+  ref: MeterRef,
+  culprit: BudgetCulprit,
+  replace: (match: M, index: number, input: string) => string,
+): Command {
+  return (input: string): string => {
+    const current = ref();
+    let result = '';
+    let lastEnd = 0;
+    let index = 0;
+    for (const match of metered(find(input), current, culprit)) {
+      result += input.slice(lastEnd, match.start) + replace(match, index++, input);
+      lastEnd = match.end;
+      current.output(result.length, culprit);
+    }
+    return index === 0 ? input : result + input.slice(lastEnd);
+  };
+}
+
+// Check the budget before each match is used
+function* metered<M>(matches: Iterable<M>, current: Meter, culprit: BudgetCulprit): Generator<M> {
+  let count = 0;
+  for (const match of matches) {
+    current.matches(++count, culprit);
+    current.time(culprit);
+    yield match;
+  }
+}
+
+// Like findMatches, but lazy: stops searching when the budget is exceeded
+function matchesOf(pattern: Selector): (text: string) => Iterable<Match> {
+  if (!(pattern instanceof RegExp)) return (text) => pattern.scan(text);
+  const global = globalRegex(pattern);
+  return function* (text: string): Generator<Match> {
+    const selected = matcherFor(global);
+    if (!(selected instanceof RegExp)) {
+      yield* selected.scan(text);
+      return;
+    }
+    let lastIndex = 0;
+    for (;;) {
+      // Reset per step: nested commands may reuse the same RegExp
+      global.lastIndex = lastIndex;
+      const match = global.exec(text);
+      if (match === null) return;
+      lastIndex =
+        match[0].length === 0
+          ? advanceIndex(text, global.lastIndex, global.unicode)
+          : global.lastIndex;
+      const found: Match = {
+        text: match[0],
+        start: match.index,
+        end: match.index + match[0].length,
+        groups: [...match],
+      };
+      if (match.groups) found.namedGroups = namedGroups(match.groups);
+      yield found;
+    }
+  };
+}
@@ -0,0 +1,86 @@
+/**
+ * Benchmarks for regex reuse in hot loops
+ *
+ * Run with `npm run bench`. Each pair compares building a RegExp on every
+ * call (the behavior before commands compiled once) with the cached path;
+ * for string patterns, the same pattern with a cold and a warm cache.
+ * `cache.test.ts` checks the hit counts behind these numbers.
+ */
+
+import { bench, describe } from 'vitest';
+import { setRegexCacheSize, warmRegexCache } from './cache';
+import { c, s, x } from './commands';
+import { sre } from './dsl';
+import type { Match } from './types';
+
+const lines = Array.from(
+  { length: 2000 },
+  (_, i) => `2024-01-${i % 28} INFO request ${i} took ${i * 3}ms`,
+);
+
+// x and s as they were before: a new global RegExp on every call
+function freshX(pattern: RegExp, cmd: (text: string) => string): (input: string) => string {
+  return (input) => {
+    const global = new RegExp(pattern.source, `${pattern.flags}g`);
+    const matches: Match[] = [];
+    for (let m = global.exec(input); m !== null; m = global.exec(input)) {
+      matches.push({ text: m[0], start: m.index, end: m.index + m[0].length, groups: [...m] });
+    }
+    let result = '';
+    let lastEnd = 0;
+    for (const match of matches) {
+      result += input.slice(lastEnd, match.start) + cmd(match.text);
+      lastEnd = match.end;
+    }
+    return result + input.slice(lastEnd);
+  };
+}
+
+function freshS(pattern: RegExp, replacement: string): (input: string) => string {
+  return (input) => input.replace(new RegExp(pattern.source, `${pattern.flags}g`), replacement);
+}
+
+describe('x over many short lines', () => {
+  const cached = x(/\d+/, c('N'));
+  const fresh = freshX(/\d+/, c('N'));
+
+  bench('regex per call', () => {
+    for (const line of lines) fresh(line);
+  });
+
+  bench('compiled once', () => {
+    for (const line of lines) cached(line);
+  });
+});
+
+describe('s over many short lines', () => {
+  const cached = s(/\d+/, 'N');
+  const fresh = freshS(/\d+/, 'N');
+
+  bench('regex per call', () => {
+    for (const line of lines) fresh(line);
+  });
+
+  bench('compiled once', () => {
+    for (const line of lines) cached(line);
+  });
+});
+
+describe('fluent API with string patterns', () => {
+  const run = () => {
+    for (const line of lines) sre(line).x('\\d+').c('N').value();
+  };
+
+  // A cache of size 0 compiles the pattern on every call
+  bench('cold cache', run, {
+    setup: () => setRegexCacheSize(0),
+    teardown: () => setRegexCacheSize(256),
+  });
+
+  bench('warm cache', run, {
+    setup: () => {
+      setRegexCacheSize(256);
+      warmRegexCache([['\\d+', 'g']]);
+    },
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Tests for the regex caches
+ */
+
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  clearRegexCache,
+  compileRegex,
+  globalRegex,
+  regexCacheStats,
+  setRegexCacheSize,
+  warmRegexCache,
+} from './cache';
+import { c, findMatches, x } from './commands';
+import { sre } from './dsl';
+
+describe('string pattern cache', () => {
+  afterEach(() => {
+    setRegexCacheSize(256);
+    clearRegexCache();
+  });
+
+  it('returns the same RegExp for the same source and flags', () => {
+    clearRegexCache();
+    const re = compileRegex('\\d+', 'g');
+    expect(compileRegex('\\d+', 'g')).toBe(re);
+    expect(compileRegex('\\d+')).not.toBe(re);
+    expect(regexCacheStats()).toMatchObject({ hits: 1, misses: 2, size: 2 });
+  });
+
+  it('evicts the least recently used pattern', () => {
+    clearRegexCache();
+    setRegexCacheSize(2);
+    const a = compileRegex('a');
+    compileRegex('b');
+    compileRegex('a');
+    compileRegex('c');
+    expect(regexCacheStats().patterns.map((p) => p.source)).toEqual(['a', 'c']);
+    expect(compileRegex('a')).toBe(a);
+  });
+
+  it('pre-warms patterns', () => {
+    clearRegexCache();
+    warmRegexCache(['\\d+', ['^ERROR', 'm']]);
+    expect(regexCacheStats().patterns).toEqual([
+      { source: '\\d+', flags: '' },
+      { source: '^ERROR', flags: 'm' },
+    ]);
+    compileRegex('^ERROR', 'm');
+    expect(regexCacheStats().hits).toBe(1);
+  });
+
+  it('is used by string patterns in the fluent API', () => {
+    clearRegexCache();
+    for (let i = 0; i < 3; i++) sre('a1').x('\\d').c('N').value();
+    expect(regexCacheStats()).toMatchObject({ hits: 2, misses: 1 });
+  });
+
+  it('compiles a string pattern once across a hot loop', () => {
+    clearRegexCache();
+    const lines = Array.from({ length: 500 }, (_, i) => `request ${i} took ${i * 3}ms`);
+    for (const line of lines) sre(line).x('\\d+').c('N').value();
+    expect(regexCacheStats()).toMatchObject({ hits: 499, misses: 1, size: 1 });
+
+    // A cold cache compiles the same pattern on every call
+    clearRegexCache();
+    setRegexCacheSize(0);
+    for (const line of lines) sre(line).x('\\d+').c('N').value();
+    expect(regexCacheStats()).toMatchObject({ hits: 0, misses: 500, size: 0 });
+  });
+
+  it('validates the size', () => {
+    expect(() => setRegexCacheSize(-1)).toThrow(RangeError);
+  });
+});
+
+describe('globalRegex', () => {
+  it('derives one private global copy per pattern', () => {
+    const re = /a/i;
+    const global = globalRegex(re);
+    expect(global).not.toBe(re);
+    expect(global.flags).toBe('gi');
+    expect(globalRegex(re)).toBe(global);
+    expect(globalRegex(global)).toBe(global);
+  });
+
+  it("leaves the caller's lastIndex alone", () => {
+    const re = /\d/g;
+    re.lastIndex = 2;
+    expect(findMatches(re, '1 2').length).toBe(2);
+    expect(x(re, c('N'))('1 2')).toBe('N N');
+    expect(re.lastIndex).toBe(2);
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Cache: compile each regex once
+ *
+ * Two caches keep regex construction out of hot loops:
+ *
+ * - string patterns (`sre(text).x('\\d+')`, `extract`, `tokenize`,
+ *   pattern definitions) go through a shared LRU cache keyed by source
+ *   and flags
+ * - commands built from a RegExp derive the global copy they match with
+ *   once, when the command is built
+ *
+ * Cached RegExp objects are shared. Treat them as read-only and do not
+ * rely on their `lastIndex`.
+ *
+ * @module cache
+ */
+
+/**
+ * Snapshot of the string pattern cache
+ */
+export interface RegexCacheStats {
+  /** Number of cached patterns */
+  size: number;
+  /** Maximum number of cached patterns */
+  capacity: number;
+  /** Lookups served from the cache */
+  hits: number;
+  /** Lookups that compiled a new RegExp */
+  misses: number;
+  /** Cached patterns, least recently used first */
+  patterns: { source: string; flags: string }[];
+}
+
+const DEFAULT_CAPACITY = 256;
+
+let capacity = DEFAULT_CAPACITY;
+let hits = 0;
+let misses = 0;
+// Map iteration order is insertion order; re-inserting on hit keeps it LRU
+const entries = new Map<string, RegExp>();
+
+// Key that cannot collide: flags never contain '/'
+const keyOf = (source: string, flags: string): string => `${flags}/${source}`;
+
+/**
+ * Compile a string pattern, reusing a cached RegExp when possible.
+ *
+ * @param source - Regex source, e.g. `'\\d+'`
+ * @param flags - Regex flags (default none)
+ * @returns A shared RegExp for the source and flags
+ * @throws {SyntaxError} When the source is not a valid regex
+ *
+ * @example
+ * compileRegex('\\d+', 'g') === compileRegex('\\d+', 'g'); // => true
+ */
+export function compileRegex(source: string, flags = ''): RegExp {
+  const key = keyOf(source, flags);
+  const cached = entries.get(key);
+  if (cached) {
+    hits++;
+    entries.delete(key);
+    entries.set(key, cached);
+    return cached;
+  }
+
+  misses++;
+  const re = new RegExp(source, flags);
+  entries.set(key, re);
+  if (entries.size > capacity) {
+    entries.delete(entries.keys().next().value!);
+  }
+  return re;
+}
+
+/**
+ * Compile patterns ahead of time, e.g. at startup before a hot loop.
+ *
+ * @param patterns - Sources, or [source, flags] pairs
+ * @throws {SyntaxError} When a source is not a valid regex
+ *
+ * @example
+ * warmRegexCache(['\\d+', ['^ERROR', 'm']]);
+ */
+export function warmRegexCache(patterns: Iterable<string | [string, string]>): void {
+  for (const pattern of patterns) {
+    if (typeof pattern === 'string') compileRegex(pattern);
+    else compileRegex(pattern[0], pattern[1]);
+  }
+}
+
+/**
+ * Inspect the string pattern cache.
+ *
+ * @example
+ * const { hits, misses, size } = regexCacheStats();
+ */
+export function regexCacheStats(): RegexCacheStats {
+  const patterns = [...entries.values()].map((re) => ({ source: re.source, flags: re.flags }));
+  return { size: entries.size, capacity, hits, misses, patterns };
+}
+
+/**
+ * Empty the string pattern cache and reset its counters.
+ */
+export function clearRegexCache(): void {
+  entries.clear();
+  hits = 0;
+  misses = 0;
+}
+
+/**
+ * Change how many string patterns are kept (default 256).
+ * Shrinking evicts the least recently used patterns.
+ *
+ * @throws {RangeError} When the size is not a non-negative integer
+ */
+export function setRegexCacheSize(size: number): void {
+  if (!Number.isInteger(size) || size < 0) {
+    throw new RangeError(`Cache size must be a non-negative integer, got ${size}`);
+  }
+  capacity = size;
+  while (entries.size > capacity) {
+    entries.delete(entries.keys().next().value!);
+  }
+}
+
+/**
+ * Global copies of RegExps, derived once per pattern object
+ */
+const globals = new WeakMap<RegExp, RegExp>();
+
+/**
+ * The global ('g') copy of a pattern used for match loops.
+ * The copy is private to this library, so its `lastIndex` is never shared
+ * with the caller's RegExp.
+ *
+ * @internal Used by command builders
+ */
+export function globalRegex(pattern: RegExp): RegExp {
+  let global = globals.get(pattern);
+  if (!global) {
+    global = new RegExp(
+      pattern.source,
+      pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`,
+    );
+    globals.set(pattern, global);
+    // The copy is already global; map it to itself for callers that pass it back in
+    globals.set(global, global);
+  }
+  return global;
+}
@@ -11,14 +11,113 @@
  * @module commands
  */
 
-import type { Command, Match } from './types';
+import { globalRegex } from './cache';
+import { advanceIndex, countGroups, shiftBackreferences, unnameGroups } from './source';
+import type {
+  Command,
+  CommandSpec,
+  Match,
+  MatchCommand,
+  Selector,
+  TextMatcher,
+  XAnyMode,
+  XBranch,
+} from './types';
+
+/**
+ * Specs of commands built by the primitives below, keyed by the closure
+ */
+const specs = new WeakMap<Command, CommandSpec>();
+
+/**
+ * Register the spec of a command built by a primitive.
+ *
+ * @internal Used by command builders outside this module (e.g. `at`)
+ */
+export function define(spec: CommandSpec, cmd: Command): Command {
+  specs.set(cmd, spec);
+  return cmd;
+}
+
+/**
+ * Describe how a command was built, if it came from a primitive.
+ *
+ * Commands are plain closures; this recovers the operation and its
+ * arguments (pattern, nested commands, ...) so tools such as `recordEdits`
+ * can look inside. Custom functions return `undefined`.
+ *
+ * @param cmd - Any command
+ * @returns The spec for built-in commands, `undefined` otherwise
+ *
+ * @example
+ * describeCommand(x(/\d+/, c('N')));
+ * // => { op: 'x', pattern: /\d+/, cmd: [Function] }
+ * describeCommand((s) => s.trim()); // => undefined
+ */
+export function describeCommand(cmd: Command): CommandSpec | undefined {
+  return specs.get(cmd);
+}
+
+/**
+ * Short label for a command: the op plus its pattern (`x/\d+/`, or
+ * `x<literals(3)>` for matchers), the op alone, or the function name for
+ * custom commands.
+ *
+ * @internal Shared by budgets and tracing
+ */
+export function commandLabel(cmd: Command): string {
+  const spec = specs.get(cmd);
+  if (!spec) return cmd.name || 'command';
+  if (!('pattern' in spec)) return spec.op;
+  const { pattern } = spec;
+  return pattern instanceof RegExp
+    ? `${spec.op}/${pattern.source}/`
+    : `${spec.op}<${pattern.label}>`;
+}
+
+/**
+ * Collect the named groups of a match, dropping those that did not participate.
+ *
+ * @internal Shared with the lexer and pattern engine
+ */
+export function namedGroups(groups: Record<string, string | undefined>): Record<string, string> {
+  const named: Record<string, string> = {};
+  for (const [name, value] of Object.entries(groups)) {
+    if (value !== undefined) named[name] = value;
+  }
+  return named;
+}
+
+/**
+ * Expand a String.replace pattern ($&, $1, $<name>, ...) for one match.
+ *
+ * @internal Shared by edit recording and streaming
+ */
+export function expandReplacement(replacement: string, match: Match, input: string): string {
+  return replacement.replace(/\$(\$|&|`|'|\d{1,2}|<([^>]*)>)/g, (token, ref: string, name) => {
+    if (ref === '$') return '$';
+    if (ref === '&') return match.text;
+    if (ref === '`') return input.slice(0, match.start);
+    if (ref === "'") return input.slice(match.end);
+    if (name !== undefined) {
+      return match.namedGroups ? (match.namedGroups[name] ?? '') : token;
+    }
+    const groupCount = match.groups.length - 1;
+    const index = Number(ref);
+    if (ref.length === 2 && index >= 1 && index <= groupCount) return match.groups[index] ?? '';
+    const single = Number(ref[0]);
+    if (single >= 1 && single <= groupCount) return (match.groups[single] ?? '') + ref.slice(1);
+    return token;
+  });
+}
 
 /**
  * Find all matches of a regex in text, returning detailed match information.
  *
- * @param pattern - The regex pattern to match
+ * @param pattern - The regex pattern, or a matcher such as `literals(...)`
  * @param text - The text to search
  * @returns Array of Match objects with text, position, and capture groups
+ *   (plus `namedGroups` when the pattern has named groups)
  *
  * @example
  * const matches = findMatches(/\d+/, 'a1b23c456');
@@ -28,36 +127,204 @@ import type { Command, Match } from './types';
  * //   { text: '456', start: 6, end: 9, groups: ['456'] }
  * // ]
  */
-export function findMatches(pattern: RegExp, text: string): Match[] {
+export function findMatches(pattern: Selector, text: string): Match[] {
+  const selected = matcherFor(pattern);
+  if (!(selected instanceof RegExp)) return [...selected.scan(text)];
   const matches: Match[] = [];
-  const global = new RegExp(
-    pattern.source,
-    pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`,
-  );
+  const global = globalRegex(selected);
+  global.lastIndex = 0;
 
   let match: RegExpExecArray | null;
   while ((match = global.exec(text)) !== null) {
-    matches.push({
+    const found: Match = {
       text: match[0],
       start: match.index,
       end: match.index + match[0].length,
       groups: [...match],
-    });
+    };
+    if (match.groups) {
+      found.namedGroups = namedGroups(match.groups);
+    }
+    matches.push(found);
     // Prevent infinite loop on zero-length matches
     if (match[0].length === 0) {
-      global.lastIndex++;
+      global.lastIndex = advanceIndex(text, global.lastIndex, global.unicode);
     }
   }
   return matches;
 }
 
+// Runs RegExps while another engine is selected (set by `setRegexEngine`)
+let engineFor: ((pattern: RegExp) => TextMatcher) | undefined;
+
+/**
+ * Run every RegExp with another engine, or with RegExp again
+ *
+ * @internal Used by `setRegexEngine`, so the commands load the Pike VM
+ * only when it is selected
+ */
+export function useRegexEngine(select?: (pattern: RegExp) => TextMatcher): void {
+  engineFor = select;
+}
+
+/**
+ * What runs a selector: the Pike VM for a RegExp while it is the selected
+ * engine (see `setRegexEngine`), otherwise the selector itself
+ *
+ * @internal Shared by command runners
+ */
+export function matcherFor(pattern: Selector): Selector {
+  return pattern instanceof RegExp && engineFor ? engineFor(pattern) : pattern;
+}
+
+// Regexes search with a shared global copy; matchers scan as they are
+function searchable(pattern: Selector): Selector {
+  return pattern instanceof RegExp ? globalRegex(pattern) : pattern;
+}
+
+/**
+ * Join patterns into one alternation `(A)|(B)|...` that finds the leftmost
+ * match of any of them. `offsets[i]` is the group wrapping pattern i;
+ * backreferences inside each pattern are renumbered to match. Named groups
+ * become plain groups, so patterns may share names; `names[i]` gives their
+ * numbers within pattern i (see `groupsByName`).
+ *
+ * @internal Shared with the lexer
+ */
+export function alternation(
+  patterns: readonly RegExp[],
+  flags: string,
+): { regex: RegExp; offsets: number[]; names: [string, number][][] } {
+  const offsets: number[] = [];
+  const names: [string, number][][] = [];
+  const sources: string[] = [];
+  let offset = 1; // match[0] is the full match
+  for (const pattern of patterns) {
+    const unnamed = unnameGroups(pattern.source);
+    offsets.push(offset);
+    names.push(unnamed.names);
+    sources.push(`(${shiftBackreferences(unnamed.source, offset)})`);
+    offset += 1 + countGroups(pattern.source); // +1 for the wrapping group
+  }
+  return { regex: new RegExp(sources.join('|'), flags), offsets, names };
+}
+
+/**
+ * The named groups of one pattern's match in an `alternation`, from its
+ * groups (`groups[0]` being the whole match). Undefined when the pattern
+ * has no named groups, as `match.groups` is.
+ *
+ * @internal Shared with the lexer
+ */
+export function groupsByName(
+  names: readonly [string, number][],
+  groups: readonly (string | undefined)[],
+): Record<string, string> | undefined {
+  if (names.length === 0) return undefined;
+  return namedGroups(Object.fromEntries(names.map(([name, index]) => [name, groups[index]])));
+}
+
+/**
+ * A match of one of several patterns
+ *
+ * @internal
+ */
+export interface BranchMatch extends Match {
+  /** Index of the pattern that matched */
+  branch: number;
+}
+
+/**
+ * Finds the non-overlapping matches of several patterns in a single scan.
+ * Groups and positions of each match are those of the pattern that won.
+ *
+ * @internal Shared by `xAny`, budgets, tracing and edit recording
+ */
+export class MultiMatcher {
+  private readonly combined: RegExp;
+  private readonly offsets: number[];
+  private readonly names: [string, number][][];
+  private readonly groups: number[];
+  /** Sticky copies of the patterns, to compare match lengths at one position */
+  private readonly sticky: RegExp[];
+
+  /**
+   * @throws {TypeError} When the patterns do not share their flags
+   */
+  constructor(patterns: readonly RegExp[], mode: XAnyMode) {
+    const flags = sharedFlags(patterns);
+    const { regex, offsets, names } = alternation(patterns, `${flags}g`);
+    this.combined = regex;
+    this.offsets = offsets;
+    this.names = names;
+    this.groups = patterns.map((pattern) => countGroups(pattern.source));
+    this.sticky =
+      mode === 'longest' ? patterns.map((re) => new RegExp(re.source, `${flags}y`)) : [];
+  }
+
+  *scan(text: string): Generator<BranchMatch> {
+    if (this.offsets.length === 0) return;
+    let lastIndex = 0;
+    for (;;) {
+      // Reset per match: nested commands may scan with the same matcher
+      this.combined.lastIndex = lastIndex;
+      const match = this.combined.exec(text);
+      if (match === null) return;
+      // Patterns listed before the winner cannot match at this position
+      let branch = this.offsets.findIndex((offset) => match[offset] !== undefined);
+      const offset = this.offsets[branch];
+      let groups = match.slice(offset, offset + 1 + this.groups[branch]);
+      for (let i = branch + 1; i < this.sticky.length; i++) {
+        const sticky = this.sticky[i];
+        sticky.lastIndex = match.index;
+        const other = sticky.exec(text);
+        if (other && other[0].length > groups[0].length) {
+          branch = i;
+          groups = [...other];
+        }
+      }
+      const named = groupsByName(this.names[branch], groups);
+      const found: BranchMatch = {
+        text: groups[0],
+        start: match.index,
+        end: match.index + groups[0].length,
+        groups,
+        branch,
+      };
+      if (named) found.namedGroups = named;
+      lastIndex =
+        found.end === found.start
+          ? advanceIndex(text, found.end, this.combined.unicode)
+          : found.end;
+      yield found;
+    }
+  }
+}
+
+// Flags of the patterns, which one combined regex can only have one set of
+function sharedFlags(patterns: readonly RegExp[]): string {
+  const flagsOf = (pattern: RegExp) => pattern.flags.replace(/[gy]/g, '');
+  const [first] = patterns;
+  if (!first) return '';
+  const flags = flagsOf(first);
+  for (const pattern of patterns) {
+    if (flagsOf(pattern) !== flags) {
+      throw new TypeError(
+        `Patterns scanned together must share flags: /${first.source}/${flags} ` +
+          `and /${pattern.source}/${flagsOf(pattern)} differ`,
+      );
+    }
+  }
+  return flags;
+}
+
 /**
  * **x command**: Extract all matches and apply a command to each.
  *
  * This is the fundamental "loop over matches" operation from Pike's paper.
  * Non-matching portions are preserved; only matches are transformed.
  *
- * @param pattern - Regex pattern to match
+ * @param pattern - Regex pattern, or a matcher such as `literals(...)`
  * @param cmd - Command to apply to each match
  * @returns A new command that transforms input text
  *
@@ -71,9 +338,10 @@ export function findMatches(pattern: RegExp, text: string): Match[] {
  * const redact = x(/\d+/, c('[NUM]'));
  * redact('SSN: 123-45-6789'); // => 'SSN: [NUM]-[NUM]-[NUM]'
  */
-export function x(pattern: RegExp, cmd: Command): Command {
-  return (input: string): string => {
-    const matches = findMatches(pattern, input);
+export function x(pattern: Selector, cmd: Command): Command {
+  const global = searchable(pattern);
+  return define({ op: 'x', pattern, cmd }, (input: string): string => {
+    const matches = findMatches(global, input);
     if (matches.length === 0) return input;
 
     let result = '';
@@ -90,7 +358,104 @@ export function x(pattern: RegExp, cmd: Command): Command {
     // Keep text after last match
     result += input.slice(lastEnd);
     return result;
-  };
+  });
+}
+
+/**
+ * **x command** with captures: like `x`, but the callback receives the full
+ * `Match` (capture groups and positions) and the index of the match.
+ *
+ * Positions are offsets into the input of the returned command.
+ *
+ * @param pattern - Regex pattern to match
+ * @param fn - Called with each match and its index; returns the replacement
+ * @returns A new command that transforms input text
+ *
+ * @example
+ * // Swap user@domain to domain:user
+ * const swap = xMatch(/(\w+)@(\w+)/, (m) => `${m.groups[2]}:${m.groups[1]}`);
+ * swap('ann@acme bob@corp'); // => 'acme:ann corp:bob'
+ *
+ * @example
+ * // Number the matches
+ * const number = xMatch(/item/, (m, i) => `${m.text}#${i + 1}`);
+ * number('item item'); // => 'item#1 item#2'
+ */
+export function xMatch(pattern: RegExp, fn: MatchCommand): Command {
+  const global = globalRegex(pattern);
+  return define({ op: 'xMatch', pattern, fn }, (input: string): string => {
+    const matches = findMatches(global, input);
+    if (matches.length === 0) return input;
+
+    let result = '';
+    let lastEnd = 0;
+
+    for (const [index, match] of matches.entries()) {
+      result += input.slice(lastEnd, match.start);
+      result += fn(match, index);
+      lastEnd = match.end;
+    }
+
+    result += input.slice(lastEnd);
+    return result;
+  });
+}
+
+/**
+ * Options for `xAny`
+ */
+export interface XAnyOptions {
+  /**
+   * Among patterns matching at the leftmost position, take the longest
+   * match (`'longest'`, the default; ties go to the earlier pattern) or
+   * the first pattern in the list (`'priority'`)
+   */
+  mode?: XAnyMode;
+}
+
+/**
+ * **x command** over several patterns at once: scan the input once and
+ * apply the command of whichever pattern matches each region.
+ *
+ * Unlike chained `x` calls, matches never overlap and no pattern sees
+ * text another branch produced. All patterns must share their flags
+ * (apart from `g` and `y`).
+ *
+ * @param branches - Patterns and the command for each one's matches
+ * @param options - How to choose among patterns matching at one position
+ * @returns A command that transforms each matched region
+ * @throws {TypeError} When the patterns have different flags
+ *
+ * @example
+ * // Leftmost-longest: "classify" is one match, not "class" + "ify"
+ * const tag = xAny([
+ *   { pattern: /class/, cmd: c('KEYWORD') },
+ *   { pattern: /[a-z]+/, cmd: c('IDENT') },
+ * ]);
+ * tag('class classify'); // => 'KEYWORD IDENT'
+ *
+ * @example
+ * // Priority order: the first listed pattern wins
+ * xAny([{ pattern: /\d/, cmd: c('D') }, { pattern: /\d+/, cmd: c('N') }], { mode: 'priority' })(
+ *   '42',
+ * ); // => 'DD'
+ */
+export function xAny(branches: readonly XBranch[], options: XAnyOptions = {}): Command {
+  const { mode = 'longest' } = options;
+  const list = branches.map(({ pattern, cmd }) => ({ pattern, cmd }));
+  const matcher = new MultiMatcher(
+    list.map((branch) => branch.pattern),
+    mode,
+  );
+  return define({ op: 'xAny', branches: list, mode }, (input: string): string => {
+    let result = '';
+    let lastEnd = 0;
+    for (const match of matcher.scan(input)) {
+      result += input.slice(lastEnd, match.start) + list[match.branch].cmd(match.text);
+      lastEnd = match.end;
+    }
+    return result + input.slice(lastEnd);
+  });
 }
 
 /**
@@ -99,7 +464,7 @@ export function x(pattern: RegExp, cmd: Command): Command {
  * The complement of `x`. Matches are preserved; non-matches are transformed.
  * Useful for transforming the "background" while keeping specific patterns intact.
  *
- * @param pattern - Regex pattern (matches are preserved)
+ * @param pattern - Regex pattern or matcher (matches are preserved)
  * @param cmd - Command to apply to non-matching portions
  * @returns A new command that transforms input text
  *
@@ -113,9 +478,10 @@ export function x(pattern: RegExp, cmd: Command): Command {
  * const keepEmails = y(/\S+@\S+/, () => '[REDACTED]');
  * keepEmails('Contact: john@example.com'); // => '[REDACTED] john@example.com'
  */
-export function y(pattern: RegExp, cmd: Command): Command {
-  return (input: string): string => {
-    const matches = findMatches(pattern, input);
+export function y(pattern: Selector, cmd: Command): Command {
+  const global = searchable(pattern);
+  return define({ op: 'y', pattern, cmd }, (input: string): string => {
+    const matches = findMatches(global, input);
     if (matches.length === 0) return cmd(input);
 
     let result = '';
@@ -137,7 +503,7 @@ export function y(pattern: RegExp, cmd: Command): Command {
     }
 
     return result;
-  };
+  });
 }
 
 /**
@@ -146,7 +512,7 @@ export function y(pattern: RegExp, cmd: Command): Command {
  * A conditional gate. If the pattern matches, the entire input is passed
  * to the command. Otherwise, input is returned unchanged.
  *
- * @param pattern - Regex pattern to test
+ * @param pattern - Regex pattern or matcher to test
  * @param cmd - Command to run if pattern matches
  * @returns A new command that conditionally transforms input
  *
@@ -156,13 +522,13 @@ export function y(pattern: RegExp, cmd: Command): Command {
  * alertErrors('Error: disk full'); // => '[ALERT] Error: disk full'
  * alertErrors('Info: all good');   // => 'Info: all good'
  */
-export function g(pattern: RegExp, cmd: Command): Command {
-  return (input: string): string => {
-    if (pattern.test(input)) {
+export function g(pattern: Selector, cmd: Command): Command {
+  return define({ op: 'g', pattern, cmd }, (input: string): string => {
+    if (matcherFor(pattern).test(input)) {
       return cmd(input);
     }
     return input;
-  };
+  });
 }
 
 /**
@@ -170,7 +536,7 @@ export function g(pattern: RegExp, cmd: Command): Command {
  *
  * The complement of `g`. Useful for filtering or skipping certain inputs.
  *
- * @param pattern - Regex pattern to test
+ * @param pattern - Regex pattern or matcher to test
  * @param cmd - Command to run if pattern does NOT match
  * @returns A new command that conditionally transforms input
  *
@@ -182,13 +548,13 @@ export function g(pattern: RegExp, cmd: Command): Command {
  * // Process only non-empty lines
  * const skipEmpty = v(/^\s*$/, processLine);
  */
-export function v(pattern: RegExp, cmd: Command): Command {
-  return (input: string): string => {
-    if (!pattern.test(input)) {
+export function v(pattern: Selector, cmd: Command): Command {
+  return define({ op: 'v', pattern, cmd }, (input: string): string => {
+    if (!matcherFor(pattern).test(input)) {
       return cmd(input);
     }
     return input;
-  };
+  });
 }
 
 /**
@@ -208,7 +574,7 @@ export function v(pattern: RegExp, cmd: Command): Command {
  * numbers('a1b23c456'); // => ['1', '23', '456']
  */
 export function p(): Command {
-  return (input: string): string => input;
+  return define({ op: 'p' }, (input: string): string => input);
 }
 
 /**
@@ -229,7 +595,7 @@ export function p(): Command {
  * stripTags('<p>Hello</p>'); // => 'Hello'
  */
 export function d(): Command {
-  return (): string => '';
+  return define({ op: 'd' }, (): string => '');
 }
 
 /**
@@ -251,7 +617,7 @@ export function d(): Command {
  * normalizeSpace('a   b\t\tc'); // => 'a b c'
  */
 export function c(replacement: string): Command {
-  return (): string => replacement;
+  return define({ op: 'c', text: replacement }, (): string => replacement);
 }
 
 /**
@@ -275,13 +641,18 @@ export function c(replacement: string): Command {
  * wrapNumbers('value: 42'); // => 'value: <num>42</num>'
  */
 export function s(pattern: RegExp, replacement: string): Command {
-  return (input: string): string => {
-    const global = new RegExp(
-      pattern.source,
-      pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`,
-    );
-    return input.replace(global, replacement);
-  };
+  const global = globalRegex(pattern);
+  return define({ op: 's', pattern, replacement }, (input: string): string => {
+    const selected = matcherFor(global);
+    if (selected instanceof RegExp) return input.replace(selected, replacement);
+    let result = '';
+    let lastEnd = 0;
+    for (const match of selected.scan(input)) {
+      result += input.slice(lastEnd, match.start) + expandReplacement(replacement, match, input);
+      lastEnd = match.end;
+    }
+    return result + input.slice(lastEnd);
+  });
 }
 
 /**
@@ -306,17 +677,15 @@ export function s(pattern: RegExp, replacement: string): Command {
  * processEnd('testing'); // => 'test[ing]'
  */
 export function n(start: number, end: number | undefined, cmd: Command): Command {
-  return (input: string): string => {
-    const len = input.length;
-    const startIdx = start < 0 ? Math.max(0, len + start) : Math.min(start, len);
-    const endIdx = end === undefined ? len : end < 0 ? Math.max(0, len + end) : Math.min(end, len);
+  return define({ op: 'n', start, end, cmd }, (input: string): string => {
+    const { start: startIdx, end: endIdx } = clampRange(start, end, input.length);
 
     const before = input.slice(0, startIdx);
     const selected = input.slice(startIdx, endIdx);
     const after = input.slice(endIdx);
 
     return before + cmd(selected) + after;
-  };
+  });
 }
 
 /**
@@ -339,11 +708,9 @@ export function n(start: number, end: number | undefined, cmd: Command): Command
  * const processFooter = l(-1, undefined, line => '-- ' + line);
  */
 export function l(start: number, end: number | undefined, cmd: Command): Command {
-  return (input: string): string => {
+  return define({ op: 'l', start, end, cmd }, (input: string): string => {
     const lines = input.split('\n');
-    const len = lines.length;
-    const startIdx = start < 0 ? Math.max(0, len + start) : Math.min(start, len);
-    const endIdx = end === undefined ? len : end < 0 ? Math.max(0, len + end) : Math.min(end, len);
+    const { start: startIdx, end: endIdx } = clampRange(start, end, lines.length);
 
     const before = lines.slice(0, startIdx);
     const selected = lines.slice(startIdx, endIdx);
@@ -352,6 +719,23 @@ export function l(start: number, end: number | undefined, cmd: Command): Command
     const transformedSelected = cmd(selected.join('\n')).split('\n');
 
     return [...before, ...transformedSelected, ...after].join('\n');
+  });
+}
+
+/**
+ * Resolve the range of `n` and `l` over `len` characters or lines:
+ * negative indices count from the end, and both ends are clamped.
+ *
+ * @internal Shared by edit recording and the fluent builder
+ */
+export function clampRange(
+  start: number,
+  end: number | undefined,
+  len: number,
+): { start: number; end: number } {
+  return {
+    start: start < 0 ? Math.max(0, len + start) : Math.min(start, len),
+    end: end === undefined ? len : end < 0 ? Math.max(0, len + end) : Math.min(end, len),
   };
 }
 
@@ -373,9 +757,9 @@ export function l(start: number, end: number | undefined, cmd: Command): Command
  * );
  */
 export function pipe(...commands: Command[]): Command {
-  return (input: string): string => {
+  return define({ op: 'pipe', commands }, (input: string): string => {
     return commands.reduce((acc, cmd) => cmd(acc), input);
-  };
+  });
 }
 
 /**
@@ -424,11 +808,16 @@ export function xAll(pattern: RegExp, cmd: Command): (input: string) => string[]
  * const highlightFirst = xFirst(/error/i, str => '**' + str + '**');
  */
 export function xFirst(pattern: RegExp, cmd: Command): Command {
-  return (input: string): string => {
-    const match = input.match(pattern);
+  return define({ op: 'xFirst', pattern, cmd }, (input: string): string => {
+    const selected = matcherFor(pattern);
+    if (!(selected instanceof RegExp)) {
+      for (const match of selected.scan(input)) return cmd(match.text);
+      return input;
+    }
+    const match = input.match(selected);
     if (!match) return input;
     return cmd(match[0]);
-  };
+  });
 }
 
 /**
@@ -448,10 +837,13 @@ export function xFirst(pattern: RegExp, cmd: Command): Command {
  * );
  */
 export function ifMatch(pattern: RegExp, thenCmd: Command, elseCmd: Command): Command {
-  return (input: string): string => {
-    if (pattern.test(input)) {
-      return thenCmd(input);
-    }
-    return elseCmd(input);
-  };
+  return define(
+    { op: 'ifMatch', pattern, then: thenCmd, else: elseCmd },
+    (input: string): string => {
+      if (matcherFor(pattern).test(input)) {
+        return thenCmd(input);
+      }
+      return elseCmd(input);
+    },
+  );
 }
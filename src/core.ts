@@ -26,12 +26,25 @@
  */
 
 // Core types (pure)
-export type { Command, Match, Context } from './types';
+export type {
+  Command,
+  CommandSpec,
+  MatchCommand,
+  Match,
+  Context,
+  Selector,
+  TextMatcher,
+  XAnyMode,
+  XBranch,
+} from './types';
 
 // Pike's core commands
 export {
   findMatches,
+  describeCommand,
   x,
+  xMatch,
+  xAny,
   y,
   g,
   v,
@@ -46,6 +59,17 @@ export {
   xFirst,
   ifMatch,
 } from './commands';
+export type { XAnyOptions } from './commands';
+
+// Regex cache
+export {
+  compileRegex,
+  warmRegexCache,
+  regexCacheStats,
+  clearRegexCache,
+  setRegexCacheSize,
+} from './cache';
+export type { RegexCacheStats } from './cache';
 
 // Fluent DSL
 export {
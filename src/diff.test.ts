@@ -0,0 +1,99 @@
+/**
+ * Tests for unified diff output
+ */
+
+import { describe, expect, it } from 'vitest';
+import { c, x } from './commands';
+import { diffText, preview } from './diff';
+import { sre } from './dsl';
+
+const lines = (count: number) => Array.from({ length: count }, (_, i) => `line ${i + 1}`);
+
+describe('diffText', () => {
+  it('returns nothing for identical texts', () => {
+    expect(diffText('a\nb\n', 'a\nb\n')).toEqual({ changed: false, hunks: [], text: '' });
+  });
+
+  it('formats a single change with context', () => {
+    expect(diffText('a\nb\nc\n', 'a\nB\nc\n').text).toBe(
+      '--- original\n+++ transformed\n@@ -1,3 +1,3 @@\n a\n-b\n+B\n c\n',
+    );
+  });
+
+  it('splits distant changes into separate hunks', () => {
+    const before = `${lines(20).join('\n')}\n`;
+    const after = before.replace('line 2\n', 'line two\n').replace('line 18\n', '');
+    const { hunks, text } = diffText(before, after, { fromFile: 'a/f', toFile: 'b/f' });
+    expect(hunks.map((h) => [h.oldStart, h.oldLines, h.newStart, h.newLines])).toEqual([
+      [1, 5, 1, 5],
+      [15, 6, 15, 5],
+    ]);
+    expect(text.split('\n').slice(0, 3)).toEqual(['--- a/f', '+++ b/f', '@@ -1,5 +1,5 @@']);
+    expect(text).toContain('@@ -15,6 +15,5 @@\n line 15\n line 16\n line 17\n-line 18\n line 19\n');
+  });
+
+  it('merges changes whose context overlaps', () => {
+    const before = `${lines(10).join('\n')}\n`;
+    const after = before.replace('line 3', 'L3').replace('line 8', 'L8');
+    expect(diffText(before, after).hunks).toHaveLength(1);
+    expect(diffText(before, after, { context: 1 }).hunks).toHaveLength(2);
+  });
+
+  it('handles pure insertions and deletions', () => {
+    expect(diffText('', 'a\n').text).toBe('--- original\n+++ transformed\n@@ -0,0 +1 @@\n+a\n');
+    expect(diffText('a\nb\n', 'b\n', { context: 0 }).text).toContain('@@ -1 +0,0 @@\n-a\n');
+  });
+
+  it('marks a missing newline at end of file', () => {
+    expect(diffText('a\n', 'a').text).toBe(
+      '--- original\n+++ transformed\n@@ -1 +1 @@\n-a\n+a\n\\ No newline at end of file\n',
+    );
+  });
+
+  it('finds a shortest diff of a heavily rewritten text', () => {
+    const before = lines(4000);
+    const after = before.map((line, i) => (i % 2 ? `${line}!` : line));
+    const { hunks } = diffText(before.join('\n'), after.join('\n'), { context: 0 });
+    const changed = hunks.flatMap((hunk) => hunk.lines);
+    expect(changed.filter((line) => line.type === 'remove')).toHaveLength(2000);
+    expect(changed.filter((line) => line.type === 'add')).toHaveLength(2000);
+    expect(hunks[0].lines.map((line) => line.text)).toEqual(['line 2', 'line 2!']);
+  });
+
+  it('gives a script that rebuilds both texts', () => {
+    let seed = 1;
+    const rand = () => (seed = (seed * 48271) % 2147483647) / 2147483647;
+    const text = () =>
+      Array.from({ length: Math.floor(rand() * 12) }, () => 'abc'[Math.floor(rand() * 3)]).join(
+        '\n',
+      );
+    for (let i = 0; i < 300; i++) {
+      const [before, after] = [text(), text()];
+      if (before === after) continue;
+      const { hunks } = diffText(`${before}\n`, `${after}\n`, { context: 100 });
+      const side = (type: 'add' | 'remove') =>
+        hunks.flatMap((hunk) => hunk.lines.filter((line) => line.type !== type)).map((l) => l.text);
+      expect(side('add').join('\n')).toBe(before);
+      expect(side('remove').join('\n')).toBe(after);
+    }
+  });
+});
+
+describe('preview', () => {
+  it('diffs the output of a command', () => {
+    const result = preview(x(/debug: true/, c('debug: false')), 'name: app\ndebug: true\n');
+    expect(result.output).toBe('name: app\ndebug: false\n');
+    expect(result.hunks[0].lines).toEqual([
+      { type: 'context', text: 'name: app', newline: true },
+      { type: 'remove', text: 'debug: true', newline: true },
+      { type: 'add', text: 'debug: false', newline: true },
+    ]);
+  });
+
+  it('previews fluent pipelines', () => {
+    const { text } = preview(sre().x(/\d/).c('0').build(), 'x = 1\ny = 2\n', { context: 0 });
+    expect(text).toBe(
+      '--- original\n+++ transformed\n@@ -1,2 +1,2 @@\n-x = 1\n-y = 2\n+x = 0\n+y = 0\n',
+    );
+  });
+});
@@ -0,0 +1,315 @@
+/**
+ * Diff: preview what a pipeline would change as a unified diff
+ *
+ * Line-based Myers diff, pure TypeScript with no dependencies. Output
+ * follows the unified format of `diff -u` / `git diff`, including hunk
+ * headers and "\ No newline at end of file" markers, so it can be fed to
+ * `patch` or shown in review tools.
+ *
+ * @module diff
+ */
+
+import type { Command } from './types';
+
+/**
+ * One line of a hunk
+ */
+export interface DiffLine {
+  type: 'context' | 'add' | 'remove';
+  /** Line text without its newline */
+  text: string;
+  /** False for a last line that has no trailing newline */
+  newline: boolean;
+}
+
+/**
+ * A group of changes with surrounding context lines
+ */
+export interface Hunk {
+  /** First line in the original (1-based; line before the hunk if empty) */
+  oldStart: number;
+  oldLines: number;
+  /** First line in the transformed text (1-based; line before the hunk if empty) */
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+/**
+ * Options for diff output
+ */
+export interface DiffOptions {
+  /** Context lines around each change (default 3) */
+  context?: number;
+  /** Name on the `---` header line (default 'original') */
+  fromFile?: string;
+  /** Name on the `+++` header line (default 'transformed') */
+  toFile?: string;
+}
+
+/**
+ * Result of a diff
+ */
+export interface DiffResult {
+  /** Whether the texts differ */
+  changed: boolean;
+  hunks: Hunk[];
+  /** Unified diff text (empty when unchanged) */
+  text: string;
+}
+
+/**
+ * Result of previewing a command: the diff plus the transformed text
+ */
+export interface PreviewResult extends DiffResult {
+  output: string;
+}
+
+type Op = { type: DiffLine['type']; oldIndex: number; newIndex: number };
+
+/**
+ * Split text into lines that keep their terminating newline
+ */
+function splitLines(text: string): string[] {
+  const lines = text.split('\n').map((line) => `${line}\n`);
+  const last = lines.pop()!;
+  if (last !== '\n') lines.push(last.slice(0, -1));
+  return lines;
+}
+
+/**
+ * Myers' O(ND) shortest edit script between two line arrays, in linear
+ * space: find the middle snake of the edit graph, then solve each half
+ */
+function myers(a: string[], b: string[]): Op[] {
+  const ops: Op[] = [];
+
+  const solve = (aFrom: number, aEnd: number, bFrom: number, bEnd: number): void => {
+    // Common lines at either end need no search
+    let aStart = aFrom;
+    let bStart = bFrom;
+    while (aStart < aEnd && bStart < bEnd && a[aStart] === b[bStart]) {
+      ops.push({ type: 'context', oldIndex: aStart++, newIndex: bStart++ });
+    }
+    let suffix = 0;
+    while (
+      aEnd - suffix > aStart &&
+      bEnd - suffix > bStart &&
+      a[aEnd - suffix - 1] === b[bEnd - suffix - 1]
+    ) {
+      suffix++;
+    }
+    const aMid = aEnd - suffix;
+    const bMid = bEnd - suffix;
+
+    if (aStart === aMid || bStart === bMid) {
+      for (let i = aStart; i < aMid; i++)
+        ops.push({ type: 'remove', oldIndex: i, newIndex: bStart });
+      for (let j = bStart; j < bMid; j++) ops.push({ type: 'add', oldIndex: aMid, newIndex: j });
+    } else {
+      const [i, j] = middleSnake(a, aStart, aMid, b, bStart, bMid);
+      solve(aStart, i, bStart, j);
+      solve(i, aMid, j, bMid);
+    }
+
+    for (let i = 0; i < suffix; i++) {
+      ops.push({ type: 'context', oldIndex: aMid + i, newIndex: bMid + i });
+    }
+  };
+
+  solve(0, a.length, 0, b.length);
+  return ops;
+}
+
+/**
+ * A point on a shortest edit path through a[aStart..aEnd) and
+ * b[bStart..bEnd), both non-empty and differing in their first and last
+ * lines. Searches forwards from the start and backwards from the end until
+ * the two paths overlap; only the furthest point on each diagonal is kept.
+ */
+function middleSnake(
+  a: string[],
+  aStart: number,
+  aEnd: number,
+  b: string[],
+  bStart: number,
+  bEnd: number,
+): [number, number] {
+  const n = aEnd - aStart;
+  const m = bEnd - bStart;
+  const maxD = Math.ceil((n + m) / 2);
+  const offset = maxD + 1;
+  // Furthest x reached on each diagonal k = x - y; backwards counts from the end
+  const forward = new Int32Array(2 * offset + 1).fill(-1);
+  const backward = new Int32Array(2 * offset + 1).fill(-1);
+  forward[offset + 1] = 0;
+  backward[offset + 1] = 0;
+  const delta = n - m;
+  // With an odd delta the paths meet on a forward step, otherwise on a backward one
+  const odd = (delta & 1) !== 0;
+  // Diagonals that ran off the graph are skipped from then on
+  let forwardLow = 0;
+  let forwardHigh = 0;
+  let backwardLow = 0;
+  let backwardHigh = 0;
+
+  for (let d = 0; d < maxD; d++) {
+    for (let k = -d + forwardLow; k <= d - forwardHigh; k += 2) {
+      let x =
+        k === -d || (k !== d && forward[offset + k - 1] < forward[offset + k + 1])
+          ? forward[offset + k + 1]
+          : forward[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[aStart + x] === b[bStart + y]) {
+        x++;
+        y++;
+      }
+      forward[offset + k] = x;
+      if (x > n) forwardHigh += 2;
+      else if (y > m) forwardLow += 2;
+      else if (odd) {
+        const reverse = offset + delta - k;
+        if (reverse >= 0 && reverse < backward.length && backward[reverse] !== -1) {
+          if (x >= n - backward[reverse]) return [aStart + x, bStart + y];
+        }
+      }
+    }
+
+    for (let k = -d + backwardLow; k <= d - backwardHigh; k += 2) {
+      let x =
+        k === -d || (k !== d && backward[offset + k - 1] < backward[offset + k + 1])
+          ? backward[offset + k + 1]
+          : backward[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[aEnd - x - 1] === b[bEnd - y - 1]) {
+        x++;
+        y++;
+      }
+      backward[offset + k] = x;
+      if (x > n) backwardHigh += 2;
+      else if (y > m) backwardLow += 2;
+      else if (!odd) {
+        const ahead = offset + delta - k;
+        if (ahead >= 0 && ahead < forward.length && forward[ahead] !== -1) {
+          const forwardX = forward[ahead];
+          if (forwardX >= n - x) return [aStart + forwardX, bStart + forwardX - (ahead - offset)];
+        }
+      }
+    }
+  }
+  // No overlap found: remove all of a's range, then add all of b's
+  return [aEnd, bStart];
+}
+
+/**
+ * Group an edit script into hunks with `context` lines around changes
+ */
+function toHunks(ops: Op[], a: string[], b: string[], context: number): Hunk[] {
+  const hunks: Hunk[] = [];
+  let index = 0;
+  while (index < ops.length) {
+    // Find the next change
+    while (index < ops.length && ops[index].type === 'context') index++;
+    if (index >= ops.length) break;
+
+    const start = Math.max(0, index - context);
+    let end = index;
+    // Extend while the gap between changes is at most 2 * context
+    for (;;) {
+      while (end < ops.length && ops[end].type !== 'context') end++;
+      let next = end;
+      while (next < ops.length && ops[next].type === 'context') next++;
+      if (next < ops.length && next - end <= 2 * context) {
+        end = next;
+        continue;
+      }
+      end = Math.min(ops.length, end + context);
+      break;
+    }
+
+    const slice = ops.slice(start, end);
+    const lines = slice.map((op): DiffLine => {
+      const raw = op.type === 'add' ? b[op.newIndex] : a[op.oldIndex];
+      const newline = raw.endsWith('\n');
+      return { type: op.type, text: newline ? raw.slice(0, -1) : raw, newline };
+    });
+    const oldLines = slice.filter((op) => op.type !== 'add').length;
+    const newLines = slice.filter((op) => op.type !== 'remove').length;
+    hunks.push({
+      oldStart: slice[0].oldIndex + (oldLines > 0 ? 1 : 0),
+      oldLines,
+      newStart: slice[0].newIndex + (newLines > 0 ? 1 : 0),
+      newLines,
+      lines,
+    });
+    index = end;
+  }
+  return hunks;
+}
+
+function formatRange(start: number, count: number): string {
+  return count === 1 ? `${start}` : `${start},${count}`;
+}
+
+const PREFIX: Record<DiffLine['type'], string> = { context: ' ', add: '+', remove: '-' };
+
+/**
+ * Format hunks as unified diff text
+ */
+function formatHunks(hunks: Hunk[], fromFile: string, toFile: string): string {
+  if (hunks.length === 0) return '';
+  let text = `--- ${fromFile}\n+++ ${toFile}\n`;
+  for (const hunk of hunks) {
+    text += `@@ -${formatRange(hunk.oldStart, hunk.oldLines)} +${formatRange(hunk.newStart, hunk.newLines)} @@\n`;
+    for (const line of hunk.lines) {
+      text += `${PREFIX[line.type]}${line.text}\n`;
+      if (!line.newline) text += '\\ No newline at end of file\n';
+    }
+  }
+  return text;
+}
+
+/**
+ * Compute a unified line diff between two texts.
+ *
+ * @param original - Text before the change
+ * @param transformed - Text after the change
+ * @param options - Context size and header file names
+ * @returns Hunks and the unified diff text
+ *
+ * @example
+ * diffText('a\nb\nc\n', 'a\nB\nc\n').text;
+ * // => '--- original\n+++ transformed\n@@ -1,3 +1,3 @@\n a\n-b\n+B\n c\n'
+ */
+export function diffText(
+  original: string,
+  transformed: string,
+  options: DiffOptions = {},
+): DiffResult {
+  const { context = 3, fromFile = 'original', toFile = 'transformed' } = options;
+  if (original === transformed) return { changed: false, hunks: [], text: '' };
+
+  const a = splitLines(original);
+  const b = splitLines(transformed);
+  const hunks = toHunks(myers(a, b), a, b, context);
+  return { changed: true, hunks, text: formatHunks(hunks, fromFile, toFile) };
+}
+
+/**
+ * Run a command and diff its output against the input.
+ *
+ * @param cmd - Command to preview
+ * @param input - Text to run it on
+ * @param options - Context size and header file names
+ * @returns The diff plus the transformed output
+ *
+ * @example
+ * const { text } = preview(x(/debug: true/, c('debug: false')), config, {
+ *   fromFile: 'a/app.yml',
+ *   toFile: 'b/app.yml',
+ * });
+ */
+export function preview(cmd: Command, input: string, options: DiffOptions = {}): PreviewResult {
+  const output = cmd(input);
+  return { ...diffText(input, output, options), output };
+}
@@ -13,112 +13,170 @@
  *   pipe(x(/\d+/), g(/42/), c('ANSWER'))(input)
  */
 
-import { c, d, findMatches, p, s } from './commands';
-import type { Command, Match } from './types';
+import type { AsyncCommand } from './async';
+import { compileRegex } from './cache';
+import {
+  alternation,
+  c,
+  d,
+  findMatches,
+  g,
+  groupsByName,
+  l,
+  n,
+  p,
+  pipe,
+  s,
+  v,
+  x,
+  y,
+} from './commands';
+import { advanceIndex } from './source';
+import type { Command, Match, Selector } from './types';
+
+/**
+ * What opened a scope: a selection (x/y), a guard (g/v) or a range (n/l)
+ *
+ * @internal Read by the async builder
+ */
+export type Opener =
+  | { op: 'x' | 'y' | 'g' | 'v'; pattern: Selector }
+  | { op: 'n' | 'l'; start: number; end?: number };
+
+/**
+ * A scope and the steps it runs on each selected region
+ *
+ * @internal Read by the async builder
+ */
+export interface Block {
+  opener: Opener;
+  steps: Step[];
+}
+
+/**
+ * A pipeline step: a command or a scope. Only `AsyncSRE` adds async commands.
+ *
+ * @internal Read by the async builder
+ */
+export type Step = Command | AsyncCommand | Block;
 
 /**
  * Fluent builder for structural regex pipelines
+ *
+ * `x()`, `y()`, `n()` and `l()` open a scope: the commands that follow run
+ * on each selected region until the matching `end()` (or `value()`) closes it.
+ * Text outside the selection is always kept.
+ * `g()` and `v()` gate the rest of the enclosing scope.
  */
 export class SRE {
-  private commands: Command[] = [];
-  private input: string;
+  protected readonly steps: Step[] = [];
+  protected readonly scopes: Block[] = [];
+  protected readonly input: string;
 
-  constructor(input: string) {
+  constructor(input = '') {
     this.input = input;
   }
 
   /**
-   * x: Extract matches, apply subsequent commands to each
+   * x: Extract matches, apply subsequent commands to each (until `end()`)
    */
-  x(pattern: RegExp | string): SRE {
-    const re = typeof pattern === 'string' ? new RegExp(pattern, 'g') : pattern;
-    // Capture the rest of the chain and apply it to matches
-    return this.addStructural('x', re);
+  x(pattern: Selector | string): this {
+    const re = typeof pattern === 'string' ? compileRegex(pattern, 'g') : pattern;
+    return this.open({ op: 'x', pattern: re });
   }
 
   /**
-   * y: Extract non-matches (complement of x)
+   * y: Extract non-matches (complement of x), apply subsequent commands to each
    */
-  y(pattern: RegExp | string): SRE {
-    const re = typeof pattern === 'string' ? new RegExp(pattern, 'g') : pattern;
-    return this.addStructural('y', re);
+  y(pattern: Selector | string): this {
+    const re = typeof pattern === 'string' ? compileRegex(pattern, 'g') : pattern;
+    return this.open({ op: 'y', pattern: re });
   }
 
   /**
-   * g: Guard - continue only if pattern matches
+   * end: Close the innermost x/y/n/l scope
    */
-  g(pattern: RegExp | string): SRE {
-    const re = typeof pattern === 'string' ? new RegExp(pattern) : pattern;
-    this.commands.push((input) => (re.test(input) ? input : ''));
+  end(): this {
+    if (this.scopes.every(isGuard)) {
+      throw new Error('end() called without an open x, y, n or l scope');
+    }
+    // Guard scopes (g/v) close together with their enclosing scope
+    let scope: Block;
+    do {
+      scope = this.scopes.pop()!;
+      this.current().push(scope);
+    } while (isGuard(scope));
     return this;
   }
 
   /**
-   * v: Veto - continue only if pattern does NOT match
+   * g: Guard - run the rest of the scope only if pattern matches
    */
-  v(pattern: RegExp | string): SRE {
-    const re = typeof pattern === 'string' ? new RegExp(pattern) : pattern;
-    this.commands.push((input) => (!re.test(input) ? input : ''));
-    return this;
+  g(pattern: Selector | string): this {
+    const re = typeof pattern === 'string' ? compileRegex(pattern) : pattern;
+    return this.open({ op: 'g', pattern: re });
+  }
+
+  /**
+   * v: Veto - run the rest of the scope only if pattern does NOT match
+   */
+  v(pattern: Selector | string): this {
+    const re = typeof pattern === 'string' ? compileRegex(pattern) : pattern;
+    return this.open({ op: 'v', pattern: re });
   }
 
   /**
    * s: Substitute matches with replacement
    */
-  s(pattern: RegExp | string, replacement: string): SRE {
-    const re = typeof pattern === 'string' ? new RegExp(pattern, 'g') : pattern;
-    this.commands.push(s(re, replacement));
+  s(pattern: RegExp | string, replacement: string): this {
+    const re = typeof pattern === 'string' ? compileRegex(pattern, 'g') : pattern;
+    this.current().push(s(re, replacement));
     return this;
   }
 
   /**
    * c: Change - replace entire input with constant
    */
-  c(replacement: string): SRE {
-    this.commands.push(c(replacement));
+  c(replacement: string): this {
+    this.current().push(c(replacement));
     return this;
   }
 
   /**
    * d: Delete - replace with empty string
    */
-  d(): SRE {
-    this.commands.push(d());
+  d(): this {
+    this.current().push(d());
     return this;
   }
 
   /**
    * p: Print - identity (useful for debugging or as terminal)
    */
-  p(): SRE {
-    this.commands.push(p());
+  p(): this {
+    this.current().push(p());
     return this;
   }
 
   /**
-   * n: Select character range [start:end]
+   * n: Select character range [start:end], apply subsequent commands to it
    */
-  n(start: number, end?: number): SRE {
-    // Store for later - next command applies to this range
-    const s = start;
-    const e = end;
-    return this.addRange('n', s, e);
+  n(start: number, end?: number): this {
+    return this.open({ op: 'n', start, end });
   }
 
   /**
-   * l: Select line range [start:end]
+   * l: Select line range [start:end], apply subsequent commands to it
    */
-  l(start: number, end?: number): SRE {
-    const s = start;
-    const e = end;
-    return this.addRange('l', s, e);
+  l(start: number, end?: number): this {
+    return this.open({ op: 'l', start, end });
   }
 
   /**
    * Apply a custom command function
    */
-  apply(cmd: Command): SRE {
-    this.commands.push(cmd);
+  apply(cmd: Command): this {
+    this.current().push(cmd);
     return this;
   }
 
@@ -126,14 +184,14 @@ export class SRE {
    * Execute the pipeline and return the result
    */
   value(): string {
-    return this.commands.reduce((acc, cmd) => cmd(acc), this.input);
+    return this.build()(this.input);
   }
 
   /**
    * Execute and return all x-extracted matches
    */
   matches(pattern: RegExp | string): string[] {
-    const re = typeof pattern === 'string' ? new RegExp(pattern, 'g') : pattern;
+    const re = typeof pattern === 'string' ? compileRegex(pattern, 'g') : pattern;
     const current = this.value();
     return findMatches(re, current).map((m) => m.text);
   }
@@ -142,7 +200,7 @@ export class SRE {
    * Execute and return match objects with positions
    */
   matchDetails(pattern: RegExp | string): Match[] {
-    const re = typeof pattern === 'string' ? new RegExp(pattern, 'g') : pattern;
+    const re = typeof pattern === 'string' ? compileRegex(pattern, 'g') : pattern;
     const current = this.value();
     return findMatches(re, current);
   }
@@ -151,7 +209,7 @@ export class SRE {
    * Split by pattern (like y but returns array)
    */
   split(pattern: RegExp | string): string[] {
-    const re = typeof pattern === 'string' ? new RegExp(pattern, 'g') : pattern;
+    const re = typeof pattern === 'string' ? compileRegex(pattern, 'g') : pattern;
     const current = this.value();
     return current.split(re);
   }
@@ -160,60 +218,79 @@ export class SRE {
    * Test if current value matches pattern
    */
   test(pattern: RegExp | string): boolean {
-    const re = typeof pattern === 'string' ? new RegExp(pattern) : pattern;
+    const re = typeof pattern === 'string' ? compileRegex(pattern) : pattern;
     return re.test(this.value());
   }
 
-  // Internal: add structural command (x or y)
-  private addStructural(type: 'x' | 'y', pattern: RegExp): SRE {
-    // For now, simple version - apply to all matches
-    this.commands.push((input) => {
-      const matches = findMatches(pattern, input);
-      if (matches.length === 0) return type === 'x' ? input : input;
-
-      let result = '';
-      let lastEnd = 0;
-
-      for (const match of matches) {
-        if (type === 'x') {
-          result += input.slice(lastEnd, match.start);
-          result += match.text; // x keeps matches, further ops transform them
-        } else {
-          result += input.slice(lastEnd, match.start);
-          result += match.text;
-        }
-        lastEnd = match.end;
-      }
-      result += input.slice(lastEnd);
-      return result;
-    });
-    return this;
+  /**
+   * Compose the pipeline into a command, implicitly closing open scopes.
+   * Tools from the subpath entries take the result, e.g.
+   * `recordEdits(sre().x(/\\d/).c('N').build(), input)`.
+   */
+  build(): Command {
+    return buildCommand(this.pipeline());
   }
 
-  // Internal: add range command (n or l)
-  private addRange(type: 'n' | 'l', start: number, end?: number): SRE {
-    // Range commands are deferred - they modify how the next command applies
-    // For simplicity, we'll implement as immediate selection
-    if (type === 'n') {
-      this.commands.push((input) => {
-        const len = input.length;
-        const s = start < 0 ? Math.max(0, len + start) : Math.min(start, len);
-        const e = end === undefined ? len : end < 0 ? Math.max(0, len + end) : Math.min(end, len);
-        return input.slice(s, e);
-      });
-    } else {
-      this.commands.push((input) => {
-        const lines = input.split('\n');
-        const len = lines.length;
-        const s = start < 0 ? Math.max(0, len + start) : Math.min(start, len);
-        const e = end === undefined ? len : end < 0 ? Math.max(0, len + end) : Math.min(end, len);
-        return lines.slice(s, e).join('\n');
-      });
+  // Internal: the steps of the pipeline, implicitly closing open scopes
+  protected pipeline(): Step[] {
+    let closed: Step[] = [];
+    for (let i = this.scopes.length - 1; i >= 0; i--) {
+      const scope = this.scopes[i];
+      closed = [{ opener: scope.opener, steps: [...scope.steps, ...closed] }];
     }
+    return [...this.steps, ...closed];
+  }
+
+  // Internal: step list that new commands are added to
+  protected current(): Step[] {
+    return this.scopes.length > 0 ? this.scopes[this.scopes.length - 1].steps : this.steps;
+  }
+
+  // Internal: open a scope that runs the steps added until end()
+  private open(opener: Opener): this {
+    this.scopes.push({ opener, steps: [] });
     return this;
   }
 }
 
+/**
+ * Whether a scope is a guard, which closes with its enclosing scope
+ */
+function isGuard(scope: Block): boolean {
+  return scope.opener.op === 'g' || scope.opener.op === 'v';
+}
+
+/**
+ * Compose steps into a single command
+ */
+function buildCommand(steps: Step[]): Command {
+  // SRE only holds plain commands; AsyncSRE checks before building
+  const commands = steps.map((step) =>
+    typeof step === 'function' ? (step as Command) : wrap(step.opener, buildCommand(step.steps)),
+  );
+  return commands.length === 1 ? commands[0] : pipe(...commands);
+}
+
+/**
+ * The command for a scope running `body`
+ */
+function wrap(opener: Opener, body: Command): Command {
+  switch (opener.op) {
+    case 'x':
+      return x(opener.pattern, body);
+    case 'y':
+      return y(opener.pattern, body);
+    case 'g':
+      return g(opener.pattern, body);
+    case 'v':
+      return v(opener.pattern, body);
+    case 'n':
+      return n(opener.start, opener.end, body);
+    case 'l':
+      return l(opener.start, opener.end, body);
+  }
+}
+
 /**
  * Create a new SRE pipeline
  *
@@ -222,8 +299,11 @@ export class SRE {
  *   .x(/\d+/)          // focus on numbers
  *   .s(/\d+/, 'NUM')   // replace with NUM
  *   .value()           // => 'hello NUM world NUM'
+ *
+ * // Without input, build() returns the pipeline as a command
+ * sre().x(/\d+/).c('N').build()
  */
-export function sre(input: string): SRE {
+export function sre(input = ''): SRE {
   return new SRE(input);
 }
 
@@ -240,12 +320,13 @@ export interface Token {
   type: 'match' | 'between';
   text: string;
   groups?: string[];
+  namedGroups?: Record<string, string>;
   start: number;
   end: number;
 }
 
 export function tokenize(input: string, pattern: RegExp | string): Token[] {
-  const re = typeof pattern === 'string' ? new RegExp(pattern, 'g') : pattern;
+  const re = typeof pattern === 'string' ? compileRegex(pattern, 'g') : pattern;
   const matches = findMatches(re, input);
   const tokens: Token[] = [];
   let lastEnd = 0;
@@ -263,6 +344,7 @@ export function tokenize(input: string, pattern: RegExp | string): Token[] {
       type: 'match',
       text: match.text,
       groups: match.groups,
+      ...(match.namedGroups && { namedGroups: match.namedGroups }),
       start: match.start,
       end: match.end,
     });
@@ -285,7 +367,7 @@ export function tokenize(input: string, pattern: RegExp | string): Token[] {
  * Extract all matches from text (shorthand for xAll)
  */
 export function extract(input: string, pattern: RegExp | string): string[] {
-  const re = typeof pattern === 'string' ? new RegExp(pattern, 'g') : pattern;
+  const re = typeof pattern === 'string' ? compileRegex(pattern, 'g') : pattern;
   return findMatches(re, input).map((m) => m.text);
 }
 
@@ -293,7 +375,7 @@ export function extract(input: string, pattern: RegExp | string): string[] {
  * Extract with capture groups
  */
 export function extractGroups(input: string, pattern: RegExp | string): string[][] {
-  const re = typeof pattern === 'string' ? new RegExp(pattern, 'g') : pattern;
+  const re = typeof pattern === 'string' ? compileRegex(pattern, 'g') : pattern;
   return findMatches(re, input).map((m) => m.groups);
 }
 
@@ -305,7 +387,7 @@ export function transform(
   pattern: RegExp | string,
   fn: (match: string, groups: string[]) => string,
 ): string {
-  const re = typeof pattern === 'string' ? new RegExp(pattern, 'g') : pattern;
+  const re = typeof pattern === 'string' ? compileRegex(pattern, 'g') : pattern;
   const matches = findMatches(re, input);
   if (matches.length === 0) return input;
 
@@ -343,44 +425,21 @@ export interface LexToken {
   type: string;
   value: string;
   groups: string[];
+  namedGroups?: Record<string, string>;
   start: number;
   end: number;
 }
 
-/**
- * Count capturing groups in a regex pattern
- */
-function countGroups(pattern: string): number {
-  // Count unescaped '(' that aren't followed by '?' (non-capturing groups)
-  let count = 0;
-  let i = 0;
-  while (i < pattern.length) {
-    if (pattern[i] === '\\') {
-      i += 2; // Skip escaped character
-      continue;
-    }
-    if (pattern[i] === '(') {
-      // Check if it's a non-capturing group (?:...) or lookahead/behind
-      if (pattern[i + 1] !== '?') {
-        count++;
-      }
-    }
-    i++;
-  }
-  return count;
-}
-
 export function createLexer(defs: TokenDef[]): (input: string) => LexToken[] {
-  // Calculate group offsets for each pattern
-  const groupOffsets: number[] = [];
-  let offset = 1; // Start at 1 because match[0] is full match
-  for (const def of defs) {
-    groupOffsets.push(offset);
-    offset += 1 + countGroups(def.pattern.source); // +1 for the wrapping group
-  }
-
-  // Combine all patterns into one
-  const combined = new RegExp(defs.map((d) => `(${d.pattern.source})`).join('|'), 'g');
+  // Combine all patterns into one; groupOffsets[i] is the group wrapping pattern i
+  const {
+    regex: combined,
+    offsets: groupOffsets,
+    names,
+  } = alternation(
+    defs.map((def) => def.pattern),
+    'g',
+  );
 
   return (input: string): LexToken[] => {
     const tokens: LexToken[] = [];
@@ -404,10 +463,12 @@ export function createLexer(defs: TokenDef[]): (input: string) => LexToken[] {
           }
 
           if (!defs[i].skip) {
+            const named = groupsByName(names[i], match.slice(groupIndex));
             tokens.push({
               type: defs[i].name,
               value: match[0],
               groups: [...match],
+              ...(named && { namedGroups: named }),
               start: match.index,
               end: match.index + match[0].length,
             });
@@ -419,7 +480,7 @@ export function createLexer(defs: TokenDef[]): (input: string) => LexToken[] {
 
       // Prevent infinite loop
       if (match[0].length === 0) {
-        combined.lastIndex++;
+        combined.lastIndex = advanceIndex(input, combined.lastIndex, combined.unicode);
       }
     }
 
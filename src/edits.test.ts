@@ -0,0 +1,122 @@
+/**
+ * Tests for edit recording
+ */
+
+import { describe, expect, it } from 'vitest';
+import { at } from './address';
+import { c, d, g, ifMatch, l, n, p, pipe, s, v, x, xAny, xFirst, xMatch, y } from './commands';
+import { EditConflictError, applyEdits, checkEdits, recordEdits } from './edits';
+import type { Command } from './types';
+
+const input = 'alpha 12 beta 345\ngamma 6 delta\nERROR 78 epsilon';
+
+const pipelines: Record<string, Command> = {
+  'x c': x(/\d+/, c('N')),
+  'y upper': y(/\d+/, (t) => t.toUpperCase()),
+  's backrefs': s(/(\w+) (\d+)/, '$2:$1'),
+  'nested x': x(/\w+ \d+/, x(/\d/, c('#'))),
+  'g/v': x(/^.*$/m, pipe(g(/ERROR/, s(/\d/, '*')), v(/a/, d()))),
+  'n and l': pipe(
+    n(2, 8, (t) => t.toUpperCase()),
+    l(1, 2, c('LINE')),
+  ),
+  address: at('/beta/;/delta/', x(/a/, c('A'))),
+  xMatch: xMatch(/\d+/, (m, i) => `${m.text}@${i}`),
+  xFirst: xFirst(/\d+/, c('first')),
+  xAny: xAny([
+    { pattern: /[a-z]+/, cmd: x(/a/, c('4')) },
+    { pattern: /alpha 1/, cmd: c('A1') },
+    { pattern: /\d+/, cmd: d() },
+  ]),
+  ifMatch: ifMatch(/gamma/, x(/a/, d()), c('none')),
+  'overlapping pipe': pipe(x(/\d+/, c('NUM')), s(/NUM 42|a N/, '_'), x(/U/, c('uu'))),
+  custom: pipe(
+    x(/\d+/, (t) => String(Number(t) * 2)),
+    (t) => t.replace('beta', 'B'),
+  ),
+  'empty l range': l(5, 5, p()),
+  'inverted n range': pipe(n(9, 2, c('-')), s(/a/, 'A')),
+  'inverted l range': pipe(l(2, 1, c('LINE')), x(/\d+/, c('#'))),
+  'inverted ranges in x': x(/\w+ \d+/, pipe(n(2, 1, c('-')), l(1, 0, p()))),
+};
+
+describe('recordEdits', () => {
+  for (const [name, cmd] of Object.entries(pipelines)) {
+    it(`reproduces the output of ${name}`, () => {
+      const { output, edits } = recordEdits(cmd, input);
+      expect(output).toBe(cmd(input));
+      expect(() => checkEdits(edits)).not.toThrow();
+      expect(applyEdits(input, edits)).toBe(output);
+    });
+  }
+
+  it('records one edit per match against the original offsets', () => {
+    expect(recordEdits(x(/\d+/, c('N')), 'a1b22').edits).toEqual([
+      { start: 1, end: 2, replacement: 'N', producedBy: 'c' },
+      { start: 3, end: 5, replacement: 'N', producedBy: 'c' },
+    ]);
+  });
+
+  it('labels edits with the command that produced them', () => {
+    const double = (t: string) => String(Number(t) * 2);
+    const { edits } = recordEdits(pipe(s(/a/, 'A'), x(/\d/, double)), 'a1');
+    expect(edits.map((e) => e.producedBy)).toEqual(['s/a/', 'double']);
+  });
+
+  it('maps later pipe steps onto the original text', () => {
+    const { edits } = recordEdits(pipe(x(/b/, c('BBB')), x(/z/, c('Z'))), 'abz');
+    expect(edits).toEqual([
+      { start: 1, end: 2, replacement: 'BBB', producedBy: 'c' },
+      { start: 2, end: 3, replacement: 'Z', producedBy: 'c' },
+    ]);
+  });
+
+  it('merges steps that rewrite earlier replacements', () => {
+    const { edits } = recordEdits(pipe(x(/b/, c('xyz')), s(/y/, '-')), 'abc');
+    expect(edits).toEqual([{ start: 1, end: 2, replacement: 'x-z', producedBy: 'c+s/y/' }]);
+  });
+
+  it('stays consistent on random inputs', () => {
+    let seed = 7;
+    const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+    const steps = [
+      x(/a+/, c('')),
+      x(/b/, c('bb')),
+      s(/ab|ba/, '$&-'),
+      y(/\d/, (t) => t.slice(1)),
+      x(/\d+/, d()),
+      s(/^/, '>'),
+      x(/-b?/, c('1')),
+      n(5, 2, c('n')),
+      x(/b\d/, l(1, 0, p())),
+    ];
+    for (let round = 0; round < 200; round++) {
+      const text = Array.from({ length: 12 }, () => 'ab1-'[Math.floor(random() * 4)]).join('');
+      const cmd = pipe(
+        ...Array.from({ length: 4 }, () => steps[Math.floor(random() * steps.length)]),
+      );
+      const { output, edits } = recordEdits(cmd, text);
+      expect(output).toBe(cmd(text));
+      expect(applyEdits(text, edits)).toBe(output);
+    }
+  });
+
+  it('records nothing for identity pipelines', () => {
+    expect(recordEdits(pipe(p(), x(/a/, p())), 'aaa').edits).toEqual([]);
+  });
+});
+
+describe('applyEdits', () => {
+  it('rejects overlapping and out-of-order edits', () => {
+    const a = { start: 0, end: 3, replacement: 'x', producedBy: 'a' };
+    const b = { start: 2, end: 4, replacement: 'y', producedBy: 'b' };
+    expect(() => applyEdits('abcdef', [a, b])).toThrow(EditConflictError);
+    expect(() => applyEdits('abcdef', [b, { ...a, end: 1 }])).toThrow(/not in sequence/);
+  });
+
+  it('rejects edits outside the text', () => {
+    expect(() =>
+      applyEdits('ab', [{ start: 1, end: 5, replacement: '', producedBy: 'd' }]),
+    ).toThrow(RangeError);
+  });
+});
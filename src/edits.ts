@@ -0,0 +1,361 @@
+/**
+ * Edits: run a pipeline as a list of changes against the original text
+ *
+ * Commands return new strings, which hides what changed. Sam instead
+ * records every change as (range, replacement) against the unmodified
+ * file and applies them in one pass, refusing changes that are out of
+ * sequence. `recordEdits` does the same for pipelines built from the
+ * primitives in `commands.ts`:
+ *
+ * - x, xAny, y, n, l and addresses narrow edits to the regions they select
+ * - s records one edit per substituted match
+ * - later pipe steps are mapped back onto the original text, merging
+ *   with earlier edits they overlap
+ * - custom functions (and c, d) replace the whole region they are given
+ *
+ * @module edits
+ */
+
+import { resolveAddress } from './address';
+import {
+  MultiMatcher,
+  clampRange,
+  describeCommand,
+  expandReplacement,
+  findMatches,
+  matcherFor,
+} from './commands';
+import type { Command, Match } from './types';
+
+/**
+ * A change to the original text: replace [start, end) with `replacement`
+ */
+export interface Edit {
+  /** Start offset in the original text */
+  start: number;
+  /** End offset (exclusive) in the original text */
+  end: number;
+  /** Text that replaces the range */
+  replacement: string;
+  /** Command that produced the change, e.g. `s/cat/`, `c` or a function name */
+  producedBy: string;
+}
+
+/**
+ * Result of running a command in edit-recording mode
+ */
+export interface EditResult {
+  /** Output of the command (same as calling it directly) */
+  output: string;
+  /** Changes in ascending, non-overlapping order */
+  edits: Edit[];
+}
+
+/**
+ * Error raised when edits overlap or are out of order (sam's "changes not in sequence")
+ */
+export class EditConflictError extends Error {
+  readonly edit: Edit;
+  readonly previous: Edit;
+
+  constructor(edit: Edit, previous: Edit) {
+    super(
+      `Changes not in sequence: [${edit.start}, ${edit.end}) from ${edit.producedBy} ` +
+        `overlaps [${previous.start}, ${previous.end}) from ${previous.producedBy}`,
+    );
+    this.name = 'EditConflictError';
+    this.edit = edit;
+    this.previous = previous;
+  }
+}
+
+/**
+ * Check that edits are in ascending order and do not overlap.
+ *
+ * @throws {EditConflictError} On the first edit that breaks the sequence
+ */
+export function checkEdits(edits: readonly Edit[]): void {
+  for (let i = 1; i < edits.length; i++) {
+    if (edits[i].start < edits[i - 1].end || edits[i].start < edits[i - 1].start) {
+      throw new EditConflictError(edits[i], edits[i - 1]);
+    }
+  }
+}
+
+/**
+ * Apply a list of edits to the text they were recorded against.
+ *
+ * @param text - The original text
+ * @param edits - Edits in ascending, non-overlapping order
+ * @returns The edited text
+ * @throws {EditConflictError} When the edits are out of sequence
+ * @throws {RangeError} When an edit lies outside the text
+ *
+ * @example
+ * applyEdits('hello world', [{ start: 0, end: 5, replacement: 'bye', producedBy: 'c' }]);
+ * // => 'bye world'
+ */
+export function applyEdits(text: string, edits: readonly Edit[]): string {
+  checkEdits(edits);
+  let result = '';
+  let lastEnd = 0;
+  for (const edit of edits) {
+    if (edit.start < 0 || edit.end > text.length || edit.end < edit.start) {
+      throw new RangeError(`Edit [${edit.start}, ${edit.end}) is outside the text`);
+    }
+    result += text.slice(lastEnd, edit.start) + edit.replacement;
+    lastEnd = edit.end;
+  }
+  return result + text.slice(lastEnd);
+}
+
+/**
+ * Run a command and record its changes as edits against the input.
+ *
+ * @param cmd - Command to run (typically a pipeline of primitives)
+ * @param input - The original text
+ * @returns The output and the ordered list of edits that produce it
+ * @throws {EditConflictError} If the recorded edits are out of sequence
+ *
+ * @example
+ * const { output, edits } = recordEdits(x(/\d+/, c('N')), 'a1b22');
+ * // output => 'aNbN'
+ * // edits  => [
+ * //   { start: 1, end: 2, replacement: 'N', producedBy: 'c' },
+ * //   { start: 3, end: 5, replacement: 'N', producedBy: 'c' }
+ * // ]
+ */
+export function recordEdits(cmd: Command, input: string): EditResult {
+  const result = run(cmd, input);
+  checkEdits(result.edits);
+  return result;
+}
+
+// ============================================================
+// Evaluation
+// ============================================================
+
+function run(cmd: Command, input: string): EditResult {
+  const spec = describeCommand(cmd);
+  if (!spec) return replaceWhole(input, cmd(input), cmd.name || 'command');
+
+  switch (spec.op) {
+    case 'p':
+      return { output: input, edits: [] };
+    case 'd':
+    case 'c':
+      return replaceWhole(input, cmd(input), spec.op);
+    case 'x':
+      return runRegions(input, findMatches(spec.pattern, input), spec.cmd);
+    case 'y':
+      return runRegions(input, gaps(input, findMatches(spec.pattern, input)), spec.cmd);
+    case 'xAny': {
+      const { branches } = spec;
+      const matcher = new MultiMatcher(
+        branches.map((branch) => branch.pattern),
+        spec.mode,
+      );
+      return assemble(
+        input,
+        [...matcher.scan(input)].map((m) => ({
+          region: m,
+          result: run(branches[m.branch].cmd, m.text),
+        })),
+      );
+    }
+    case 'xMatch': {
+      const label = `xMatch/${spec.pattern.source}/`;
+      const matches = findMatches(spec.pattern, input);
+      const fn = spec.fn;
+      return assemble(
+        input,
+        matches.map((m, index) => ({
+          region: m,
+          result: replaceWhole(m.text, fn(m, index), label),
+        })),
+      );
+    }
+    case 's': {
+      const label = `s/${spec.pattern.source}/`;
+      const edits: Edit[] = [];
+      for (const m of findMatches(spec.pattern, input)) {
+        const replacement = expandReplacement(spec.replacement, m, input);
+        if (replacement !== m.text) {
+          edits.push({ start: m.start, end: m.end, replacement, producedBy: label });
+        }
+      }
+      return { output: applyEdits(input, edits), edits };
+    }
+    case 'g':
+    case 'v':
+      return matcherFor(spec.pattern).test(input) === (spec.op === 'g')
+        ? run(spec.cmd, input)
+        : { output: input, edits: [] };
+    case 'ifMatch':
+      return run(matcherFor(spec.pattern).test(input) ? spec.then : spec.else, input);
+    case 'xFirst': {
+      const [region] = findMatches(spec.pattern, input);
+      if (!region) return { output: input, edits: [] };
+      const label = `xFirst/${spec.pattern.source}/`;
+      const inner = shift(run(spec.cmd, region.text).edits, region.start);
+      const edits = [
+        ...(region.start > 0
+          ? [{ start: 0, end: region.start, replacement: '', producedBy: label }]
+          : []),
+        ...inner,
+        ...(region.end < input.length
+          ? [{ start: region.end, end: input.length, replacement: '', producedBy: label }]
+          : []),
+      ];
+      return { output: applyEdits(input, edits), edits };
+    }
+    case 'n': {
+      const { start, end } = clampRange(spec.start, spec.end, input.length);
+      // An inverted range repeats the text between its ends; treat it as an opaque change
+      if (start > end) return replaceWhole(input, cmd(input), 'n');
+      return runRegions(input, [{ start, end }], spec.cmd);
+    }
+    case 'l': {
+      const lines = input.split('\n');
+      const { start, end } = clampRange(spec.start, spec.end, lines.length);
+      // An empty line selection inserts a line and an inverted one repeats
+      // lines; treat both as an opaque change
+      if (start >= end) return replaceWhole(input, cmd(input), 'l');
+      const offset = (line: number) =>
+        lines.slice(0, line).reduce((sum, text) => sum + text.length + 1, 0);
+      return runRegions(input, [{ start: offset(start), end: offset(end) - 1 }], spec.cmd);
+    }
+    case 'at':
+      return runRegions(input, [resolveAddress(spec.address, input)], spec.cmd);
+    case 'pipe':
+      return spec.commands.reduce<EditResult>(
+        (acc, step) => {
+          const next = run(step, acc.output);
+          return { output: next.output, edits: compose(acc.edits, next.edits, next.output) };
+        },
+        { output: input, edits: [] },
+      );
+  }
+}
+
+type Region = Pick<Match, 'start' | 'end'>;
+
+// Run cmd on each region, keeping the text between regions
+function runRegions(input: string, regions: Region[], cmd: Command): EditResult {
+  return assemble(
+    input,
+    regions.map((region) => ({ region, result: run(cmd, input.slice(region.start, region.end)) })),
+  );
+}
+
+function assemble(input: string, parts: { region: Region; result: EditResult }[]): EditResult {
+  let output = '';
+  let lastEnd = 0;
+  const edits: Edit[] = [];
+  for (const { region, result } of parts) {
+    output += input.slice(lastEnd, region.start) + result.output;
+    edits.push(...shift(result.edits, region.start));
+    lastEnd = region.end;
+  }
+  return { output: output + input.slice(lastEnd), edits };
+}
+
+function replaceWhole(input: string, output: string, producedBy: string): EditResult {
+  if (output === input) return { output, edits: [] };
+  return { output, edits: [{ start: 0, end: input.length, replacement: output, producedBy }] };
+}
+
+function shift(edits: Edit[], offset: number): Edit[] {
+  if (offset === 0) return edits;
+  return edits.map((e) => ({ ...e, start: e.start + offset, end: e.end + offset }));
+}
+
+// Complement of matches, as y sees it
+function gaps(input: string, matches: Match[]): Region[] {
+  if (matches.length === 0) return [{ start: 0, end: input.length }];
+  const regions: Region[] = [];
+  let lastEnd = 0;
+  for (const match of matches) {
+    if (match.start > lastEnd) regions.push({ start: lastEnd, end: match.start });
+    lastEnd = match.end;
+  }
+  if (lastEnd < input.length) regions.push({ start: lastEnd, end: input.length });
+  return regions;
+}
+
+// ============================================================
+// Composition
+// ============================================================
+
+/**
+ * Compose edits `first` (original -> mid) with `second` (mid -> output)
+ * into edits against the original. Edits of `second` that overlap edits
+ * of `first` are merged into a single change.
+ */
+function compose(first: Edit[], second: Edit[], output: string): Edit[] {
+  if (first.length === 0) return second;
+  if (second.length === 0) return first;
+
+  // Both sides as intervals in mid coordinates; delta is the length change
+  type Interval = { start: number; end: number; delta: number; edit: Edit; fromFirst: boolean };
+  const intervals: Interval[] = [];
+  let shiftBy = 0;
+  for (const edit of first) {
+    const start = edit.start + shiftBy;
+    const end = start + edit.replacement.length;
+    const delta = edit.replacement.length - (edit.end - edit.start);
+    intervals.push({ start, end, delta, edit, fromFirst: true });
+    shiftBy += delta;
+  }
+  for (const edit of second) {
+    const delta = edit.replacement.length - (edit.end - edit.start);
+    intervals.push({ start: edit.start, end: edit.end, delta, edit, fromFirst: false });
+  }
+  // Insertions sort before edits starting at the same position, as their text comes first
+  intervals.sort((a, b) => a.start - b.start || Number(a.end > a.start) - Number(b.end > b.start));
+
+  // Group overlapping intervals (an insertion overlaps an edit it falls strictly inside)
+  const clusters: Interval[][] = [];
+  let clusterEnd = Number.NEGATIVE_INFINITY;
+  for (const iv of intervals) {
+    if (iv.start < clusterEnd) {
+      clusters[clusters.length - 1].push(iv);
+      clusterEnd = Math.max(clusterEnd, iv.end);
+    } else {
+      clusters.push([iv]);
+      clusterEnd = iv.end;
+    }
+  }
+
+  // Positions in a cluster map by the accumulated length changes of the clusters before it
+  const edits: Edit[] = [];
+  let firstDelta = 0;
+  let secondDelta = 0;
+  for (const cluster of clusters) {
+    const fromFirst = cluster.filter((iv) => iv.fromFirst);
+    const fromSecond = cluster.filter((iv) => !iv.fromFirst);
+    const sumFirst = fromFirst.reduce((sum, iv) => sum + iv.delta, 0);
+    const sumSecond = fromSecond.reduce((sum, iv) => sum + iv.delta, 0);
+
+    if (fromSecond.length === 0) {
+      edits.push(...fromFirst.map((iv) => iv.edit));
+    } else if (fromFirst.length === 0) {
+      for (const iv of fromSecond) {
+        edits.push({ ...iv.edit, start: iv.start - firstDelta, end: iv.end - firstDelta });
+      }
+    } else {
+      // Merge: the original range covered by the cluster becomes its final text
+      const start = cluster[0].start;
+      const end = Math.max(...cluster.map((iv) => iv.end));
+      edits.push({
+        start: start - firstDelta,
+        end: end - firstDelta - sumFirst,
+        replacement: output.slice(start + secondDelta, end + secondDelta + sumSecond),
+        producedBy: [...new Set(cluster.map((iv) => iv.edit.producedBy))].join('+'),
+      });
+    }
+    firstDelta += sumFirst;
+    secondDelta += sumSecond;
+  }
+  return edits;
+}
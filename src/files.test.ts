@@ -0,0 +1,117 @@
+/**
+ * Tests for running commands over file sets
+ */
+
+import { describe, expect, it } from 'vitest';
+import { c, s, x } from './commands';
+import { FileCommandError, Xfiles, Yfiles } from './files';
+import type { FileSystem } from './files';
+import { compileGlob } from './glob';
+
+const project = () =>
+  new Map([
+    ['src/index.ts', 'var a = 1;\n'],
+    ['src/util/math.ts', 'const b = 2;\n'],
+    ['src/util/old.ts', 'var c = 3; var d = 4;\n'],
+    ['src/index.test.ts', 'var t = 0;\n'],
+    ['README.md', 'Use var wisely.\n'],
+  ]);
+
+const letify = x(/\bvar\b/, c('let'));
+
+// An in-memory file system that records its writes
+function memoryFs(files: Map<string, string>): FileSystem & { writes: string[] } {
+  const writes: string[] = [];
+  return {
+    writes,
+    paths: () => files.keys(),
+    read: (path) => files.get(path)!,
+    write: (path, contents) => {
+      writes.push(path);
+      files.set(path, contents);
+    },
+  };
+}
+
+describe('Xfiles', () => {
+  it('runs the command on the files whose path matches', () => {
+    const files = project();
+    const result = Xfiles('src/**/*.ts', letify)(files);
+    expect(result.results.map((r) => [r.path, r.changed])).toEqual([
+      ['src/index.ts', true],
+      ['src/util/math.ts', false],
+      ['src/util/old.ts', true],
+      ['src/index.test.ts', true],
+    ]);
+    expect(result.changed).toEqual(['src/index.ts', 'src/util/old.ts', 'src/index.test.ts']);
+    expect(result.results[2]).toEqual({
+      path: 'src/util/old.ts',
+      input: 'var c = 3; var d = 4;\n',
+      output: 'let c = 3; let d = 4;\n',
+      changed: true,
+    });
+    expect(result.files.get('src/index.ts')).toBe('let a = 1;\n');
+    expect(result.files.get('README.md')).toBe('Use var wisely.\n');
+    // The input map is left as it was
+    expect(files).toEqual(project());
+  });
+
+  it('accepts a compiled glob', () => {
+    const glob = compileGlob('src/*.ts');
+    expect(Xfiles(glob, letify)(project()).changed).toEqual(['src/index.ts', 'src/index.test.ts']);
+  });
+
+  it('writes changed files to a file system, and reads only selected ones', () => {
+    const files = project();
+    const fs = memoryFs(files);
+    const read: string[] = [];
+    const result = Xfiles(
+      '**/*.md',
+      s(/var/, 'const'),
+    )({
+      ...fs,
+      read: (path) => {
+        read.push(path);
+        return fs.read(path);
+      },
+    });
+    expect(read).toEqual(['README.md']);
+    expect(fs.writes).toEqual(['README.md']);
+    expect(files.get('README.md')).toBe('Use const wisely.\n');
+    expect([...result.files.keys()]).toEqual(['README.md']);
+  });
+
+  it('writes nothing when the command fails on a file', () => {
+    const files = project();
+    const fs = memoryFs(files);
+    const failing = (text: string) => {
+      if (text.includes('c = 3')) throw new Error('cannot parse');
+      return letify(text);
+    };
+    expect(() => Xfiles('src/**', failing)(fs)).toThrow(FileCommandError);
+    expect(() => Xfiles('src/**', failing)(fs)).toThrow(
+      'Command failed on src/util/old.ts: cannot parse',
+    );
+    expect(fs.writes).toEqual([]);
+    try {
+      Xfiles('src/**', failing)(fs);
+    } catch (error) {
+      expect((error as FileCommandError).path).toBe('src/util/old.ts');
+      expect((error as FileCommandError).cause).toEqual(new Error('cannot parse'));
+    }
+  });
+});
+
+describe('Yfiles', () => {
+  it('runs the command on the files whose path does not match', () => {
+    const result = Yfiles('**/*.test.ts', letify)(project());
+    expect(result.results.map((r) => r.path)).toEqual([
+      'src/index.ts',
+      'src/util/math.ts',
+      'src/util/old.ts',
+      'README.md',
+    ]);
+    expect(result.changed).toEqual(['src/index.ts', 'src/util/old.ts', 'README.md']);
+    expect(result.files.get('src/index.test.ts')).toBe('var t = 0;\n');
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Files: run a command over every file of a set whose path matches a glob
+ *
+ * Sam's `X/pattern/ cmd` runs a command in each open file whose name
+ * matches, and `Y/pattern/ cmd` in each file whose name does not. `Xfiles`
+ * and `Yfiles` do the same over a set of files held in memory: a
+ * `Map<path, contents>`, or any `FileSystem` that can list, read and
+ * write them. Paths are selected with `compileGlob` (see `glob.ts`), so
+ * `src/**\/*.ts` selects every TypeScript file under `src`.
+ *
+ * Every selected file is run before anything is written, so a command
+ * that throws leaves the files as they were. The result lists each
+ * selected file with its input and output, and the paths that changed.
+ *
+ * @module files
+ */
+
+import { type GlobPattern, compileGlob } from './glob';
+import type { Command } from './types';
+
+/**
+ * Files a command can run over: list their paths, read and write them
+ */
+export interface FileSystem {
+  /** Paths of all files in the set */
+  paths(): Iterable<string>;
+  read(path: string): string;
+  /** Called once for each changed file, after every command has run */
+  write(path: string, contents: string): void;
+}
+
+/**
+ * A file set: a map from path to contents (never modified), or a `FileSystem`
+ */
+export type FileSet = ReadonlyMap<string, string> | FileSystem;
+
+/**
+ * What a command did to one file
+ */
+export interface FileResult {
+  path: string;
+  input: string;
+  output: string;
+  changed: boolean;
+}
+
+/**
+ * Result of running a command over a file set
+ */
+export interface FilesResult {
+  /** Each selected file, in the order the set lists them */
+  results: FileResult[];
+  /** Paths of the selected files whose contents changed */
+  changed: string[];
+  /**
+   * Contents afterwards: every file of a Map, or the selected files of a
+   * `FileSystem` (others are not read)
+   */
+  files: Map<string, string>;
+}
+
+/**
+ * A command over a file set, built by `Xfiles` or `Yfiles`
+ */
+export type FilesCommand = (files: FileSet) => FilesResult;
+
+/**
+ * Error raised when the command fails on one file
+ */
+export class FileCommandError extends Error {
+  readonly path: string;
+
+  constructor(path: string, cause: unknown) {
+    super(`Command failed on ${path}: ${cause instanceof Error ? cause.message : String(cause)}`, {
+      cause,
+    });
+    this.name = 'FileCommandError';
+    this.path = path;
+  }
+}
+
+/**
+ * Run a command on every file whose path matches a glob (sam's `X`).
+ *
+ * @param pattern - Glob, e.g. `'src/**\/*.ts'`, or a pattern from `compileGlob`
+ * @param cmd - Command to run on the contents of each selected file
+ * @returns A function that runs over a file set
+ * @throws {FileCommandError} When the command throws on a file; nothing is written
+ *
+ * @example
+ * const files = new Map([
+ *   ['src/a.ts', 'var a = 1;'],
+ *   ['src/b.ts', 'const b = 2;'],
+ *   ['README.md', 'var is fine here'],
+ * ]);
+ * const { changed, files: after } = Xfiles('src/**\/*.ts', x(/\bvar\b/, c('let')))(files);
+ * // changed => ['src/a.ts']
+ * // after.get('src/a.ts') => 'let a = 1;'
+ */
+export function Xfiles(pattern: string | GlobPattern, cmd: Command): FilesCommand {
+  const glob = typeof pattern === 'string' ? compileGlob(pattern) : pattern;
+  return (files) => runFiles(files, (path) => glob.matches(path), cmd);
+}
+
+/**
+ * Run a command on every file whose path does not match a glob (sam's `Y`).
+ *
+ * @param pattern - Glob, e.g. `'**\/*.test.ts'`, or a pattern from `compileGlob`
+ * @param cmd - Command to run on the contents of each selected file
+ * @returns A function that runs over a file set
+ * @throws {FileCommandError} When the command throws on a file; nothing is written
+ *
+ * @example
+ * // Every file except generated ones
+ * Yfiles('dist/**', s(/\s+$/gm, ''))(files);
+ */
+export function Yfiles(pattern: string | GlobPattern, cmd: Command): FilesCommand {
+  const glob = typeof pattern === 'string' ? compileGlob(pattern) : pattern;
+  return (files) => runFiles(files, (path) => !glob.matches(path), cmd);
+}
+
+function runFiles(files: FileSet, selected: (path: string) => boolean, cmd: Command): FilesResult {
+  const fs = isFileSystem(files) ? files : undefined;
+  const after = fs ? new Map<string, string>() : new Map(files as ReadonlyMap<string, string>);
+  const results: FileResult[] = [];
+  for (const path of fs ? fs.paths() : after.keys()) {
+    if (!selected(path)) continue;
+    const input = fs ? fs.read(path) : after.get(path)!;
+    let output: string;
+    try {
+      output = cmd(input);
+    } catch (error) {
+      throw new FileCommandError(path, error);
+    }
+    results.push({ path, input, output, changed: output !== input });
+    after.set(path, output);
+  }
+
+  const changed = results.filter((result) => result.changed).map((result) => result.path);
+  if (fs) {
+    for (const path of changed) fs.write(path, after.get(path)!);
+  }
+  return { results, changed, files: after };
+}
+
+function isFileSystem(files: FileSet): files is FileSystem {
+  return typeof (files as FileSystem).paths === 'function';
+}
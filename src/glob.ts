@@ -4,6 +4,7 @@
  * Supports:
  * - * matches a single path segment
  * - ** matches any number of segments (including zero)
+ * - * and ? inside a segment match any characters / one character of it (`*.ts`)
  * - Literal segments match exactly
  */
 
@@ -22,7 +23,8 @@ export interface GlobPattern {
 type GlobSegment =
   | { type: 'literal'; value: string }
   | { type: 'single' } // *
-  | { type: 'double' }; // **
+  | { type: 'double' } // **
+  | { type: 'wildcard'; regex: RegExp }; // *.ts, file-?.md
 
 /**
  * Parse a glob pattern into segments
@@ -32,10 +34,22 @@ function parseGlobSegments(pattern: string): GlobSegment[] {
   return parts.map((part) => {
     if (part === '**') return { type: 'double' };
     if (part === '*') return { type: 'single' };
+    if (/[*?]/.test(part)) return { type: 'wildcard', regex: segmentRegex(part) };
     return { type: 'literal', value: part };
   });
 }
 
+/**
+ * Regex for one segment with * and ? wildcards
+ */
+function segmentRegex(part: string): RegExp {
+  const source = part
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*+/g, '.*')
+    .replace(/\?/g, '.');
+  return new RegExp(`^${source}$`, 's');
+}
+
 /**
  * Match path segments against glob segments
  */
@@ -76,6 +90,11 @@ function matchSegments(glob: GlobSegment[], path: string[], gi = 0, pi = 0): boo
     return matchSegments(glob, path, gi + 1, pi + 1);
   }
 
+  // Wildcards match within one segment
+  if (segment.type === 'wildcard') {
+    return segment.regex.test(path[pi]) && matchSegments(glob, path, gi + 1, pi + 1);
+  }
+
   return false;
 }
 
@@ -160,6 +179,14 @@ export function extractGlobCaptures(pattern: string, path: string): string[] | n
       return extract(gi + 1, pi + 1);
     }
 
+    if (segment.type === 'wildcard') {
+      if (!segment.regex.test(pathParts[pi])) {
+        return false;
+      }
+      captures.push(pathParts[pi]);
+      return extract(gi + 1, pi + 1);
+    }
+
     return false;
   }
 
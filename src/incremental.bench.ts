@@ -0,0 +1,41 @@
+/**
+ * Benchmarks for incremental reruns
+ *
+ * Run with `npm run bench`. Each group types one character into a large
+ * document and compares rerunning the whole pipeline with `update`.
+ */
+
+import { bench, describe } from 'vitest';
+import { pipe, s, x, y } from './commands';
+import { incremental } from './incremental';
+
+const text = Array.from(
+  { length: 20_000 },
+  (_, i) => `  item ${i}: total ${i * 7} of ${i % 13} units  `,
+).join('\n');
+const middle = text.indexOf('item 10000');
+
+const pipelines = {
+  // Bounded matches: only nearby matches are searched again
+  'x(/\\d{1,9}/)': x(/\d{1,9}/, (n) => String(Number(n) * 2)),
+  // Unbounded matches: matching reruns, the inner command does not
+  'y(/\\n/) then x(/\\w+/)': pipe(
+    y(/\n/, s(/^\s+|\s+$/g, '')),
+    x(/\w+/, (word) => word.toUpperCase()),
+  ),
+};
+
+for (const [name, cmd] of Object.entries(pipelines)) {
+  describe(`type into ${text.length} characters: ${name}`, () => {
+    const run = incremental(cmd, text);
+    let typed = 0;
+
+    bench('full rerun', () => {
+      cmd(`${text.slice(0, middle)}${typed++ % 10}${text.slice(middle)}`);
+    });
+
+    bench('update', () => {
+      run.update({ start: middle, end: middle, insert: String(typed++ % 10) });
+    });
+  });
+}
@@ -0,0 +1,139 @@
+/**
+ * Tests for incremental reruns: every update is compared with a full run
+ */
+
+import { afterEach, describe, expect, it } from 'vitest';
+import { c, d, p, pipe, s, x, y } from './commands';
+import { incremental } from './incremental';
+import type { IncrementalRun, TextChange } from './incremental';
+import { literals } from './literals';
+import { setRegexEngine } from './pike';
+import type { Command } from './types';
+
+const apply = (text: string, change: TextChange) =>
+  text.slice(0, change.start) + change.insert + text.slice(change.end);
+
+// Update, then check the output and the reported change against a full run
+function edit(run: IncrementalRun, cmd: Command, change: TextChange): IncrementalRun {
+  const next = run.update(change);
+  const input = apply(run.input, change);
+  expect(next.input).toBe(input);
+  expect(next.output, `${JSON.stringify(change)} on ${JSON.stringify(run.input)}`).toBe(cmd(input));
+  expect(next.change ? apply(run.output, next.change) : run.output).toBe(next.output);
+  return next;
+}
+
+describe('incremental', () => {
+  it('matches a full run after random edits', () => {
+    let seed = 5;
+    const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+    const pick = <T>(items: readonly T[]) => items[Math.floor(random() * items.length)];
+    const word = () =>
+      Array.from({ length: Math.floor(random() * 4) }, () => pick(['a', 'b', '1', ' ', '\n'])).join(
+        '',
+      );
+    const upper = (text: string) => text.toUpperCase();
+    const commands: Command[] = [
+      x(/\d+/, (n) => `<${n}>`),
+      x(/a.?b|\bb{1,2}$/m, upper),
+      y(/\n/, x(/ab?/, c('_'))),
+      pipe(x(/\w+/, upper), y(/B+/, s(/ /g, '.')), x(/\n\n/, d())),
+      pipe(p(), x(/(?=a)|b/, c('|')), s(/1/g, '2')),
+      x(/^.*$/gm, pipe(x(/[ab]{2}/, c('ab!')), y(/!/, upper))),
+      x(literals(['ab', 'b1']), c('#')),
+    ];
+    for (const cmd of commands) {
+      let text = '';
+      for (let i = 0; i < 8; i++) text += word();
+      let run = incremental(cmd, text);
+      expect(run.output).toBe(cmd(text));
+      for (let round = 0; round < 150; round++) {
+        const start = Math.floor(random() * (run.input.length + 1));
+        const end = Math.min(run.input.length, start + Math.floor(random() * 3));
+        run = edit(run, cmd, { start, end, insert: word() });
+      }
+    }
+  });
+
+  it('runs only the regions an edit touches', () => {
+    const cmd = x(/\d+/, (n) => String(Number(n) * 2));
+    const text = Array.from({ length: 1000 }, (_, i) => `item ${i}`).join('\n');
+    const run = incremental(cmd, text);
+    expect(run.runs).toBe(1000);
+
+    const at = text.indexOf('item 500') + 5;
+    const next = edit(run, cmd, { start: at, end: at + 3, insert: '7' });
+    expect(next.runs).toBe(1);
+    // 500 doubled was 1000, 7 doubled is 14: only '000' changed
+    const doubled = run.output.indexOf('1000');
+    expect(next.change).toEqual({ start: doubled + 1, end: doubled + 4, insert: '4' });
+    // Text outside every region runs nothing
+    expect(edit(next, cmd, { start: 0, end: 4, insert: 'row' }).runs).toBe(0);
+    // Joining two regions runs the joined one
+    const nl = text.indexOf('\nitem 3');
+    expect(edit(run, cmd, { start: nl, end: nl + 6, insert: '' }).runs).toBe(1);
+  });
+
+  it('passes changes through pipe steps', () => {
+    const cmd = pipe(
+      y(/\n/, (line) => line.trim()),
+      x(/\w+/, (w) => w.toUpperCase()),
+    );
+    const text = Array.from({ length: 200 }, (_, i) => `  line ${i}  `).join('\n');
+    const run = incremental(cmd, text);
+    const next = edit(run, cmd, { start: 3, end: 3, insert: 'x' });
+    expect(next.runs).toBe(2);
+    expect(next.change).toEqual({ start: 1, end: 1, insert: 'X' });
+    // An edit that leaves a step's output as it was stops there
+    expect(edit(next, cmd, { start: 0, end: 0, insert: ' ' })).toMatchObject({
+      runs: 1,
+      change: undefined,
+    });
+  });
+
+  it('finds matches an edit creates or breaks far from it', () => {
+    const cmd = x(/<[^>]*>/, c('TAG'));
+    let run = incremental(cmd, 'a <b> c > d <e>');
+    run = edit(run, cmd, { start: 4, end: 5, insert: '' });
+    expect(run.output).toBe('a TAG d TAG');
+    run = edit(run, cmd, { start: 0, end: 0, insert: '<' });
+    expect(run.output).toBe('TAG d TAG');
+  });
+
+  it('reruns other commands on their whole input', () => {
+    const cmd = s(/a/g, 'b');
+    const run = incremental(cmd, 'aaa');
+    expect(edit(run, cmd, { start: 1, end: 2, insert: 'c' })).toMatchObject({
+      output: 'bcb',
+      runs: 1,
+      change: { start: 1, end: 2, insert: 'c' },
+    });
+  });
+
+  it('handles edits that join surrogate pairs', () => {
+    const cmd = x(/(?:)/u, c('.'));
+    const run = incremental(cmd, '1\ud83d\na\ude00');
+    expect(edit(run, cmd, { start: 2, end: 4, insert: '' }).output).toBe('.1.😀.');
+  });
+
+  it('rejects edits outside the input', () => {
+    const run = incremental(p(), 'abc');
+    expect(() => run.update({ start: 2, end: 4, insert: '' })).toThrow(RangeError);
+    expect(() => run.update({ start: 2, end: 1, insert: '' })).toThrow(
+      'Edit [2, 1) is outside the text',
+    );
+  });
+});
+
+describe('incremental with the Pike VM', () => {
+  afterEach(() => setRegexEngine('native'));
+
+  it('matches a full run', () => {
+    setRegexEngine('pike');
+    const cmd = x(/a{1,3}|\d/, c('-'));
+    let run = incremental(cmd, 'aaaa 1 a');
+    run = edit(run, cmd, { start: 4, end: 5, insert: 'aa' });
+    run = edit(run, cmd, { start: 0, end: 2, insert: '9' });
+    expect(run.output).toBe('---- -');
+  });
+});
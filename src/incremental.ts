@@ -0,0 +1,568 @@
+/**
+ * Incremental: rerun a pipeline after a small edit to its input
+ *
+ * An editor that reruns `pipe(...)` on every keystroke redoes all the work
+ * for a one-character change. `incremental` runs a command once and keeps
+ * what `x` and `y` found: the regions their pattern selected and the
+ * result of the inner command on each. `update` then applies an edit
+ * (`start`, `end`, `insert`) and redoes only what the edit can affect:
+ *
+ * - matching restarts at the last match that cannot reach the edit and
+ *   stops as soon as it finds a match it found before, after the edit
+ * - regions whose text is unchanged keep their result; the region holding
+ *   the edit is updated in turn, and other new regions run from scratch
+ * - the output is patched around the changed regions, and each pipe step
+ *   receives the change to the previous step's output as its edit
+ *
+ * How far back matching restarts depends on the pattern. When its matches
+ * have a bounded length, only nearby matches are searched again; when a
+ * match could span any distance (`.*`, `\w+`, custom matchers), matching
+ * reruns from the start of the text, while the inner commands still run on
+ * the changed regions only. Other commands (`s`, `g`, functions, ...) rerun
+ * on their whole input.
+ *
+ * Commands are assumed to be pure: the same input gives the same output.
+ *
+ * @module incremental
+ */
+
+import { globalRegex } from './cache';
+import { describeCommand, matcherFor } from './commands';
+import { parseRegex } from './regex';
+import type { RegexNode } from './regex';
+import { advanceIndex } from './source';
+import type { Command, Match, Selector } from './types';
+
+/**
+ * An edit to a text: replace [start, end) with `insert`
+ */
+export interface TextChange {
+  /** Start offset of the replaced range */
+  start: number;
+  /** End offset (exclusive) of the replaced range */
+  end: number;
+  /** Text inserted in its place */
+  insert: string;
+}
+
+/**
+ * A command run that can be updated after edits to its input
+ */
+export interface IncrementalRun {
+  readonly input: string;
+  /** Output of the command (same as calling it on `input`) */
+  readonly output: string;
+  /**
+   * What the last update changed in the previous output, as an edit to it;
+   * undefined after the first run or when the output did not change
+   */
+  readonly change: TextChange | undefined;
+  /** Number of times a command ran on a region during the last run or update */
+  readonly runs: number;
+  /**
+   * Apply an edit to the input and rerun what it affects.
+   *
+   * @param change - Edit to `input`
+   * @returns A run for the edited input; this run stays valid
+   * @throws {RangeError} When the edit lies outside the input
+   */
+  update(change: TextChange): IncrementalRun;
+}
+
+/**
+ * Run a command and keep what is needed to rerun it after edits.
+ *
+ * @param cmd - Command to run (typically a pipeline of primitives)
+ * @param input - The input text
+ * @returns The run, with `output` and `update`
+ *
+ * @example
+ * const first = incremental(x(/\d+/, (n) => String(Number(n) * 2)), '1 2 3');
+ * first.output; // => '2 4 6'
+ * const next = first.update({ start: 2, end: 3, insert: '20' });
+ * next.output; // => '2 40 6'
+ * next.runs; // => 1 (only the edited number ran again)
+ * next.change; // => { start: 3, end: 3, insert: '0' }
+ */
+export function incremental(cmd: Command, input: string): IncrementalRun {
+  const stats = { runs: 0 };
+  return wrap(build(cmd, input, stats), undefined, stats.runs);
+}
+
+function wrap(node: Node, change: TextChange | undefined, runs: number): IncrementalRun {
+  return {
+    input: node.input,
+    output: node.output,
+    change,
+    runs,
+    update(edit: TextChange): IncrementalRun {
+      if (edit.start < 0 || edit.end > node.input.length || edit.end < edit.start) {
+        throw new RangeError(`Edit [${edit.start}, ${edit.end}) is outside the text`);
+      }
+      const stats = { runs: 0 };
+      const result = update(node, edit, stats);
+      return wrap(result.node, result.change, stats.runs);
+    },
+  };
+}
+
+// ============================================================
+// Run tree
+// ============================================================
+
+interface Stats {
+  runs: number;
+}
+
+/** A command rerun on its whole input after any edit */
+interface Leaf {
+  kind: 'leaf';
+  cmd: Command;
+  input: string;
+  output: string;
+}
+
+/** Pipe steps, each fed the output of the one before */
+interface Chain {
+  kind: 'chain';
+  steps: Node[];
+  input: string;
+  output: string;
+}
+
+/** x or y: a result for each selected region, the rest copied as is */
+interface Regions {
+  kind: 'regions';
+  pattern: Selector;
+  /** True for y, which runs on the text between matches */
+  between: boolean;
+  cmd: Command;
+  /** Furthest a search reads past the position it starts at */
+  reach: number;
+  matches: Region[];
+  parts: Part[];
+  input: string;
+  output: string;
+}
+
+type Node = Leaf | Chain | Regions;
+
+type Region = Pick<Match, 'start' | 'end'>;
+
+/** A region of the input, its run and where its output starts */
+interface Part extends Region {
+  node: Node;
+  outStart: number;
+}
+
+function build(cmd: Command, input: string, stats: Stats): Node {
+  const spec = describeCommand(cmd);
+  if (spec?.op === 'p') return { kind: 'chain', steps: [], input, output: input };
+  if (spec?.op === 'pipe') {
+    const steps: Node[] = [];
+    let text = input;
+    for (const step of spec.commands) {
+      const node = build(step, text, stats);
+      steps.push(node);
+      text = node.output;
+    }
+    return { kind: 'chain', steps, input, output: text };
+  }
+  if (spec?.op === 'x' || spec?.op === 'y') {
+    const between = spec.op === 'y';
+    const matches = [...searchFrom(spec.pattern, input, 0)];
+    const parts: Part[] = [];
+    let output = '';
+    let lastEnd = 0;
+    const regions = !between
+      ? matches
+      : matches.length === 0
+        ? [{ start: 0, end: input.length }]
+        : gaps(matches, 0, input.length);
+    for (const region of regions) {
+      const node = build(spec.cmd, input.slice(region.start, region.end), stats);
+      output += input.slice(lastEnd, region.start);
+      parts.push({ start: region.start, end: region.end, node, outStart: output.length });
+      output += node.output;
+      lastEnd = region.end;
+    }
+    output += input.slice(lastEnd);
+    return {
+      kind: 'regions',
+      pattern: spec.pattern,
+      between,
+      cmd: spec.cmd,
+      reach: reachOf(spec.pattern),
+      matches,
+      parts,
+      input,
+      output,
+    };
+  }
+  stats.runs++;
+  return { kind: 'leaf', cmd, input, output: cmd(input) };
+}
+
+interface Updated {
+  node: Node;
+  /** Change to the node's previous output, if any */
+  change: TextChange | undefined;
+}
+
+function update(node: Node, change: TextChange, stats: Stats): Updated {
+  const input = node.input.slice(0, change.start) + change.insert + node.input.slice(change.end);
+  switch (node.kind) {
+    case 'leaf': {
+      stats.runs++;
+      const output = node.cmd(input);
+      return { node: { ...node, input, output }, change: difference(node.output, output, 0) };
+    }
+    case 'chain': {
+      const steps: Node[] = [];
+      let next: TextChange | undefined = change;
+      for (const step of node.steps) {
+        if (next === undefined) {
+          steps.push(step);
+          continue;
+        }
+        const result = update(step, next, stats);
+        steps.push(result.node);
+        next = result.change;
+      }
+      const output = steps.length === 0 ? input : steps[steps.length - 1].output;
+      return { node: { ...node, steps, input, output }, change: next };
+    }
+    case 'regions':
+      return updateRegions(node, change, input, stats);
+  }
+}
+
+// ============================================================
+// Regions
+// ============================================================
+
+// Characters a search may read before where it starts: one for \b and ^,
+// and one more for a unicode search starting inside a surrogate pair
+const LOOKBEHIND = 2;
+
+function updateRegions(node: Regions, change: TextChange, input: string, stats: Stats): Updated {
+  const editStart = change.start;
+  const editEnd = change.start + change.insert.length;
+  const delta = editEnd - change.end;
+  const old = node.matches;
+  const { kept, found, resync } = rescan(node, input, editStart, editEnd, delta);
+  const matches = old.slice(0, kept).concat(found, old.slice(resync).map(shift(delta)));
+
+  // The span searched again, in edited input coordinates, and its regions
+  const low = kept > 0 ? old[kept - 1].end : 0;
+  const high = resync < old.length ? old[resync].start + delta : input.length;
+  const regions = !node.between
+    ? found
+    : matches.length === 0
+      ? [{ start: 0, end: input.length }]
+      : gaps(found, low, high);
+
+  // The previous parts in that span; those outside it are unchanged
+  const { parts } = node;
+  const first = kept === 0 ? 0 : node.between ? bisect(parts, (p) => p.end > low) : kept;
+  const last =
+    resync === old.length
+      ? parts.length
+      : node.between
+        ? bisect(parts, (p) => p.start >= high - delta)
+        : resync;
+  const previous = new Map<number, Part>();
+  for (let i = first; i < last; i++) previous.set(parts[i].start, parts[i]);
+  const reuse = (start: number, end: number) => {
+    const part = previous.get(start);
+    return part && part.end === end ? part : undefined;
+  };
+
+  const window: Part[] = regions.map(({ start, end }) => {
+    // Unchanged text before or after the edit keeps its run
+    const same =
+      end <= editStart
+        ? reuse(start, end)
+        : start >= editEnd
+          ? reuse(start - delta, end - delta)
+          : undefined;
+    if (same) return { start, end, node: same.node, outStart: same.outStart };
+    // A region around the edit passes it on
+    const around = start <= editStart && end >= editEnd ? reuse(start, end - delta) : undefined;
+    const child = around
+      ? update(
+          around.node,
+          { start: editStart - start, end: change.end - start, insert: change.insert },
+          stats,
+        ).node
+      : build(node.cmd, input.slice(start, end), stats);
+    return { start, end, node: child, outStart: 0 };
+  });
+
+  // Parts of the span before and after the edit that are the same runs at the same places
+  const stale = parts.slice(first, last);
+  let head = 0;
+  while (
+    head < window.length &&
+    head < stale.length &&
+    stale[head].end <= change.start &&
+    window[head].node === stale[head].node &&
+    window[head].start === stale[head].start
+  ) {
+    head++;
+  }
+  let tail = 0;
+  while (
+    tail < window.length - head &&
+    tail < stale.length - head &&
+    stale[stale.length - 1 - tail].start >= change.end &&
+    window[window.length - 1 - tail].node === stale[stale.length - 1 - tail].node &&
+    window[window.length - 1 - tail].start - delta === stale[stale.length - 1 - tail].start
+  ) {
+    tail++;
+  }
+
+  // The changed span, in previous input coordinates: the edit and the changed parts
+  let from = change.start;
+  let to = change.end;
+  for (let i = head; i < stale.length - tail; i++) {
+    from = Math.min(from, stale[i].start);
+    to = Math.max(to, stale[i].end);
+  }
+  for (let i = head; i < window.length - tail; i++) {
+    from = Math.min(from, window[i].start);
+    to = Math.max(to, previousOffset(window[i].end, change, editEnd));
+  }
+
+  // Rebuild the output of the changed span only; the text around it maps
+  // to the output by the nearest unchanged part
+  const before = parts[first + head - 1];
+  const after = parts[last - tail];
+  const outFrom = before ? before.outStart + before.node.output.length + from - before.end : from;
+  const outTo = after
+    ? after.outStart - (after.start - to)
+    : node.output.length - (node.input.length - to);
+  let middle = '';
+  let lastEnd = from;
+  for (let i = head; i < window.length - tail; i++) {
+    const part = window[i];
+    middle += input.slice(lastEnd, part.start);
+    part.outStart = outFrom + middle.length;
+    middle += part.node.output;
+    lastEnd = part.end;
+  }
+  middle += input.slice(lastEnd, to + delta);
+  const outDelta = outFrom + middle.length - outTo;
+  for (let i = window.length - tail; i < window.length; i++) window[i].outStart += outDelta;
+
+  const output = node.output.slice(0, outFrom) + middle + node.output.slice(outTo);
+  const moved = parts.slice(last).map((p) => ({
+    start: p.start + delta,
+    end: p.end + delta,
+    node: p.node,
+    outStart: p.outStart + outDelta,
+  }));
+  return {
+    node: {
+      ...node,
+      matches,
+      parts: parts.slice(0, first).concat(window, moved),
+      input,
+      output,
+    },
+    change: difference(node.output.slice(outFrom, outTo), middle, outFrom),
+  };
+}
+
+/**
+ * Search the edited input again. The first `kept` matches, whose search
+ * ended before the edit, stay; searching resumes after them and stops at
+ * the first match that is the same as before and whose search reads
+ * nothing the edit changed. From there, matches are the previous ones
+ * from `resync` on, shifted by the edit.
+ */
+function rescan(
+  node: Regions,
+  input: string,
+  editStart: number,
+  editEnd: number,
+  delta: number,
+): { kept: number; found: Region[]; resync: number } {
+  const old = node.matches;
+  const kept = bisect(old, (m) => m.start + node.reach > editStart);
+  const last = old[kept - 1];
+  const unicode = node.pattern instanceof RegExp && node.pattern.unicode;
+  const resume = !last
+    ? 0
+    : last.end > last.start
+      ? last.end
+      : advanceIndex(input, last.end, unicode);
+
+  const found: Region[] = [];
+  let next = kept;
+  for (const match of searchFrom(node.pattern, input, resume, kept)) {
+    if (match.start >= editEnd + LOOKBEHIND) {
+      while (next < old.length && old[next].start + delta < match.start) next++;
+      if (
+        next < old.length &&
+        old[next].start + delta === match.start &&
+        old[next].end + delta === match.end
+      ) {
+        return { kept, found, resync: next };
+      }
+    }
+    found.push(match);
+  }
+  return { kept, found, resync: old.length };
+}
+
+/**
+ * Regions matched in text, from the search state after a match ending at
+ * `from`. Matchers cannot resume, so they scan from the start and the
+ * first `skip` matches are dropped.
+ */
+function* searchFrom(pattern: Selector, text: string, from: number, skip = 0): Iterable<Region> {
+  const selected = matcherFor(pattern);
+  if (!(selected instanceof RegExp)) {
+    let index = 0;
+    for (const match of selected.scan(text)) {
+      if (index++ >= skip) yield { start: match.start, end: match.end };
+    }
+    return;
+  }
+  const global = globalRegex(selected);
+  global.lastIndex = from;
+  let match: RegExpExecArray | null;
+  while ((match = global.exec(text)) !== null) {
+    yield { start: match.index, end: match.index + match[0].length };
+    if (match[0].length === 0) {
+      global.lastIndex = advanceIndex(text, global.lastIndex, global.unicode);
+    }
+  }
+}
+
+// Complement of matches within [start, end), as y sees it
+function gaps(matches: Region[], start: number, end: number): Region[] {
+  const regions: Region[] = [];
+  let lastEnd = start;
+  for (const match of matches) {
+    if (match.start > lastEnd) regions.push({ start: lastEnd, end: match.start });
+    lastEnd = match.end;
+  }
+  if (lastEnd < end) regions.push({ start: lastEnd, end });
+  return regions;
+}
+
+// Index of the first item for which `after` holds; it must hold for every item after it
+function bisect<T>(items: readonly T[], after: (item: T) => boolean): number {
+  let low = 0;
+  let high = items.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (after(items[mid])) high = mid;
+    else low = mid + 1;
+  }
+  return low;
+}
+
+const shift =
+  (delta: number) =>
+  (region: Region): Region => ({ start: region.start + delta, end: region.end + delta });
+
+// Where an offset in the edited input was before the edit (the end of
+// the edit for offsets inside the inserted text)
+function previousOffset(offset: number, change: TextChange, editEnd: number): number {
+  if (offset <= change.start) return offset;
+  return offset >= editEnd ? offset - editEnd + change.end : change.end;
+}
+
+// The edit turning `before` into `after`, trimmed to the text that differs
+function difference(before: string, after: string, offset: number): TextChange | undefined {
+  if (before === after) return undefined;
+  const shorter = Math.min(before.length, after.length);
+  let prefix = 0;
+  while (prefix < shorter && before.charCodeAt(prefix) === after.charCodeAt(prefix)) prefix++;
+  let suffix = 0;
+  while (
+    suffix < shorter - prefix &&
+    before.charCodeAt(before.length - 1 - suffix) === after.charCodeAt(after.length - 1 - suffix)
+  ) {
+    suffix++;
+  }
+  return {
+    start: offset + prefix,
+    end: offset + before.length - suffix,
+    insert: after.slice(prefix, after.length - suffix),
+  };
+}
+
+// ============================================================
+// Reach
+// ============================================================
+
+/**
+ * How far past its start a search for the pattern may read: its longest
+ * match plus any lookahead. Infinity when unbounded or unknown, and for
+ * lookbehinds, which read back without limit.
+ */
+function reachOf(pattern: Selector): number {
+  if (!(pattern instanceof RegExp)) return Number.POSITIVE_INFINITY;
+  let node: RegexNode;
+  try {
+    ({ node } = parseRegex(pattern.source, pattern.flags));
+  } catch {
+    // Valid for the engine but not for the parser: assume the worst
+    return Number.POSITIVE_INFINITY;
+  }
+  // A unicode search reads the character it starts at, to see if it is inside a surrogate pair
+  return Math.max(extent(node, pattern.unicode).reach, pattern.unicode ? 1 : 0);
+}
+
+// Longest match of a node and how far past its start it reads, in code units
+function extent(node: RegexNode, unicode: boolean): { width: number; reach: number } {
+  switch (node.type) {
+    case 'empty':
+      return { width: 0, reach: 0 };
+    case 'set': {
+      const width = unicode && node.ranges.some(([, to]) => to > 0xffff) ? 2 : 1;
+      return { width, reach: width };
+    }
+    case 'assert':
+      // $ and \b look at the next character
+      return { width: 0, reach: 1 };
+    case 'backref':
+      return { width: Number.POSITIVE_INFINITY, reach: Number.POSITIVE_INFINITY };
+    case 'look':
+      return node.behind
+        ? { width: 0, reach: Number.POSITIVE_INFINITY }
+        : { width: 0, reach: extent(node.body, unicode).reach };
+    case 'group':
+      return extent(node.body, unicode);
+    case 'concat': {
+      let width = 0;
+      let reach = 0;
+      for (const item of node.items) {
+        const inner = extent(item, unicode);
+        reach = Math.max(reach, width + inner.reach);
+        width += inner.width;
+      }
+      return { width, reach };
+    }
+    case 'alt': {
+      const options = node.options.map((option) => extent(option, unicode));
+      return {
+        width: Math.max(0, ...options.map((o) => o.width)),
+        reach: Math.max(0, ...options.map((o) => o.reach)),
+      };
+    }
+    case 'repeat': {
+      if (node.max === 0) return { width: 0, reach: 0 };
+      const body = extent(node.body, unicode);
+      if (body.width === 0) return body;
+      return {
+        width: body.width * node.max,
+        reach: body.width * (node.max - 1) + body.reach,
+      };
+    }
+  }
+}
@@ -3,8 +3,12 @@
  */
 
 import { describe, expect, it } from 'vitest';
+import { MultiMatcher } from './commands';
+import { recordEdits } from './edits';
 import {
+  BudgetExceededError,
   PatternEngine,
+  UnsafePatternError,
   applyPattern,
   c,
   // Glob
@@ -38,8 +42,11 @@ import {
   // Core commands
   x,
   xAll,
+  xAny,
+  xMatch,
   y,
 } from './index';
+import { analyzeRegex } from './safety';
 
 describe('Core Commands', () => {
   describe('x (extract)', () => {
@@ -57,6 +64,31 @@ describe('Core Commands', () => {
       const cmd = x(/\d+/, c('NUM'));
       expect(cmd('abc')).toBe('abc');
     });
+
+    it('steps over surrogate pairs after empty matches in unicode mode', () => {
+      expect(findMatches(/(?:)/u, '😀x').map((m) => m.start)).toEqual([0, 2, 3]);
+      expect(x(/\b/u, c('|'))('😀a')).toBe('😀|a|');
+    });
+  });
+
+  describe('xMatch (extract with captures)', () => {
+    it('passes groups, positions and index to the callback', () => {
+      const seen: string[] = [];
+      const cmd = xMatch(/(\w)=(\d)/, (m, i) => {
+        seen.push(`${i}:${m.start}-${m.end}`);
+        return `${m.groups[2]}=${m.groups[1]}`;
+      });
+      expect(cmd('a=1, b=2')).toBe('1=a, 2=b');
+      expect(seen).toEqual(['0:0-3', '1:5-8']);
+    });
+
+    it('composes with pipe', () => {
+      const cmd = pipe(
+        xMatch(/\d+/, (m, i) => `${m.text}#${i}`),
+        s(/#0/, ''),
+      );
+      expect(cmd('7 8')).toBe('7 8#1');
+    });
   });
 
   describe('y (complement)', () => {
@@ -164,6 +196,80 @@ describe('Core Commands', () => {
       expect(cmd2('hello world')).toBe('');
     });
   });
+
+  describe('xAny', () => {
+    const tag = (label: string) => (text: string) => `${label}(${text})`;
+
+    it('picks the leftmost-longest match among all patterns', () => {
+      const cmd = xAny([
+        { pattern: /class/, cmd: tag('K') },
+        { pattern: /[a-z]+/, cmd: tag('I') },
+        { pattern: /\d+/, cmd: tag('N') },
+      ]);
+      expect(cmd('class classify 42')).toBe('K(class) I(classify) N(42)');
+    });
+
+    it('picks the first listed pattern in priority mode', () => {
+      const branches = [
+        { pattern: /\d/, cmd: tag('D') },
+        { pattern: /\d+/, cmd: tag('N') },
+      ];
+      expect(xAny(branches, { mode: 'priority' })('a 42')).toBe('a D(4)D(2)');
+      expect(xAny(branches)('a 42')).toBe('a N(42)');
+    });
+
+    it('scans once, so no branch sees text another branch produced', () => {
+      const branches = [
+        { pattern: /cat/, cmd: c('dog') },
+        { pattern: /dog/, cmd: c('cat') },
+      ];
+      expect(xAny(branches)('cat dog')).toBe('dog cat');
+      expect(pipe(x(/cat/, c('dog')), x(/dog/, c('cat')))('cat dog')).toBe('cat cat');
+    });
+
+    it('keeps backreferences pointing at their own pattern', () => {
+      const cmd = xAny([
+        { pattern: /(["'])x\1/, cmd: c('Q') },
+        { pattern: /(\w)\1/, cmd: c('D') },
+      ]);
+      expect(cmd(`"x" 'x" aa ab`)).toBe(`Q 'x" D ab`);
+    });
+
+    it('lets patterns share named groups', () => {
+      const branches = [
+        { pattern: /(?<q>["'])(?<body>\w*)\k<q>/, cmd: c('S') },
+        { pattern: /<(?<body>\w+)>/, cmd: c('T') },
+      ];
+      expect(xAny(branches)(`'a" "b" <c>`)).toBe(`'a" S T`);
+      const matches = [
+        ...new MultiMatcher(
+          branches.map((b) => b.pattern),
+          'longest',
+        ).scan(`"b"1<c>`),
+      ];
+      expect(matches.map((m) => m.namedGroups)).toEqual([{ q: '"', body: 'b' }, { body: 'c' }]);
+    });
+
+    it('handles empty matches and no branches', () => {
+      expect(xAny([{ pattern: /b*/, cmd: c('-') }])('abc')).toBe('-a--c-');
+      expect(xAny([])('abc')).toBe('abc');
+    });
+
+    it('requires the patterns to share flags', () => {
+      expect(() =>
+        xAny([
+          { pattern: /a/i, cmd: p() },
+          { pattern: /b/g, cmd: p() },
+        ]),
+      ).toThrow(TypeError);
+      expect(
+        xAny([
+          { pattern: /a/gi, cmd: c('x') },
+          { pattern: /b/i, cmd: c('y') },
+        ])('AB'),
+      ).toBe('xy');
+    });
+  });
 });
 
 describe('DSL (sre)', () => {
@@ -186,6 +292,110 @@ describe('DSL (sre)', () => {
     const result = sre('a,b,c').split(/,/);
     expect(result).toEqual(['a', 'b', 'c']);
   });
+
+  describe('x/y scopes', () => {
+    it('applies commands after x to each match', () => {
+      const result = sre('a1 b22 c333').x(/\d+/).c('N').value();
+      expect(result).toBe('aN bN cN');
+    });
+
+    it('applies commands after y to each non-match', () => {
+      const result = sre('ab12cd')
+        .y(/\d+/)
+        .apply((t) => t.toUpperCase())
+        .value();
+      expect(result).toBe('AB12CD');
+    });
+
+    it('closes the scope at end()', () => {
+      const result = sre('one two').x(/o/).c('0').end().s(/t/, 'T').value();
+      expect(result).toBe('0ne Tw0');
+    });
+
+    it('nests x scopes', () => {
+      const result = sre('key=abc; id=xyz').x(/=\w+/).x(/[a-z]/).c('*').value();
+      expect(result).toBe('key=***; id=***');
+    });
+
+    it('runs guards per region', () => {
+      const result = sre('1 42 7').x(/\d+/).g(/4/).c('ANSWER').end().s(/7/, 'seven').value();
+      expect(result).toBe('1 ANSWER seven');
+    });
+
+    it('skips the rest of the scope when v matches', () => {
+      const result = sre('foo bar').x(/\w+/).v(/o/).c('X').value();
+      expect(result).toBe('foo X');
+    });
+
+    it('keeps text outside an l range', () => {
+      const result = sre('a1\na2\na3\na4').l(0, 3).s(/a/, 'b').value();
+      expect(result).toBe('b1\nb2\nb3\na4');
+    });
+
+    it('keeps text outside an n range and resumes after end()', () => {
+      const result = sre('hello world')
+        .n(-5)
+        .apply((t) => t.toUpperCase())
+        .end()
+        .s(/h/, 'j')
+        .value();
+      expect(result).toBe('jello WORLD');
+    });
+
+    it('builds a command for the subpath tools', () => {
+      const { output, edits } = recordEdits(sre().x(/\d/).c('N').build(), 'a1 b2');
+      expect(output).toBe('aN bN');
+      expect(edits.map((e) => [e.start, e.end])).toEqual([
+        [1, 2],
+        [4, 5],
+      ]);
+    });
+
+    it('throws on end() without an open scope', () => {
+      expect(() => sre('a').end()).toThrow(/without an open x, y, n or l scope/);
+    });
+  });
+});
+
+describe('named groups', () => {
+  it('are reported by findMatches', () => {
+    const [m] = findMatches(/(?<key>\w+)=(?<value>\d+)?/, 'a=');
+    expect(m.namedGroups).toEqual({ key: 'a' });
+    expect(findMatches(/\w/, 'a')[0].namedGroups).toBeUndefined();
+  });
+
+  it('are carried by tokens', () => {
+    const [token] = tokenize('v1', /v(?<n>\d)/);
+    expect(token.namedGroups).toEqual({ n: '1' });
+  });
+
+  it('are carried by lexer tokens', () => {
+    const lexer = createLexer([
+      { name: 'PAIR', pattern: /(?<k>[a-z]+):(?<v>\d+)/ },
+      { name: 'NUM', pattern: /(?<num>\d+)/ },
+      { name: 'WS', pattern: /\s+/, skip: true },
+    ]);
+    const tokens = lexer('a:1 22');
+    expect(tokens.map((t) => t.namedGroups)).toEqual([{ k: 'a', v: '1' }, { num: '22' }]);
+  });
+
+  it('are kept apart when lexer patterns share names', () => {
+    const lexer = createLexer([
+      { name: 'STR', pattern: /"(?<text>[^"]*)"/ },
+      { name: 'WORD', pattern: /(?<text>[a-z]+)\d?/ },
+      { name: 'NUM', pattern: /\d+/ },
+    ]);
+    expect(lexer('"a b"cd1').map((t) => t.namedGroups)).toEqual([{ text: 'a b' }, { text: 'cd' }]);
+    expect(lexer('12')[0].namedGroups).toBeUndefined();
+  });
+
+  it('ignore parentheses inside character classes when counting lexer groups', () => {
+    const lexer = createLexer([
+      { name: 'STR', pattern: /"[^"(]*"/ },
+      { name: 'WORD', pattern: /[a-z]+/ },
+    ]);
+    expect(lexer('"ab"x').map((t) => t.type)).toEqual(['STR', 'WORD']);
+  });
 });
 
 describe('tokenize', () => {
@@ -215,6 +425,14 @@ describe('createLexer', () => {
     ]);
   });
 
+  it('renumbers backreferences of later patterns', () => {
+    const lexer = createLexer([
+      { name: 'NUMBER', pattern: /(\d)+/ },
+      { name: 'DOUBLE', pattern: /([a-z])\1/ },
+    ]);
+    expect(lexer('1aa').map((t) => t.type)).toEqual(['NUMBER', 'DOUBLE']);
+  });
+
   it('reports unmatched text as ERROR', () => {
     const lexer = createLexer([{ name: 'WORD', pattern: /[a-z]+/ }]);
     const tokens = lexer('hello@world');
@@ -229,6 +447,12 @@ describe('Template', () => {
       expect(result).toBe('User: alice');
     });
 
+    it('substitutes named capture groups', () => {
+      const ctx = { namedCaptures: { user: 'alice', input: 'x' }, input: 'raw' };
+      expect(substituteString('${user}/${cap.user}', ctx)).toBe('alice/alice');
+      expect(substituteString('${input}|${cap.input}|${missing}', ctx)).toBe('raw|x|${missing}');
+    });
+
     it('substitutes path segments', () => {
       const result = substituteString('/out/${path.0}/${path.1}', { path: ['users', '123'] });
       expect(result).toBe('/out/users/123');
@@ -291,6 +515,17 @@ describe('Glob', () => {
       expect(globMatch('/users/*/posts/*', '/users/123/posts/456')).toBe(true);
       expect(globMatch('/users/*/posts/*', '/users/123/456')).toBe(false);
     });
+
+    it('matches wildcards inside a segment', () => {
+      expect(globMatch('src/**/*.ts', 'src/a/b/index.ts')).toBe(true);
+      expect(globMatch('src/**/*.ts', 'src/index.ts')).toBe(true);
+      expect(globMatch('src/**/*.ts', 'src/index.tsx')).toBe(false);
+      expect(globMatch('src/*.ts', 'src/a/index.ts')).toBe(false);
+      expect(globMatch('docs/v?.md', 'docs/v2.md')).toBe(true);
+      expect(globMatch('docs/v?.md', 'docs/v10.md')).toBe(false);
+      expect(globMatch('a+b/(x).*', 'a+b/(x).js')).toBe(true);
+      expect(extractGlobCaptures('src/*/*.ts', 'src/util/glob.ts')).toEqual(['util', 'glob.ts']);
+    });
   });
 
   describe('extractGlobCaptures', () => {
@@ -323,6 +558,122 @@ describe('Pattern', () => {
     });
   });
 
+  describe('compilePattern safety', () => {
+    const unsafe = {
+      name: 'bad',
+      watch: '/**',
+      x: '^(\\w+\\s?)*$',
+      emit: 'out@v1',
+      emit_path: '/out',
+      template: {},
+    };
+
+    it('rejects catastrophic patterns', () => {
+      try {
+        compilePattern(unsafe, { safety: 'reject', analyze: analyzeRegex });
+        expect.unreachable();
+      } catch (err) {
+        expect(err).toBeInstanceOf(UnsafePatternError);
+        expect((err as UnsafePatternError).diagnostics[0]).toMatchObject({
+          pattern: 'bad',
+          field: 'x',
+          code: 'nested-quantifier',
+          start: 1,
+        });
+      }
+    });
+
+    it('rejects ambiguous alternations in repeats', () => {
+      const options = { safety: 'reject', analyze: analyzeRegex } as const;
+      expect(() => compilePattern({ ...unsafe, x: '(a|aa)+$' }, options)).toThrow(
+        UnsafePatternError,
+      );
+    });
+
+    it('reports findings in warn mode', () => {
+      const warnings: string[] = [];
+      const compiled = compilePattern(unsafe, {
+        safety: 'warn',
+        analyze: analyzeRegex,
+        onWarning: (d) => warnings.push(`${d.field}:${d.code}`),
+      });
+      expect(compiled.x).toBeInstanceOf(RegExp);
+      expect(warnings).toEqual(['x:nested-quantifier']);
+    });
+
+    it('requires an analyzer, and a callback in warn mode', () => {
+      expect(() => compilePattern(unsafe, { safety: 'reject' })).toThrow(/analyzeRegex/);
+      expect(() => compilePattern(unsafe, { safety: 'warn', analyze: analyzeRegex })).toThrow(
+        /onWarning/,
+      );
+      expect(compilePattern(unsafe).x).toBeInstanceOf(RegExp);
+    });
+
+    it('applies engine-wide options', () => {
+      const engine = new PatternEngine({ safety: 'reject', analyze: analyzeRegex });
+      expect(() => engine.add(unsafe)).toThrow(/Pattern 'bad' x: Nested quantifier/);
+      expect(engine.size).toBe(0);
+    });
+  });
+
+  describe('PatternEngine budgets', () => {
+    // Two patterns that keep triggering each other
+    const pingPong = (engine: PatternEngine) => {
+      engine.add({
+        name: 'ping',
+        watch: '/pong/**',
+        emit: 'ping',
+        emit_path: '/ping/${uuid}',
+        template: 'ping',
+        then: 'pong',
+      });
+      engine.add({
+        name: 'pong',
+        watch: '/ping/**',
+        emit: 'pong',
+        emit_path: '/pong/${uuid}',
+        template: 'pong',
+        then: 'ping',
+      });
+      return engine;
+    };
+    const start = { key: '/pong/0', type: 'start', data: 'go' };
+
+    it('stops runaway cascades at the depth limit', () => {
+      const engine = pingPong(new PatternEngine());
+      try {
+        engine.apply(start, { maxDepth: 5 });
+        expect.unreachable();
+      } catch (err) {
+        expect(err).toBeInstanceOf(BudgetExceededError);
+        expect(err).toMatchObject({ limit: 'depth', max: 5, pattern: 'pong' });
+      }
+    });
+
+    it('uses the engine default budget', () => {
+      const engine = pingPong(new PatternEngine({ budget: { maxMatches: 4 } }));
+      expect(() => engine.apply(start)).toThrow(
+        "Pattern 'ping' exceeded its budget: more than 4 matches",
+      );
+      // A per-call budget replaces the default
+      expect(() => engine.apply(start, { maxDepth: 2 })).toThrow(/cascade deeper than 2/);
+    });
+
+    it('limits reaction size', () => {
+      const engine = new PatternEngine();
+      engine.add({
+        name: 'echo',
+        watch: '/**',
+        emit: 'echo',
+        emit_path: '/echo',
+        template: { copy: '${input}' },
+      });
+      const scroll = { key: '/in', type: 'text', data: 'x'.repeat(100) };
+      expect(engine.apply(scroll, { maxOutput: 200 })).toHaveLength(1);
+      expect(() => engine.apply(scroll, { maxOutput: 50 })).toThrow(/Pattern 'echo'.*output/);
+    });
+  });
+
   describe('applyPattern', () => {
     it('generates reaction scroll when matched', () => {
       const compiled = compilePattern({
@@ -383,6 +734,21 @@ describe('Pattern', () => {
       expect(applyPattern(compiled, scroll)).toBeNull();
     });
 
+    it('passes named captures into the template', () => {
+      const compiled = compilePattern({
+        name: 'named',
+        watch: '/**',
+        x: '(?<user>[a-z]+)@(?<domain>[a-z]+)',
+        emit: 'extracted@v1',
+        emit_path: '/users/${user}',
+        template: { domain: '${cap.domain}' },
+      });
+
+      const reaction = applyPattern(compiled, { key: '/m/1', type: 'm', data: 'to bob@corp' });
+      expect(reaction?.key).toBe('/users/bob');
+      expect(reaction?.data).toEqual({ domain: 'corp' });
+    });
+
     it('extracts captures with x', () => {
       const compiled = compilePattern({
         name: 'email-extractor',
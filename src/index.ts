@@ -41,9 +41,15 @@
  * // Core only (smaller bundle, no pattern engine)
  * import { x, pipe, sre } from '@obiverse/pike-sre/core';
  *
+ * // Commands only (smallest bundle)
+ * import { x, pipe } from '@obiverse/pike-sre/commands';
+ *
  * // Individual modules
  * import { compileGlob } from '@obiverse/pike-sre/glob';
  * import { PatternEngine } from '@obiverse/pike-sre/pattern';
+ *
+ * // Node only: run commands over files on disk
+ * import { editFiles } from '@obiverse/pike-sre/node';
  * ```
  *
  * @packageDocumentation
@@ -64,4 +70,10 @@ export {
   loggerPattern,
   emailExtractorPattern,
   typeIndexPattern,
+  UnsafePatternError,
 } from './pattern';
+export type { CompileOptions, EngineOptions, PatternDiagnostic } from './pattern';
+
+// Budgets, which PatternEngine.apply accepts
+export { BudgetExceededError } from './budget';
+export type { Budget, BudgetCulprit, BudgetLimit } from './budget';
@@ -0,0 +1,70 @@
+/**
+ * Benchmarks for literal sets
+ *
+ * Run with `npm run bench`. Each group compares one alternation regex over
+ * the whole set (longest strings first, so both find the same matches)
+ * with the Aho-Corasick matcher from `literals`.
+ */
+
+import { bench, describe } from 'vitest';
+import { c, x } from './commands';
+import { literals } from './literals';
+
+// Deterministic "customer names": two syllable words plus a surname
+const syllables = ['ka', 'lo', 'mi', 'ren', 'sa', 'tor', 'vi', 'del', 'an', 'bo', 'que', 'ri'];
+function name(i: number): string {
+  const pick = (n: number) => syllables[n % syllables.length];
+  return `${pick(i) + pick(i >> 2)} ${pick(i >> 4) + pick(i >> 6)}${pick(i >> 8)}`;
+}
+
+function alternation(set: string[]): RegExp {
+  const sorted = [...new Set(set)].sort((a, b) => b.length - a.length);
+  return new RegExp(sorted.map((s) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|'), 'g');
+}
+
+const words = Array.from({ length: 20_000 }, (_, i) =>
+  i % 7 === 0 ? name(i * 13) : syllables[i % 12],
+);
+const text = words.join(' ');
+
+for (const size of [100, 5000]) {
+  const set = Array.from({ length: size }, (_, i) => name(i));
+
+  describe(`redact ${size} names in ${text.length} characters`, () => {
+    const regexCmd = x(alternation(set), c('[NAME]'));
+    const literalCmd = x(literals(set), c('[NAME]'));
+
+    bench('regex alternation', () => {
+      regexCmd(text);
+    });
+
+    bench('literals', () => {
+      literalCmd(text);
+    });
+  });
+
+  describe(`build a matcher for ${size} names`, () => {
+    bench('regex alternation', () => {
+      alternation(set).exec('');
+    });
+
+    bench('literals', () => {
+      literals(set);
+    });
+  });
+}
+
+describe('case-insensitive whole words, 5000 names', () => {
+  const set = Array.from({ length: 5000 }, (_, i) => name(i));
+  const regexCmd = x(new RegExp(`\\b(?:${alternation(set).source})\\b`, 'gi'), c('[NAME]'));
+  const literalCmd = x(literals(set, { ignoreCase: true, wholeWord: true }), c('[NAME]'));
+  const upper = text.toUpperCase();
+
+  bench('regex alternation', () => {
+    regexCmd(upper);
+  });
+
+  bench('literals', () => {
+    literalCmd(upper);
+  });
+});
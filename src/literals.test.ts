@@ -0,0 +1,138 @@
+/**
+ * Tests for the literal set matcher
+ */
+
+import { describe, expect, it } from 'vitest';
+import { toAST } from './ast';
+import { withBudget } from './budget';
+import { c, commandLabel, d, findMatches, g, pipe, v, x, y } from './commands';
+import { sre } from './dsl';
+import { recordEdits } from './edits';
+import { literals } from './literals';
+import { formatSam } from './sam';
+import { streamCommand } from './stream';
+import { trace } from './trace';
+
+const regions = (matcher: ReturnType<typeof literals>, text: string) =>
+  findMatches(matcher, text).map((m) => [m.start, m.end]);
+
+// Leftmost-longest reference: an alternation tried longest first
+function reference(set: string[], text: string): number[][] {
+  const sorted = [...new Set(set)].filter(Boolean).sort((a, b) => b.length - a.length);
+  if (sorted.length === 0) return [];
+  const escaped = sorted.map((s) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  return findMatches(new RegExp(escaped.join('|')), text).map((m) => [m.start, m.end]);
+}
+
+describe('literals', () => {
+  it('finds leftmost-longest, non-overlapping matches', () => {
+    const matcher = literals(['he', 'she', 'hers', 'his']);
+    expect(regions(matcher, 'ushers his')).toEqual([
+      [1, 4],
+      [7, 10],
+    ]);
+    expect(regions(literals(['new york', 'york city', 'new']), 'new york city')).toEqual([[0, 8]]);
+    expect(regions(literals(['a', 'ab', 'abcd']), 'abcab')).toEqual([
+      [0, 2],
+      [3, 5],
+    ]);
+  });
+
+  it('agrees with a longest-first regex alternation on random input', () => {
+    let seed = 11;
+    const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+    const word = (max: number) =>
+      Array.from(
+        { length: 1 + Math.floor(random() * max) },
+        () => 'abc'[Math.floor(random() * 3)],
+      ).join('');
+    for (let round = 0; round < 300; round++) {
+      const set = Array.from({ length: 1 + Math.floor(random() * 6) }, () => word(4));
+      const text = word(30);
+      expect(regions(literals(set), text), `${set} in ${text}`).toEqual(reference(set, text));
+    }
+  });
+
+  it('follows fail links when the set is too large to tabulate', () => {
+    // 2100 distinct code units: the full transition table would be too big
+    const han = Array.from({ length: 2100 }, (_, i) => String.fromCharCode(0x4e00 + i));
+    const set = [...han.slice(100), '一丁七', '丁七万丈', '七万'];
+    const text = `a${han.slice(0, 120).join('')}一丁七万丈三`;
+    expect(regions(literals(set), text)).toEqual(reference(set, text));
+  });
+
+  it('matches case-insensitively, keeping the original text', () => {
+    const matcher = literals(['Ann Lee', 'İstanbul'], { ignoreCase: true });
+    expect(findMatches(matcher, 'ANN LEE and ann lee').map((m) => m.text)).toEqual([
+      'ANN LEE',
+      'ann lee',
+    ]);
+    expect(regions(matcher, 'x İSTANBUL ann lee')).toEqual([
+      [2, 10],
+      [11, 18],
+    ]);
+  });
+
+  it('matches whole words only', () => {
+    const matcher = literals(['cat', 'cat food', 'é'], { wholeWord: true });
+    expect(
+      findMatches(matcher, 'cat catalog bobcat cat_ cat food é café').map((m) => m.text),
+    ).toEqual(['cat', 'cat food', 'é']);
+    // A longer match that fails the boundary check does not hide a shorter one
+    expect(regions(literals(['ab', 'abc'], { wholeWord: true }), 'ab abcd')).toEqual([[0, 2]]);
+    expect(regions(literals(['ab', 'abc'], { wholeWord: true }), 'abc.')).toEqual([[0, 3]]);
+  });
+
+  it('ignores empty strings and handles empty sets', () => {
+    expect(findMatches(literals([]), 'abc')).toEqual([]);
+    expect(findMatches(literals(['', 'b']), 'abc')).toEqual([
+      { text: 'b', start: 1, end: 2, groups: ['b'] },
+    ]);
+    expect(literals(['', 'b', 'b']).label).toBe('literals(1)');
+    expect(literals(['a'], { ignoreCase: true, wholeWord: true }).label).toBe(
+      'literals(1, ignoreCase, wholeWord)',
+    );
+  });
+
+  it('plugs into x, y, g and v', () => {
+    const names = literals(['ann', 'bob'], { ignoreCase: true, wholeWord: true });
+    expect(x(names, c('[NAME]'))('Ann met bobby and BOB')).toBe('[NAME] met bobby and [NAME]');
+    expect(y(names, (gap) => gap.toUpperCase())('ann and bob')).toBe('ann AND bob');
+    expect(g(names, d())('hi bob')).toBe('');
+    expect(v(names, d())('hi bobby')).toBe('');
+    expect(sre('ann, bob').x(names).c('N').end().value()).toBe('N, N');
+  });
+
+  it('works with labels, budgets, traces and edit logs', () => {
+    const cmd = x(literals(['a', 'b']), c('_'));
+    expect(commandLabel(cmd)).toBe('x<literals(2)>');
+    expect(() => withBudget(cmd, { maxMatches: 2 })('abab')).toThrow(
+      "Command 'x<literals(2)>' exceeded its budget: more than 2 matches",
+    );
+    expect(trace(cmd, 'cab').trace.matches).toEqual([
+      { start: 1, end: 2 },
+      { start: 2, end: 3 },
+    ]);
+    expect(recordEdits(cmd, 'cab').edits.map((e) => [e.start, e.end])).toEqual([
+      [1, 2],
+      [2, 3],
+    ]);
+  });
+
+  it('has no AST or sam form', () => {
+    const cmd = pipe(x(literals(['a']), c('b')));
+    expect(() => toAST(cmd)).toThrow('$.commands[0].pattern: Matcher literals(1) has no AST form');
+    expect(formatSam(g(literals(['a']), d()))).toBe('g<literals(1)> d');
+  });
+
+  it('streams in line mode but not window mode', async () => {
+    async function* from(chunks: string[]): AsyncIterable<string> {
+      yield* chunks;
+    }
+    const cmd = x(literals(['secret']), c('***'));
+    let out = '';
+    for await (const chunk of streamCommand(from(['a secret\nno sec', 'ret']), cmd)) out += chunk;
+    expect(out).toBe('a ***\nno ***');
+    expect(() => streamCommand(from(['a']), cmd, { mode: 'window' })).toThrow(TypeError);
+  });
+});
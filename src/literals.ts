@@ -0,0 +1,285 @@
+/**
+ * Literals: match large sets of fixed strings with an Aho-Corasick automaton
+ *
+ * An alternation of thousands of strings is slow to compile and to run,
+ * and can exceed regex engine limits. `literals` builds an automaton over
+ * the set once; each search is then a single pass over the text, linear
+ * in its length however large the set is.
+ *
+ * The result is a `TextMatcher`, which `x`, `y`, `g`, `v` and
+ * `findMatches` accept in place of a RegExp. Matches are leftmost-longest
+ * and never overlap: in `'new york city'` the set `['new york', 'york city']`
+ * matches `new york` only.
+ *
+ * @module literals
+ */
+
+import type { Match, TextMatcher } from './types';
+
+/**
+ * Options for `literals`
+ */
+export interface LiteralsOptions {
+  /** Match regardless of case (default false) */
+  ignoreCase?: boolean;
+  /**
+   * Only match whole words: the characters around a match must not be
+   * letters, digits or `_` (default false)
+   */
+  wholeWord?: boolean;
+}
+
+/**
+ * Build a matcher for a set of literal strings.
+ *
+ * @param set - Strings to find; empty strings are ignored
+ * @param options - Case-insensitive and whole-word matching
+ * @returns A matcher to pass to `x`, `y`, `g`, `v` or `findMatches`
+ *
+ * @example
+ * const customers = literals(['Ann Lee', 'Bob Stone'], { ignoreCase: true, wholeWord: true });
+ * x(customers, c('[NAME]'))('ann lee called bob stone'); // => '[NAME] called [NAME]'
+ *
+ * @example
+ * // 'she' starts first, so the overlapping 'hers' is skipped
+ * findMatches(literals(['he', 'she', 'hers']), 'ushers');
+ * // => [{ text: 'she', start: 1, end: 4, groups: ['she'] }]
+ */
+export function literals(set: Iterable<string>, options: LiteralsOptions = {}): TextMatcher {
+  return new LiteralMatcher(set, options);
+}
+
+// Letters, digits (including combining marks) and underscore, as for \w
+const WORD = /[\p{L}\p{M}\p{N}_]/u;
+
+/**
+ * Progress of one scan through a text
+ */
+interface Cursor {
+  text: string;
+  /** The text as the automaton sees it (lowercased for ignoreCase) */
+  folded: string;
+  /** Longest end found so far for each pending start, indexed by start % longest */
+  ends: Int32Array;
+  /** Code units read */
+  consumed: number;
+  state: number;
+  /** Starts below this cannot be extended any more */
+  alive: number;
+  /** Whether the strings ending at `consumed` have been recorded */
+  recorded: boolean;
+  /** Smallest start that may still begin a match */
+  pending: number;
+  /** Non-zero entries of `ends` */
+  candidates: number;
+}
+
+// Largest transition table built (entries); bigger automata walk fail links instead
+const MAX_TABLE = 1 << 22;
+
+/**
+ * Aho-Corasick automaton over UTF-16 code units. Node 0 is the root.
+ */
+class LiteralMatcher implements TextMatcher {
+  readonly label: string;
+  private readonly ignoreCase: boolean;
+  private readonly wholeWord: boolean;
+  private readonly next: Map<number, number>[] = [new Map()];
+  private fail: number[] = [0];
+  private depth: number[] = [0];
+  /** Length of the longest string ending at each node (0 if none) */
+  private out: number[] = [0];
+  /** Nearest node on the fail chain that ends a string (-1 if none) */
+  private dict: number[] = [-1];
+  private readonly longest: number;
+  /** Alphabet class of each code unit; 0 for units no string contains */
+  private readonly classes = new Uint16Array(65536);
+  /** Full transition function, `table[node * width + class]`, when small enough */
+  private readonly table?: Int32Array;
+  private readonly width: number;
+
+  constructor(set: Iterable<string>, options: LiteralsOptions) {
+    this.ignoreCase = options.ignoreCase ?? false;
+    this.wholeWord = options.wholeWord ?? false;
+    const strings = new Set<string>();
+    for (const literal of set) {
+      if (literal !== '') strings.add(this.fold(literal));
+    }
+    const flags = [this.ignoreCase && 'ignoreCase', this.wholeWord && 'wholeWord'].filter(Boolean);
+    this.label = `literals(${[strings.size, ...flags].join(', ')})`;
+    let longest = 0;
+    let width = 1;
+    for (const literal of strings) {
+      for (let i = 0; i < literal.length; i++) {
+        const code = literal.charCodeAt(i);
+        if (this.classes[code] === 0) this.classes[code] = width++;
+      }
+      this.insert(literal);
+      longest = Math.max(longest, literal.length);
+    }
+    this.longest = longest;
+    this.width = width;
+    const order = this.link();
+    if (this.next.length * width <= MAX_TABLE) this.table = this.tabulate(order);
+  }
+
+  test(text: string): boolean {
+    for (const _ of this.scan(text)) return true;
+    return false;
+  }
+
+  *scan(text: string): Generator<Match> {
+    if (this.longest === 0) return;
+    const cursor: Cursor = {
+      text,
+      folded: this.fold(text),
+      ends: new Int32Array(this.longest),
+      consumed: 0,
+      state: 0,
+      alive: 0,
+      recorded: true,
+      pending: 0,
+      candidates: 0,
+    };
+    for (let match = this.advance(cursor); match; match = this.advance(cursor)) yield match;
+  }
+
+  /**
+   * Run the automaton until the next match is final: leftmost-longest, in
+   * order. A candidate is final once the state no longer reaches back to
+   * its start, so no later match can begin there or earlier.
+   */
+  private advance(cursor: Cursor): Match | undefined {
+    const { next, fail, depth, out, dict, longest, classes, table, width } = this;
+    const { text, folded, ends } = cursor;
+    let { consumed, state, alive, recorded, pending, candidates } = cursor;
+    const save = () =>
+      Object.assign(cursor, { consumed, state, alive, recorded, pending, candidates });
+
+    for (;;) {
+      // Starts before `alive` cannot grow any further
+      if (candidates === 0 && pending < alive) pending = alive;
+      while (pending < alive) {
+        const end = ends[pending % longest];
+        if (end === 0) {
+          pending++;
+          continue;
+        }
+        for (let start = pending; start < end; start++) {
+          const slot = start % longest;
+          if (ends[slot] !== 0) {
+            ends[slot] = 0;
+            candidates--;
+          }
+        }
+        const found = text.slice(pending, end);
+        const match: Match = { text: found, start: pending, end, groups: [found] };
+        pending = end;
+        save();
+        return match;
+      }
+
+      // Strings ending here become candidates for their start
+      if (!recorded) {
+        recorded = true;
+        for (let node = out[state] > 0 ? state : dict[state]; node !== -1; node = dict[node]) {
+          const start = consumed - out[node];
+          if (start < pending || !this.bounded(text, start, consumed)) continue;
+          const slot = start % longest;
+          if (ends[slot] === 0) candidates++;
+          if (ends[slot] < consumed) ends[slot] = consumed;
+        }
+      }
+
+      if (consumed === folded.length) {
+        if (alive === consumed) {
+          save();
+          return undefined;
+        }
+        alive = consumed;
+        continue;
+      }
+      const code = folded.charCodeAt(consumed++);
+      if (table) {
+        state = table[state * width + classes[code]];
+      } else {
+        while (state !== 0 && !next[state].has(code)) state = fail[state];
+        state = next[state].get(code) ?? 0;
+      }
+      alive = consumed - depth[state];
+      recorded = false;
+    }
+  }
+
+  private insert(literal: string): void {
+    let state = 0;
+    for (let i = 0; i < literal.length; i++) {
+      const code = literal.charCodeAt(i);
+      let child = this.next[state].get(code);
+      if (child === undefined) {
+        child = this.next.length;
+        this.next.push(new Map());
+        this.fail.push(0);
+        this.depth.push(this.depth[state] + 1);
+        this.out.push(0);
+        this.dict.push(-1);
+        this.next[state].set(code, child);
+      }
+      state = child;
+    }
+    this.out[state] = literal.length;
+  }
+
+  // Breadth-first, so fail links of shallower nodes are ready when needed.
+  // Returns the nodes in that order.
+  private link(): number[] {
+    const queue = [0];
+    for (let head = 0; head < queue.length; head++) {
+      const node = queue[head];
+      for (const [code, child] of this.next[node]) {
+        if (node !== 0) {
+          let fallback = this.fail[node];
+          while (fallback !== 0 && !this.next[fallback].has(code)) fallback = this.fail[fallback];
+          this.fail[child] = this.next[fallback].get(code) ?? 0;
+        }
+        const suffix = this.fail[child];
+        this.dict[child] = this.out[suffix] > 0 ? suffix : this.dict[suffix];
+        queue.push(child);
+      }
+    }
+    return queue;
+  }
+
+  // Resolve every (node, class) pair once, so scanning never follows fail links
+  private tabulate(order: number[]): Int32Array {
+    const { width, classes } = this;
+    const table = new Int32Array(this.next.length * width);
+    for (const node of order) {
+      const row = node * width;
+      if (node !== 0)
+        table.copyWithin(row, this.fail[node] * width, this.fail[node] * width + width);
+      for (const [code, child] of this.next[node]) table[row + classes[code]] = child;
+    }
+    return table;
+  }
+
+  private bounded(text: string, start: number, end: number): boolean {
+    if (!this.wholeWord) return true;
+    return (
+      !(start > 0 && WORD.test(text[start - 1])) && !(end < text.length && WORD.test(text[end]))
+    );
+  }
+
+  // Lowercase without changing offsets
+  private fold(text: string): string {
+    if (!this.ignoreCase) return text;
+    const lower = text.toLowerCase();
+    if (lower.length === text.length) return lower;
+    let folded = '';
+    for (const ch of text) {
+      const low = ch.toLowerCase();
+      folded += low.length === ch.length ? low : ch;
+    }
+    return folded;
+  }
+}
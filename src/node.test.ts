@@ -0,0 +1,182 @@
+/**
+ * Tests for the Node filesystem adapter
+ */
+
+import {
+  chmodSync,
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  readdirSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { c, s, x } from './commands';
+import { FileCommandError, Yfiles } from './files';
+import { editFiles, formatReport, nodeFileSystem } from './node';
+
+const project: Record<string, string> = {
+  'src/index.ts': 'var a = 1;\n',
+  'src/util/math.ts': 'const b = 2;\n',
+  'src/util/old.ts': 'var c = 3; var d = 4;\n',
+  'node_modules/dep/index.ts': 'var dep = 0;\n',
+  'README.md': 'Use var wisely.\n',
+};
+
+const letify = x(/\bvar\b/, c('let'));
+
+let root: string;
+
+beforeEach(() => {
+  root = mkdtempSync(join(tmpdir(), 'pike-sre-'));
+  for (const [path, contents] of Object.entries(project)) {
+    mkdirSync(dirname(join(root, path)), { recursive: true });
+    writeFileSync(join(root, path), contents);
+  }
+});
+
+afterEach(() => {
+  rmSync(root, { recursive: true, force: true });
+});
+
+const read = (path: string) => readFileSync(join(root, path), 'utf8');
+
+// Every file under dir, as '/'-separated paths
+function listFiles(dir: string, prefix = ''): string[] {
+  return readdirSync(dir, { withFileTypes: true }).flatMap((entry) =>
+    entry.isDirectory()
+      ? listFiles(join(dir, entry.name), `${prefix}${entry.name}/`)
+      : [`${prefix}${entry.name}`],
+  );
+}
+
+describe('nodeFileSystem', () => {
+  it('walks the tree in name order, skipping ignored paths', () => {
+    expect([...nodeFileSystem(root).paths()]).toEqual([
+      'README.md',
+      'src/index.ts',
+      'src/util/math.ts',
+      'src/util/old.ts',
+    ]);
+    expect([...nodeFileSystem(root, { ignore: ['src/util'] }).paths()]).toEqual([
+      'README.md',
+      'node_modules/dep/index.ts',
+      'src/index.ts',
+    ]);
+  });
+
+  it('works as a file set for Yfiles', () => {
+    const fs = nodeFileSystem(root);
+    const result = Yfiles('**/*.md', letify)(fs);
+    expect(result.changed).toEqual(['src/index.ts', 'src/util/old.ts']);
+    expect(fs.written).toEqual(['src/index.ts', 'src/util/old.ts']);
+    expect(read('src/util/old.ts')).toBe('let c = 3; let d = 4;\n');
+    expect(read('README.md')).toBe('Use var wisely.\n');
+  });
+});
+
+describe('editFiles', () => {
+  it('writes changed files atomically, leaving no temporary files', () => {
+    const report = editFiles(root, 'src/**/*.ts', letify);
+    expect(report.dryRun).toBe(false);
+    expect(report.changed).toEqual(['src/index.ts', 'src/util/old.ts']);
+    expect(report.written).toEqual(['src/index.ts', 'src/util/old.ts']);
+    expect(report.backups).toEqual([]);
+    expect(read('src/index.ts')).toBe('let a = 1;\n');
+    expect(read('src/util/math.ts')).toBe('const b = 2;\n');
+    expect(listFiles(root).sort()).toEqual(Object.keys(project).sort());
+  });
+
+  it('writes nothing in a dry run', () => {
+    const report = editFiles(root, 'src/**/*.ts', letify, { dryRun: true, backup: true });
+    expect(report.dryRun).toBe(true);
+    expect(report.changed).toEqual(['src/index.ts', 'src/util/old.ts']);
+    expect(report.written).toEqual([]);
+    expect(report.backups).toEqual([]);
+    expect(report.files.get('src/index.ts')).toBe('let a = 1;\n');
+    for (const [path, contents] of Object.entries(project)) expect(read(path)).toBe(contents);
+    expect(listFiles(root).sort()).toEqual(Object.keys(project).sort());
+  });
+
+  it('keeps backups of the originals', () => {
+    const report = editFiles(root, '**/*.md', s(/var/, 'const'), { backup: true });
+    expect(report.backups).toEqual(['README.md.bak']);
+    expect(read('README.md')).toBe('Use const wisely.\n');
+    expect(read('README.md.bak')).toBe('Use var wisely.\n');
+
+    editFiles(root, 'src/*.ts', letify, { backup: '.orig' });
+    expect(read('src/index.ts.orig')).toBe('var a = 1;\n');
+  });
+
+  it('keeps the mode of the files it replaces', () => {
+    chmodSync(join(root, 'src/index.ts'), 0o755);
+    editFiles(root, 'src/index.ts', letify);
+    expect(statSync(join(root, 'src/index.ts')).mode & 0o777).toBe(0o755);
+  });
+
+  it('writes nothing when the command fails on a file', () => {
+    const failing = (text: string) => {
+      if (text.includes('c = 3')) throw new Error('cannot parse');
+      return letify(text);
+    };
+    expect(() => editFiles(root, 'src/**', failing)).toThrow(FileCommandError);
+    expect(read('src/index.ts')).toBe('var a = 1;\n');
+  });
+});
+
+describe('formatReport', () => {
+  it('lists each selected file and a summary', () => {
+    const report = editFiles(root, 'src/**/*.ts', letify, { dryRun: true });
+    expect(formatReport(report)).toBe(
+      [
+        'M src/index.ts',
+        '  src/util/math.ts',
+        'M src/util/old.ts',
+        '2 of 3 files changed (dry run, nothing written)',
+        '',
+      ].join('\n'),
+    );
+    expect(formatReport(editFiles(root, '*.md', letify))).toBe(
+      'M README.md\n1 of 1 file changed\n',
+    );
+  });
+
+  it('appends unified diffs', () => {
+    const report = editFiles(root, 'src/*.ts', letify, { dryRun: true });
+    expect(formatReport(report, { diff: true })).toBe(
+      [
+        'M src/index.ts',
+        '1 of 1 file changed (dry run, nothing written)',
+        '',
+        '--- a/src/index.ts',
+        '+++ b/src/index.ts',
+        '@@ -1 +1 @@',
+        '-var a = 1;',
+        '+let a = 1;',
+        '',
+      ].join('\n'),
+    );
+  });
+});
+
+describe('core entrypoint', () => {
+  it('does not reach any Node module', () => {
+    const seen = new Set<string>();
+    const visit = (file: string) => {
+      if (seen.has(file)) return;
+      seen.add(file);
+      const source = readFileSync(join(__dirname, file), 'utf8');
+      for (const [, from] of source.matchAll(/^(?:import|export)\b[^;]*?\bfrom '([^']+)';/gm)) {
+        expect(from, `${file} imports ${from}`).toMatch(/^\.\//);
+        visit(`${from.slice(2)}.ts`);
+      }
+    };
+    visit('core.ts');
+    expect(seen.has('commands.ts')).toBe(true);
+    expect(seen.has('node.ts')).toBe(false);
+  });
+});
@@ -0,0 +1,228 @@
+/**
+ * Node: run commands over files on disk
+ *
+ * `nodeFileSystem` presents a directory tree as a `FileSystem` for
+ * `Xfiles` and `Yfiles` (see `files.ts`). Paths are relative to the root,
+ * with `/` separators, so globs read the same on every platform. Writes
+ * are atomic: the new contents go to a temporary file in the same
+ * directory, which is renamed over the original, so a crash never leaves
+ * a half-written file. Options:
+ *
+ * - dryRun: run the commands and report what would change, write nothing
+ * - backup: keep each original next to it (`file.ts.bak`) before replacing it
+ * - ignore: directories and files to skip while walking
+ *
+ * `editFiles` does it all in one call and returns a change report, which
+ * `formatReport` renders as text.
+ *
+ * Shipped as its own entrypoint (`@obiverse/pike-sre/node`) so the core
+ * stays free of Node imports.
+ *
+ * @module node
+ */
+
+import {
+  chmodSync,
+  copyFileSync,
+  readFileSync,
+  readdirSync,
+  renameSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from 'node:fs';
+import { basename, dirname, join, relative, resolve, sep } from 'node:path';
+import { diffText } from './diff';
+import { type FileSystem, type FilesResult, Xfiles } from './files';
+import { type GlobPattern, compileGlob } from './glob';
+import type { Command } from './types';
+
+/**
+ * Options for `nodeFileSystem` and `editFiles`
+ */
+export interface NodeFilesOptions {
+  /** Report what would change without writing anything (default false) */
+  dryRun?: boolean;
+  /**
+   * Copy each changed file before replacing it: true for a `.bak` suffix,
+   * or the suffix to use (default false)
+   */
+  backup?: boolean | string;
+  /** Globs of paths to skip while walking (default `['**\/node_modules', '**\/.git']`) */
+  ignore?: readonly string[];
+}
+
+/**
+ * A directory tree as a file set, recording what it writes
+ */
+export interface NodeFileSystem extends FileSystem {
+  /** Absolute path of the root directory */
+  readonly root: string;
+  readonly dryRun: boolean;
+  /** Paths written, or that would have been in a dry run */
+  readonly written: string[];
+  /** Paths of the backups made */
+  readonly backups: string[];
+}
+
+/**
+ * What `editFiles` changed, or would change in a dry run
+ */
+export interface ChangeReport extends FilesResult {
+  /** Absolute path of the root directory */
+  root: string;
+  dryRun: boolean;
+  /** Paths written (none in a dry run) */
+  written: string[];
+  /** Paths of the backups made */
+  backups: string[];
+}
+
+/**
+ * Options for `formatReport`
+ */
+export interface ReportFormatOptions {
+  /** Append a unified diff of each changed file (default false) */
+  diff?: boolean;
+}
+
+const DEFAULT_IGNORE = ['**/node_modules', '**/.git'];
+
+/**
+ * Present a directory tree as a file set for `Xfiles` and `Yfiles`.
+ *
+ * Symbolic links are not followed. Files are read and written as UTF-8.
+ *
+ * @param root - Directory to walk
+ * @param options - Dry run, backups and paths to skip
+ * @returns A file system rooted at `root`
+ *
+ * @example
+ * const fs = nodeFileSystem('.', { backup: true });
+ * Yfiles('**\/*.min.js', s(/[ \t]+$/gm, ''))(fs);
+ * fs.written; // => ['src/app.js', ...]
+ */
+export function nodeFileSystem(root: string, options: NodeFilesOptions = {}): NodeFileSystem {
+  const absolute = resolve(root);
+  const dryRun = options.dryRun ?? false;
+  const suffix = options.backup === true ? '.bak' : options.backup || undefined;
+  const ignore = (options.ignore ?? DEFAULT_IGNORE).map((glob) => compileGlob(glob));
+  const written: string[] = [];
+  const backups: string[] = [];
+  const full = (path: string) => join(absolute, ...path.split('/'));
+
+  return {
+    root: absolute,
+    dryRun,
+    written,
+    backups,
+    paths: () => walk(absolute, absolute, ignore),
+    read: (path) => readFileSync(full(path), 'utf8'),
+    write: (path, contents) => {
+      written.push(path);
+      if (dryRun) return;
+      const file = full(path);
+      if (suffix !== undefined) {
+        copyFileSync(file, file + suffix);
+        backups.push(path + suffix);
+      }
+      writeAtomic(file, contents);
+    },
+  };
+}
+
+/**
+ * Run a command on every file under `root` whose path matches a glob.
+ *
+ * @param root - Directory to walk
+ * @param pattern - Glob relative to `root`, e.g. `'src/**\/*.ts'`
+ * @param cmd - Command to run on the contents of each selected file
+ * @param options - Dry run, backups and paths to skip
+ * @returns The change report
+ * @throws {FileCommandError} When the command throws on a file; nothing is written
+ *
+ * @example
+ * const report = editFiles('.', 'src/**\/*.ts', x(/\bvar\b/, c('let')), { dryRun: true });
+ * console.log(formatReport(report, { diff: true }));
+ */
+export function editFiles(
+  root: string,
+  pattern: string | GlobPattern,
+  cmd: Command,
+  options: NodeFilesOptions = {},
+): ChangeReport {
+  const fs = nodeFileSystem(root, options);
+  const result = Xfiles(pattern, cmd)(fs);
+  return {
+    ...result,
+    root: fs.root,
+    dryRun: fs.dryRun,
+    written: fs.dryRun ? [] : fs.written,
+    backups: fs.backups,
+  };
+}
+
+/**
+ * Render a change report as text: one line per selected file, then a summary.
+ *
+ * @param report - Report from `editFiles`
+ * @param options - Whether to include diffs
+ * @returns The report text
+ *
+ * @example
+ * formatReport(report);
+ * // M src/a.ts
+ * //   src/b.ts
+ * // 1 of 2 files changed (dry run, nothing written)
+ */
+export function formatReport(report: ChangeReport, options: ReportFormatOptions = {}): string {
+  const lines = report.results.map((result) => `${result.changed ? 'M' : ' '} ${result.path}`);
+  const total = report.results.length;
+  const note = report.dryRun ? ' (dry run, nothing written)' : '';
+  lines.push(`${report.changed.length} of ${total} file${total === 1 ? '' : 's'} changed${note}`);
+  if (options.diff) {
+    for (const result of report.results) {
+      if (!result.changed) continue;
+      const { text } = diffText(result.input, result.output, {
+        fromFile: `a/${result.path}`,
+        toFile: `b/${result.path}`,
+      });
+      lines.push('', text.replace(/\n$/, ''));
+    }
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+// ============================================================
+// Helpers
+// ============================================================
+
+// Files under dir, depth first in name order, as '/'-separated paths from root
+function* walk(root: string, dir: string, ignore: readonly GlobPattern[]): Generator<string> {
+  const entries = readdirSync(dir, { withFileTypes: true }).sort((a, b) =>
+    a.name < b.name ? -1 : a.name > b.name ? 1 : 0,
+  );
+  for (const entry of entries) {
+    const full = join(dir, entry.name);
+    const path = relative(root, full).split(sep).join('/');
+    if (ignore.some((glob) => glob.matches(path))) continue;
+    if (entry.isDirectory()) yield* walk(root, full, ignore);
+    else if (entry.isFile()) yield path;
+  }
+}
+
+let temporaries = 0;
+
+// Write next to the file, then rename over it; keeps the file's mode
+function writeAtomic(file: string, contents: string): void {
+  const { mode } = statSync(file);
+  const temp = join(dirname(file), `.${basename(file)}.${process.pid}.${temporaries++}.tmp`);
+  try {
+    writeFileSync(temp, contents, { mode });
+    chmodSync(temp, mode);
+    renameSync(temp, file);
+  } catch (error) {
+    rmSync(temp, { force: true });
+    throw error;
+  }
+}
@@ -0,0 +1,278 @@
+/**
+ * Tests for the pipeline optimizer
+ *
+ * Besides the rewrites themselves, a randomized harness checks that every
+ * pass gives the same output as the unoptimized pipeline.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { type CommandAST, compile, toAST } from './ast';
+import { c, d, g, ifMatch, l, n, p, pipe, s, v, x, xFirst, y } from './commands';
+import { type OptimizationPass, optimize } from './optimize';
+import type { Command } from './types';
+
+// Small deterministic PRNG (mulberry32) so failures reproduce
+function random(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const ALPHABET = 'aAbB019 -.@x\n';
+// Fewer characters, so runs that a deletion could join come up often
+const NARROW_ALPHABET = 'ab1 -@';
+
+function randomInput(rand: () => number): string {
+  const alphabet = rand() < 0.5 ? ALPHABET : NARROW_ALPHABET;
+  const length = Math.floor(rand() * 30);
+  let text = '';
+  for (let i = 0; i < length; i++) text += alphabet[Math.floor(rand() * alphabet.length)];
+  return text;
+}
+
+const PATTERNS = [
+  /a+/,
+  /\d+/,
+  /b/i,
+  /[ab]/,
+  /\s+/,
+  /-/,
+  /x|@/,
+  /^a/m,
+  /\w+/,
+  /(a)\1/,
+  /\b\d/,
+  /1?/,
+];
+const TEXTS = ['', 'N', 'a', '-', '1', '[x]', 'é'];
+// Mostly disjoint patterns, so chains of them are often mergeable
+const CHAIN_PATTERNS = [/a+/, /\d+/, /b/i, / +/, /-/, /x|@/, /\n/, /[.]/];
+// Replacements in chains, deletions among them
+const CHAIN_TEXTS = ['', 'N', '_', '[x]'];
+
+function pick<T>(rand: () => number, items: readonly T[]): T {
+  return items[Math.floor(rand() * items.length)];
+}
+
+// Random pipelines biased towards shapes the optimizer rewrites
+function randomCommand(rand: () => number, depth: number): Command {
+  const leaf = () => pick(rand, [p(), d(), c(pick(rand, TEXTS))]);
+  if (depth === 0) return leaf();
+  const inner = () => randomCommand(rand, depth - 1);
+  const pattern = () => pick(rand, PATTERNS);
+  switch (Math.floor(rand() * 12)) {
+    case 0:
+      return leaf();
+    case 1:
+      return x(pattern(), rand() < 0.6 ? c(pick(rand, TEXTS)) : inner());
+    case 2:
+      return s(pattern(), pick(rand, [...TEXTS, '$&$&']));
+    case 3:
+      return y(pattern(), inner());
+    case 4:
+    case 5: {
+      const guard = pattern();
+      const body = rand() < 0.5 ? g(guard, inner()) : v(guard, inner());
+      return pick(rand, [g, v])(guard, rand() < 0.5 ? body : pipe(body, inner()));
+    }
+    case 6: {
+      const guard = pattern();
+      return ifMatch(guard, g(guard, inner()), v(guard, inner()));
+    }
+    case 7:
+      return xFirst(pattern(), inner());
+    case 8:
+      return pick(rand, [n(1, -1, inner()), l(0, 1, inner())]);
+    case 9:
+    case 10: {
+      const replacement = pick(rand, ['#', 'a', '']);
+      const step = () =>
+        rand() < 0.5
+          ? x(pick(rand, CHAIN_PATTERNS), c(pick(rand, CHAIN_TEXTS)))
+          : s(pick(rand, CHAIN_PATTERNS), replacement);
+      return pipe(...Array.from({ length: 2 + Math.floor(rand() * 3) }, step));
+    }
+    default:
+      return pipe(...Array.from({ length: 1 + Math.floor(rand() * 4) }, inner));
+  }
+}
+
+const PASSES: OptimizationPass[] = [
+  'remove-noops',
+  'merge-substitutions',
+  'fuse-constants',
+  'short-circuit-guards',
+];
+
+function expectEquivalent(ast: CommandAST, passes: OptimizationPass[], seed: number): void {
+  const rand = random(seed);
+  const original = compile(ast);
+  const optimized = compile(optimize(ast, { passes }));
+  for (let i = 0; i < 50; i++) {
+    const input = randomInput(rand);
+    expect(optimized(input), `${JSON.stringify(ast)} on ${JSON.stringify(input)}`).toBe(
+      original(input),
+    );
+  }
+}
+
+describe('optimize', () => {
+  describe('remove-noops', () => {
+    const passes: OptimizationPass[] = ['remove-noops'];
+
+    it('flattens pipes and drops p()', () => {
+      const ast = toAST(pipe(p(), pipe(s(/a/, 'b'), p()), x(/\d/, p()), g(/z/, pipe())));
+      expect(optimize(ast, { passes })).toEqual({
+        op: 's',
+        pattern: { source: 'a' },
+        replacement: 'b',
+      });
+      expect(optimize(toAST(pipe()), { passes })).toEqual({ op: 'p' });
+    });
+
+    it('keeps xFirst, which drops text around its match', () => {
+      const ast = toAST(xFirst(/a/, p()));
+      expect(optimize(ast, { passes })).toEqual(ast);
+    });
+  });
+
+  describe('merge-substitutions', () => {
+    const passes: OptimizationPass[] = ['merge-substitutions'];
+
+    it('merges independent substitutions with the same replacement', () => {
+      const ast = toAST(pipe(s(/\d+/, '#'), s(/[a-z]+/g, '#'), s(/@/, '#')));
+      expect(optimize(ast, { passes })).toEqual({
+        op: 'pipe',
+        commands: [{ op: 's', pattern: { source: '(?:\\d+)|(?:[a-z]+)|(?:@)' }, replacement: '#' }],
+      });
+    });
+
+    it('keeps substitutions that could see each other', () => {
+      const unchanged = [
+        pipe(s(/\d/, '#'), s(/\w/, '#')), // overlapping characters
+        pipe(s(/a/, 'b'), s(/b/, 'b')), // second matches the first's output
+        pipe(s(/a/, '$&'), s(/b/, '$&')), // replacement patterns
+        pipe(s(/^a/, '#'), s(/b/, '#')), // anchors
+        pipe(s(/a/, '#'), s(/b/i, '#')), // different flags
+        pipe(s(/a/, '#'), s(/b*/, '#')), // empty matches
+        pipe(s(/a/, ''), s(/bb/, '')), // deleting 'a' from 'bab' makes 'bb'
+      ];
+      for (const cmd of unchanged) {
+        const ast = toAST(cmd);
+        expect(optimize(ast, { passes })).toEqual(ast);
+      }
+    });
+  });
+
+  describe('fuse-constants', () => {
+    const passes: OptimizationPass[] = ['fuse-constants'];
+
+    it('fuses x(re, c(k)) chains into one scan', () => {
+      const ast = toAST(pipe(x(/\d+/, c('N')), x(/[a-z]+/, c('W'))));
+      expect(optimize(ast, { passes })).toEqual({
+        op: 'pipe',
+        commands: [
+          {
+            op: 'x',
+            pattern: { source: '(?:\\d+)|(?:[a-z]+)' },
+            cmd: {
+              op: 'ifMatch',
+              pattern: { source: '^(?:\\d+)$' },
+              then: { op: 'c', text: 'N' },
+              else: { op: 'c', text: 'W' },
+            },
+          },
+        ],
+      });
+    });
+
+    it('uses a single constant when all agree', () => {
+      const ast = toAST(pipe(x(/\d/i, c('?')), x(/-/i, c('?'))));
+      expect(optimize(ast, { passes })).toEqual({
+        op: 'pipe',
+        commands: [
+          {
+            op: 'x',
+            pattern: { source: '(?:\\d)|(?:-)', flags: 'i' },
+            cmd: { op: 'c', text: '?' },
+          },
+        ],
+      });
+    });
+
+    it('stops a run at a step that could match earlier output', () => {
+      const ast = toAST(pipe(x(/\d/, c('N')), x(/[A-Z]/, c('U')), x(/-/, c('_'))));
+      const optimized = optimize(ast, { passes });
+      expect(optimized.op === 'pipe' && optimized.commands.map((step) => step.op)).toEqual([
+        'x',
+        'x',
+      ]);
+    });
+
+    it('stops a run after a step that deletes', () => {
+      const cmd = pipe(x(/a/, c('')), x(/b+/, c('Y')));
+      const ast = toAST(cmd);
+      expect(optimize(ast, { passes })).toEqual(ast);
+      expect(compile(optimize(ast))('bab')).toBe(cmd('bab'));
+      expect(cmd('bab')).toBe('Y');
+    });
+  });
+
+  describe('short-circuit-guards', () => {
+    const passes: OptimizationPass[] = ['short-circuit-guards', 'remove-noops'];
+
+    it('drops repeated tests of the same pattern', () => {
+      expect(optimize(toAST(g(/a/, g(/a/, c('X')))), { passes })).toEqual(toAST(g(/a/, c('X'))));
+      expect(optimize(toAST(v(/a/, pipe(v(/a/, d()), s(/b/, 'c')))), { passes })).toEqual(
+        toAST(v(/a/, pipe(d(), s(/b/, 'c')))),
+      );
+      expect(optimize(toAST(g(/a/, v(/a/, d()))), { passes })).toEqual({ op: 'p' });
+      expect(
+        optimize(toAST(ifMatch(/a/, ifMatch(/a/, c('1'), c('2')), g(/a/, d()))), { passes }),
+      ).toEqual(toAST(ifMatch(/a/, c('1'), p())));
+    });
+
+    it('keeps tests of stateful patterns', () => {
+      const ast = toAST(g(/a/g, g(/a/g, c('X'))));
+      expect(optimize(ast, { passes })).toEqual(ast);
+    });
+  });
+
+  it('does not modify its input', () => {
+    const ast = toAST(pipe(p(), x(/\d/, c('N')), x(/-/, c('_'))));
+    const copy = structuredClone(ast);
+    optimize(ast);
+    expect(ast).toEqual(copy);
+  });
+});
+
+describe('optimizer equivalence harness', () => {
+  it('each pass preserves the output of random pipelines', () => {
+    const rand = random(2024);
+    for (let i = 0; i < 150; i++) {
+      const ast = toAST(randomCommand(rand, 3));
+      for (const pass of PASSES) expectEquivalent(ast, [pass], i);
+      expectEquivalent(ast, PASSES, i);
+    }
+  });
+
+  it('preserves the output of mergeable chains', () => {
+    const chains = [
+      pipe(s(/\d+/, '#'), s(/[a-z]+/, '#'), s(/@/, '#')),
+      pipe(s(/a+/i, '*'), s(/\d/i, '*'), s(/ /, '*')),
+      pipe(x(/\d+/, c('N')), x(/[ab]+/, c('W')), x(/ +/, c('_')), x(/@|x/, c(''))),
+      pipe(x(/@|x/, c('')), x(/\d+/, c('N')), x(/a+/, c('W'))),
+      pipe(s(/-/, ''), s(/ +/, ''), s(/\d+/, '')),
+      pipe(x(/a/, c('b')), x(/b/, c('a'))),
+      pipe(x(/\d/, c('é')), x(/[^\d]/u, c('.'))),
+      pipe(g(/a/, g(/a/, s(/a/, 'b'))), v(/1/, pipe(v(/1/, d()), p()))),
+    ];
+    chains.forEach((cmd, i) => {
+      expectEquivalent(toAST(cmd), PASSES, i);
+    });
+  });
+});
@@ -0,0 +1,344 @@
+/**
+ * Optimize: rewrite command ASTs into cheaper equivalent pipelines
+ *
+ * Each pass only rewrites when the result provably gives the same output
+ * for every input:
+ *
+ * - remove-noops: flattens nested pipes and drops `p()` and commands that
+ *   only run `p()` (`x(re, p())`, `g(re, p())`, ...)
+ * - merge-substitutions: joins adjacent `s()` calls with the same literal
+ *   replacement into one alternation
+ * - fuse-constants: joins adjacent `x(re, c(k))` steps into one scan over
+ *   an alternation, dispatching to the right constant per match
+ * - short-circuit-guards: drops `g`/`v`/`ifMatch` tests that repeat the
+ *   test of an enclosing guard with the same pattern
+ *
+ * Merging two scans into one is only safe when the second pattern cannot
+ * see the first step's effects. The merge passes therefore require plain
+ * patterns (no anchors, lookarounds, backreferences or named groups, never
+ * empty) whose characters are disjoint from each other and from the
+ * replacement text of earlier steps, and no step may follow one that
+ * deletes its matches. Anything else is left as written.
+ *
+ * @module optimize
+ */
+
+import type { CommandAST, PatternAST } from './ast';
+import {
+  type CharRange,
+  type RegexNode,
+  consumed,
+  normalizeRanges,
+  nullable,
+  parseRegex,
+  rangesIntersect,
+} from './regex';
+
+/**
+ * An optimization that `optimize` can apply
+ */
+export type OptimizationPass =
+  | 'remove-noops'
+  | 'merge-substitutions'
+  | 'fuse-constants'
+  | 'short-circuit-guards';
+
+/**
+ * Options for `optimize`
+ */
+export interface OptimizeOptions {
+  /** Passes to run (default: all) */
+  passes?: readonly OptimizationPass[];
+}
+
+const ALL_PASSES: readonly OptimizationPass[] = [
+  'remove-noops',
+  'merge-substitutions',
+  'fuse-constants',
+  'short-circuit-guards',
+];
+
+/**
+ * Optimize a command AST.
+ *
+ * @param ast - Pipeline to optimize (see `toAST`)
+ * @param options - Which passes to run
+ * @returns An equivalent AST; the input is not modified
+ *
+ * @example
+ * optimize(toAST(pipe(
+ *   x(/\d+/, c('N')),
+ *   x(/[a-z]+/, c('W')),
+ *   p(),
+ * )));
+ * // => { op: 'x', pattern: { source: '(?:\\d+)|(?:[a-z]+)' },
+ * //      cmd: { op: 'ifMatch', pattern: { source: '^(?:\\d+)$' },
+ * //             then: { op: 'c', text: 'N' }, else: { op: 'c', text: 'W' } } }
+ */
+export function optimize(ast: CommandAST, options: OptimizeOptions = {}): CommandAST {
+  return new Optimizer(new Set(options.passes ?? ALL_PASSES)).visit(ast);
+}
+
+const NOOP: CommandAST = { op: 'p' };
+
+class Optimizer {
+  constructor(private readonly passes: ReadonlySet<OptimizationPass>) {}
+
+  // Bottom-up: children first, then rewrites of the node itself
+  visit(node: CommandAST): CommandAST {
+    switch (node.op) {
+      case 'pipe':
+        return this.pipe(node.commands.map((step) => this.visit(step)));
+      case 'x':
+      case 'y':
+      case 'xFirst':
+      case 'n':
+      case 'l':
+        return this.selection({ ...node, cmd: this.visit(node.cmd) });
+      case 'at':
+        return { ...node, cmd: this.visit(node.cmd) };
+      case 'xAny':
+        return {
+          ...node,
+          branches: node.branches.map((branch) => ({ ...branch, cmd: this.visit(branch.cmd) })),
+        };
+      case 'g':
+      case 'v':
+        return this.guard({ ...node, cmd: this.visit(node.cmd) });
+      case 'ifMatch':
+        return this.guard({ ...node, then: this.visit(node.then), else: this.visit(node.else) });
+      default:
+        return node;
+    }
+  }
+
+  private pipe(steps: CommandAST[]): CommandAST {
+    let commands = steps;
+    if (this.passes.has('remove-noops')) {
+      commands = commands.flatMap((step) =>
+        step.op === 'pipe' ? step.commands : step.op === 'p' ? [] : [step],
+      );
+    }
+    if (this.passes.has('merge-substitutions')) commands = mergeRuns(commands, substitution);
+    if (this.passes.has('fuse-constants')) commands = mergeRuns(commands, constant);
+    if (this.passes.has('remove-noops') && commands.length <= 1) return commands[0] ?? NOOP;
+    return { op: 'pipe', commands };
+  }
+
+  // x and y that only run p() on their regions keep the text as is
+  // (not n and l: a start past the end repeats the text in between)
+  private selection(node: CommandAST): CommandAST {
+    if (
+      this.passes.has('remove-noops') &&
+      (node.op === 'x' || node.op === 'y') &&
+      node.cmd.op === 'p'
+    ) {
+      return NOOP;
+    }
+    return node;
+  }
+
+  private guard(node: CommandAST): CommandAST {
+    let result = node;
+    if (this.passes.has('short-circuit-guards') && 'pattern' in node && stateless(node.pattern)) {
+      const { pattern } = node;
+      if (node.op === 'g') result = { ...node, cmd: this.assume(node.cmd, pattern, true) };
+      if (node.op === 'v') result = { ...node, cmd: this.assume(node.cmd, pattern, false) };
+      if (node.op === 'ifMatch') {
+        result = {
+          ...node,
+          then: this.assume(node.then, pattern, true),
+          else: this.assume(node.else, pattern, false),
+        };
+      }
+    }
+    if (!this.passes.has('remove-noops')) return result;
+    if ((result.op === 'g' || result.op === 'v') && result.cmd.op === 'p') return NOOP;
+    if (result.op === 'ifMatch' && result.then.op === 'p' && result.else.op === 'p') return NOOP;
+    return result;
+  }
+
+  // Simplify a command whose input is known to (not) match the pattern
+  private assume(node: CommandAST, pattern: PatternAST, matched: boolean): CommandAST {
+    if (node.op === 'pipe') {
+      if (node.commands.length === 0) return node;
+      const [first, ...rest] = node.commands;
+      return this.pipe([this.assume(first, pattern, matched), ...rest]);
+    }
+    if (!('pattern' in node) || !samePattern(node.pattern, pattern)) return node;
+    switch (node.op) {
+      case 'g':
+        return matched ? this.assume(node.cmd, pattern, matched) : NOOP;
+      case 'v':
+        return matched ? NOOP : this.assume(node.cmd, pattern, matched);
+      case 'ifMatch':
+        return this.assume(matched ? node.then : node.else, pattern, matched);
+      default:
+        return node;
+    }
+  }
+}
+
+// test() on a pattern without g or y does not depend on earlier calls
+function stateless(pattern: PatternAST): boolean {
+  return !/[gy]/.test(pattern.flags ?? '');
+}
+
+function samePattern(a: PatternAST, b: PatternAST): boolean {
+  return a.source === b.source && (a.flags ?? '') === (b.flags ?? '');
+}
+
+// ============================================================
+// Merging scans
+// ============================================================
+
+/**
+ * A step that can join a single-scan run: its pattern and the text it
+ * writes in place of each match
+ */
+interface Mergeable {
+  node: CommandAST;
+  pattern: Plain;
+  /** Replacement for each match */
+  text: string;
+}
+
+/**
+ * A pattern that matches the same text wherever it appears
+ */
+interface Plain {
+  source: string;
+  /** Flags without g */
+  flags: string;
+  chars: CharRange[];
+}
+
+// s(re, literal) where all s steps of a run share the replacement
+function substitution(node: CommandAST): Mergeable | undefined {
+  if (node.op !== 's' || node.replacement.includes('$')) return undefined;
+  const pattern = plain(node.pattern);
+  return pattern && { node, pattern, text: node.replacement };
+}
+
+// x(re, c(k))
+function constant(node: CommandAST): Mergeable | undefined {
+  if (node.op !== 'x' || node.cmd.op !== 'c') return undefined;
+  const pattern = plain(node.pattern);
+  return pattern && { node, pattern, text: node.cmd.text };
+}
+
+/**
+ * Join runs of adjacent mergeable steps into single scans.
+ * A step joins the run when its pattern cannot match any character that
+ * earlier steps of the run match or write, and no earlier step deletes:
+ * a deletion joins the text on either side, where a later step may match
+ * across the gap.
+ */
+function mergeRuns(
+  commands: CommandAST[],
+  classify: (node: CommandAST) => Mergeable | undefined,
+): CommandAST[] {
+  const out: CommandAST[] = [];
+  let run: Mergeable[] = [];
+  let seen: CharRange[] = [];
+
+  const flush = () => {
+    if (run.length > 0) out.push(run.length === 1 ? run[0].node : fuse(run));
+    run = [];
+    seen = [];
+  };
+
+  for (const node of commands) {
+    const step = classify(node);
+    if (!step) {
+      flush();
+      out.push(node);
+      continue;
+    }
+    const first = run[0];
+    const joins =
+      first !== undefined &&
+      step.pattern.flags === first.pattern.flags &&
+      (node.op !== 's' || step.text === first.text) &&
+      !run.some((earlier) => earlier.text === '') &&
+      !rangesIntersect(step.pattern.chars, seen);
+    if (!joins) flush();
+    run.push(step);
+    seen = normalizeRanges([
+      ...seen,
+      ...step.pattern.chars,
+      ...textChars(step.text, step.pattern.flags.includes('u')),
+    ]);
+  }
+  flush();
+  return out;
+}
+
+function fuse(run: Mergeable[]): CommandAST {
+  const { flags } = run[0].pattern;
+  const pattern = patternAST(run.map((step) => `(?:${step.pattern.source})`).join('|'), flags);
+  if (run[0].node.op === 's') {
+    return { op: 's', pattern, replacement: run[0].text };
+  }
+  if (run.every((step) => step.text === run[0].text)) {
+    return { op: 'x', pattern, cmd: { op: 'c', text: run[0].text } };
+  }
+  // Each match comes from exactly one alternative, which matches it whole
+  const last = run[run.length - 1];
+  const cmd = run.slice(0, -1).reduceRight<CommandAST>(
+    (rest, step) => ({
+      op: 'ifMatch',
+      pattern: patternAST(`^(?:${step.pattern.source})$`, flags),
+      then: { op: 'c', text: step.text },
+      else: rest,
+    }),
+    { op: 'c', text: last.text },
+  );
+  return { op: 'x', pattern, cmd };
+}
+
+function patternAST(source: string, flags: string): PatternAST {
+  return flags ? { source, flags } : { source };
+}
+
+// Characters a replacement writes, in the units the pattern matches
+function textChars(text: string, unicode: boolean): CharRange[] {
+  const units = unicode
+    ? [...text].map((ch) => ch.codePointAt(0)!)
+    : Array.from(text, (_, i) => text.charCodeAt(i));
+  return normalizeRanges(units.map((code): CharRange => [code, code]));
+}
+
+function plain(pattern: PatternAST): Plain | undefined {
+  const flags = (pattern.flags ?? '').replace('g', '');
+  if (flags.includes('y')) return undefined;
+  let node: RegexNode;
+  try {
+    const parsed = parseRegex(pattern.source, flags);
+    if (Object.keys(parsed.names).length > 0) return undefined;
+    node = parsed.node;
+  } catch {
+    return undefined;
+  }
+  if (nullable(node) || !contextFree(node)) return undefined;
+  return { source: pattern.source, flags, chars: consumed(node) };
+}
+
+// No anchors, lookarounds or backreferences: the match depends only on the matched text
+function contextFree(node: RegexNode): boolean {
+  switch (node.type) {
+    case 'assert':
+    case 'look':
+    case 'backref':
+      return false;
+    case 'group':
+    case 'repeat':
+      return contextFree(node.body);
+    case 'concat':
+      return node.items.every(contextFree);
+    case 'alt':
+      return node.options.every(contextFree);
+    default:
+      return true;
+  }
+}
@@ -11,23 +11,121 @@
  * - template: output data template
  */
 
+import { type Budget, Meter } from './budget';
+import { compileRegex } from './cache';
+import { namedGroups } from './commands';
 import { compileGlob } from './glob';
+import type { RegexDiagnostic } from './safety';
 import { parsePath, substituteString, substituteValue } from './template';
 import type { CompiledPattern, PatternDef, Scroll } from './types';
 
+/**
+ * Options for compiling pattern definitions
+ */
+export interface CompileOptions {
+  /**
+   * Check the x, g and v regexes for catastrophic backtracking:
+   * - 'off' (default): no check
+   * - 'warn': report every finding through `onWarning`
+   * - 'reject': throw `UnsafePatternError` on errors, report warnings
+   *   through `onWarning` when given
+   */
+  safety?: 'off' | 'warn' | 'reject';
+  /**
+   * The analyzer the check runs, required unless `safety` is 'off':
+   * `analyzeRegex` from `@obiverse/pike-sre/safety`. Passing it keeps the
+   * analyzer out of bundles that never check.
+   */
+  analyze?: (source: string) => RegexDiagnostic[];
+  /** Receives safety findings, required when `safety` is 'warn' */
+  onWarning?: (diagnostic: PatternDiagnostic) => void;
+}
+
+/**
+ * Options for a `PatternEngine`
+ */
+export interface EngineOptions extends CompileOptions {
+  /** Default budget for every `apply` call */
+  budget?: Budget;
+}
+
+/**
+ * A safety finding for one regex of a pattern definition
+ */
+export interface PatternDiagnostic extends RegexDiagnostic {
+  /** Name of the pattern definition */
+  pattern: string;
+  /** Which regex the finding is in */
+  field: 'x' | 'g' | 'v';
+}
+
+/**
+ * Error raised by `compilePattern` with `safety: 'reject'` when a regex
+ * can backtrack catastrophically
+ */
+export class UnsafePatternError extends Error {
+  readonly diagnostics: PatternDiagnostic[];
+
+  constructor(diagnostics: PatternDiagnostic[]) {
+    super(diagnostics.map(formatDiagnostic).join('\n'));
+    this.name = 'UnsafePatternError';
+    this.diagnostics = diagnostics;
+  }
+}
+
+function formatDiagnostic(d: PatternDiagnostic): string {
+  return `Pattern '${d.pattern}' ${d.field}: ${d.message} at ${d.start}-${d.end}`;
+}
+
+function checkSafety(def: PatternDef, options: CompileOptions): void {
+  const { safety = 'off', analyze, onWarning } = options;
+  if (safety === 'off') return;
+  if (!analyze) {
+    throw new TypeError(
+      `safety: '${safety}' needs an analyze function, e.g. analyzeRegex from '@obiverse/pike-sre/safety'`,
+    );
+  }
+  if (safety === 'warn' && !onWarning) {
+    throw new TypeError("safety: 'warn' needs an onWarning callback");
+  }
+
+  const findings: PatternDiagnostic[] = [];
+  for (const field of ['x', 'g', 'v'] as const) {
+    const source = def[field];
+    if (!source) continue;
+    for (const diagnostic of analyze(source)) {
+      findings.push({ ...diagnostic, pattern: def.name, field });
+    }
+  }
+
+  const errors = safety === 'reject' ? findings.filter((d) => d.severity === 'error') : [];
+  if (errors.length > 0) throw new UnsafePatternError(errors);
+  for (const finding of findings) onWarning?.(finding);
+}
+
 /**
  * Compile a pattern definition into an executable pattern
+ *
+ * @throws {UnsafePatternError} With `safety: 'reject'`, when a regex can
+ *   backtrack catastrophically
+ * @throws {TypeError} When `safety` is on without `analyze`, or 'warn'
+ *   without `onWarning`
+ *
+ * @example
+ * import { analyzeRegex } from '@obiverse/pike-sre/safety';
+ * compilePattern(def, { safety: 'reject', analyze: analyzeRegex });
  */
-export function compilePattern(def: PatternDef): CompiledPattern {
+export function compilePattern(def: PatternDef, options: CompileOptions = {}): CompiledPattern {
+  checkSafety(def, options);
   const glob = compileGlob(def.watch);
 
   return {
     name: def.name,
     watch: def.watch,
     watchMatcher: glob.matches,
-    x: def.x ? new RegExp(def.x) : undefined,
-    g: def.g ? new RegExp(def.g) : undefined,
-    v: def.v ? new RegExp(def.v) : undefined,
+    x: def.x ? compileRegex(def.x) : undefined,
+    g: def.g ? compileRegex(def.g) : undefined,
+    v: def.v ? compileRegex(def.v) : undefined,
     emit: def.emit,
     emit_path: def.emit_path,
     template: def.template,
@@ -60,10 +158,12 @@ export function applyPattern(pattern: CompiledPattern, scroll: Scroll): Scroll |
 
   // 4. Extract captures if x is defined
   let captures: string[] = [];
+  let namedCaptures: Record<string, string> | undefined;
   if (pattern.x) {
     const match = dataStr.match(pattern.x);
     if (match) {
       captures = [...match];
+      namedCaptures = match.groups && namedGroups(match.groups);
     }
   }
 
@@ -71,6 +171,7 @@ export function applyPattern(pattern: CompiledPattern, scroll: Scroll): Scroll |
   const pathSegments = parsePath(scroll.key);
   const ctx = {
     captures,
+    namedCaptures,
     path: pathSegments,
     data:
       typeof scroll.data === 'object' && scroll.data !== null
@@ -96,17 +197,28 @@ export function applyPattern(pattern: CompiledPattern, scroll: Scroll): Scroll |
   };
 }
 
+// Size of reaction data as pattern inputs see it
+function serializedLength(data: unknown): number {
+  return typeof data === 'string' ? data.length : (JSON.stringify(data)?.length ?? 0);
+}
+
 /**
  * Pattern engine that manages multiple patterns
  */
 export class PatternEngine {
   private patterns: Map<string, CompiledPattern> = new Map();
 
+  /**
+   * @param options - Compile options for every added pattern (e.g. `{ safety: 'reject', analyze }`)
+   *   and the default budget for `apply`
+   */
+  constructor(private readonly options: EngineOptions = {}) {}
+
   /**
    * Add a pattern to the engine
    */
   add(def: PatternDef): CompiledPattern {
-    const compiled = compilePattern(def);
+    const compiled = compilePattern(def, this.options);
     this.patterns.set(compiled.name, compiled);
     return compiled;
   }
@@ -135,16 +247,20 @@ export class PatternEngine {
   /**
    * Apply all matching patterns to a scroll
    * Returns all reaction scrolls (may be empty)
+   *
+   * @param budget - Limits for this call (default: the engine's `budget` option)
+   * @throws {BudgetExceededError} Naming the pattern that exceeded the budget
    */
-  apply(scroll: Scroll): Scroll[] {
+  apply(scroll: Scroll, budget = this.options.budget): Scroll[] {
+    const meter = new Meter(budget);
     const reactions: Scroll[] = [];
     const visited = new Set<string>();
 
-    // Initial scroll to process
-    const queue: Scroll[] = [scroll];
+    // Initial scroll to process, with its cascade depth
+    const queue: { scroll: Scroll; depth: number }[] = [{ scroll, depth: 0 }];
 
     while (queue.length > 0) {
-      const current = queue.shift()!;
+      const { scroll: current, depth } = queue.shift()!;
 
       // Prevent infinite loops
       const key = `${current.key}:${current.type}`;
@@ -152,15 +268,22 @@ export class PatternEngine {
       visited.add(key);
 
       for (const pattern of this.patterns.values()) {
+        const culprit = { pattern: pattern.name };
         const reaction = applyPattern(pattern, current);
+        meter.time(culprit);
         if (reaction) {
           reactions.push(reaction);
+          meter.matches(reactions.length, culprit);
+          if (budget?.maxOutput !== undefined) {
+            meter.output(serializedLength(reaction.data), culprit);
+          }
 
           // Handle cascade (then)
           if (pattern.then) {
             const nextPattern = this.patterns.get(pattern.then);
             if (nextPattern) {
-              queue.push(reaction);
+              meter.depth(depth + 1, culprit);
+              queue.push({ scroll: reaction, depth: depth + 1 });
             }
           }
         }
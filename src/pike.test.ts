@@ -0,0 +1,131 @@
+/**
+ * Tests for the Pike VM: every search is compared with RegExp
+ */
+
+import { afterEach, describe, expect, it } from 'vitest';
+import { resolveAddress } from './address';
+import { withBudget } from './budget';
+import { c, commandLabel, findMatches, g, ifMatch, s, v, x, xFirst, y } from './commands';
+import { getRegexEngine, pike, setRegexEngine } from './pike';
+import { RegexSyntaxError } from './regex';
+
+// Both engines must find the same Match objects
+function same(source: string, flags: string, text: string) {
+  expect(
+    findMatches(pike(source, flags), text),
+    `/${source}/${flags} on ${JSON.stringify(text)}`,
+  ).toEqual(findMatches(new RegExp(source, flags), text));
+}
+
+describe('pike', () => {
+  it('agrees with RegExp on random patterns and texts', () => {
+    let seed = 7;
+    const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+    const pick = <T>(items: readonly T[]) => items[Math.floor(random() * items.length)];
+    const atoms = ['a', 'b', 's', '.', '[ab]', '[^a]', '\\w', '\\W', '\\b', '\\B', '^', '$', ''];
+    const quantifiers = ['*', '+', '?', '{2}', '{1,3}', '{0,2}', '{2,}'];
+    const pattern = (depth: number): string => {
+      if (depth === 0 || random() < 0.3) return pick(atoms);
+      const r = random();
+      if (r < 0.3) return pattern(depth - 1) + pattern(depth - 1);
+      if (r < 0.5) return `${pattern(depth - 1)}|${pattern(depth - 1)}`;
+      if (r < 0.7) return `(${pattern(depth - 1)})`;
+      const body = `(${random() < 0.5 ? '?:' : ''}${pattern(depth - 1)})`;
+      return body + pick(quantifiers) + (random() < 0.3 ? '?' : '');
+    };
+    for (let round = 0; round < 1500; round++) {
+      const source = pattern(4);
+      const flags = pick(['', 'i', 'm', 's', 'y', 'u', 'iu']);
+      const text = Array.from({ length: Math.floor(random() * 10) }, () =>
+        pick(['a', 'b', 'A', 's', 'S', 'ſ', '\n', ' ', '1']),
+      ).join('');
+      same(source, flags, text);
+    }
+  });
+
+  it('follows the ECMAScript rules for captures in repeats', () => {
+    same('(a*)*', '', 'b');
+    same('(a*)+', '', 'b');
+    same('(?:(a)|b)+', '', 'ab');
+    same('(z)((a+)?(b+)?(c))*', '', 'zaacbbbcac');
+    same('(a|ab)(c|bcd)(d*)', '', 'abcd');
+    same('(a?){2,}', '', 'a');
+    same('(?:a?)*?b', '', 'aab');
+    same('x{2,3}?', '', 'xxxxxxx');
+  });
+
+  it('reports named groups like RegExp', () => {
+    same('(?<year>\\d{4})-(?<month>\\d\\d)?', '', '2020- 2021-03');
+    same('(?<word>\\w+)|(?<num>\\d+)', 'u', 'ab 12');
+  });
+
+  it('matches code points in unicode mode', () => {
+    for (const source of ['.', '[^a]+', '\\p{L}+', '(😀|a)+', '\\u{1F600}', '[😀-😂]']) {
+      same(source, 'u', 'a😀b😁\ud83d😂');
+      same(source.replace(/\\[pu]\{[^}]*\}|[😀-😂]/gu, '.'), '', 'a😀b😁');
+    }
+  });
+
+  it('takes time linear in the text on patterns that backtrack exponentially', () => {
+    const text = `${'a'.repeat(20_000)}b`;
+    expect(pike('^(a|a)*$').test(text)).toBe(false);
+    expect(findMatches(pike('(a+)+$'), text)).toEqual([]);
+    expect(findMatches(pike('(x+x+)+y'), 'x'.repeat(5000))).toEqual([]);
+  });
+
+  it('rejects patterns outside the regular subset', () => {
+    expect(() => pike('(a)\\1')).toThrow(RegexSyntaxError);
+    expect(() => pike('(a)\\1')).toThrow('The Pike VM does not support backreferences at offset 3');
+    expect(() => pike('a(?=b)')).toThrow('does not support lookarounds at offset 1');
+    expect(() => pike('(?<!a)b')).toThrow('does not support lookarounds');
+    expect(() => pike('(a{1000}){1000}')).toThrow('Pattern is too large for the Pike VM');
+    expect(() => pike('a', 'q')).toThrow("Invalid flags 'q'");
+    expect(() => pike('a', 'gg')).toThrow(RegexSyntaxError);
+  });
+
+  it('plugs into x, y, g and v', () => {
+    const digits = pike(/(\d)+/);
+    expect(x(digits, (n) => `<${n}>`)('a12b3')).toBe('a<12>b<3>');
+    expect(y(digits, c('_'))('a12b3')).toBe('_12_3');
+    expect(g(digits, c('yes'))('a1')).toBe('yes');
+    expect(v(digits, c('none'))('ab')).toBe('none');
+    expect(commandLabel(x(pike('\\d+', 'i'), c('')))).toBe('x<pike/\\d+/i>');
+    expect(findMatches(pike(/a/gy), 'aab').map((m) => m.start)).toEqual([0, 1]);
+  });
+});
+
+describe('setRegexEngine', () => {
+  afterEach(() => setRegexEngine('native'));
+
+  it('runs every RegExp through the Pike VM', () => {
+    setRegexEngine('pike');
+    expect(getRegexEngine()).toBe('pike');
+    // Backreferences are rejected, which shows which engine ran
+    const backref = /(a)\1/;
+    for (const cmd of [
+      x(backref, c('')),
+      g(backref, c('')),
+      s(backref, ''),
+      xFirst(backref, c('')),
+    ]) {
+      expect(() => cmd('aa')).toThrow(RegexSyntaxError);
+    }
+    expect(() => findMatches(backref, 'aa')).toThrow(RegexSyntaxError);
+    expect(() => resolveAddress('/(a)\\1/', 'aa')).toThrow(RegexSyntaxError);
+    expect(() => withBudget(x(backref, c('')), { maxMatches: 5 })('aa')).toThrow(RegexSyntaxError);
+
+    expect(s(/(\w+)@(\w+)/, '$2:$1')('ann@home, bob@work')).toBe('home:ann, work:bob');
+    expect(xFirst(/\d+/, (n) => `#${n}`)('a12b3')).toBe('#12');
+    expect(ifMatch(/^#/, c('comment'), c('code'))('# hi')).toBe('comment');
+    expect(x(/(a|a)*$/, c('A'))(`${'a'.repeat(5000)}b`)).toBe(`${'a'.repeat(5000)}bA`);
+
+    setRegexEngine('native');
+    expect(x(backref, c('-'))('aa')).toBe('-');
+  });
+
+  it('rejects unknown engines', () => {
+    // @ts-expect-error: not an engine
+    expect(() => setRegexEngine('re2')).toThrow(TypeError);
+    expect(getRegexEngine()).toBe('native');
+  });
+});
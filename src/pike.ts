@@ -0,0 +1,624 @@
+/**
+ * Pike: a regex engine that runs in linear time (Thompson NFA, Pike VM)
+ *
+ * JavaScript's RegExp backtracks, so some patterns take exponential time
+ * on some inputs. The Pike VM runs all alternatives in lockstep instead,
+ * one step per input character: a search takes time proportional to the
+ * length of the text times the size of the pattern, whatever the pattern
+ * and the text. Patterns from untrusted sources are safe to run.
+ *
+ * It accepts the regular subset of JavaScript syntax: everything except
+ * backreferences and lookarounds. The flags `i`, `m`, `s`, `u` and `y` are
+ * supported; `g` and `d` are ignored. Matches, capture groups included,
+ * are the ones RegExp finds: threads keep the priority order of a
+ * backtracking search, and quantifiers follow the ECMAScript rules
+ * (captures reset on each iteration, empty iterations rejected). One
+ * difference: in unicode mode V8 can report an empty match between the
+ * halves of a surrogate pair (`/\B/u` in `'S😀'`); the Pike VM, like the
+ * specification, never starts a match there.
+ *
+ * Select the engine per command with `pike(re)`, which `x`, `y`, `g`, `v`
+ * and `findMatches` accept in place of a RegExp, or for every RegExp with
+ * `setRegexEngine('pike')`.
+ *
+ * @module pike
+ */
+
+import { useRegexEngine } from './commands';
+import {
+  type CharRange,
+  type RegexNode,
+  RegexSyntaxError,
+  normalizeRanges,
+  nullable,
+  parseRegex,
+  rangesContain,
+} from './regex';
+import { advanceIndex } from './source';
+import type { Match, TextMatcher } from './types';
+
+/**
+ * Engine that runs RegExp patterns: the built-in backtracking one, or the Pike VM
+ */
+export type RegexEngine = 'native' | 'pike';
+
+let engine: RegexEngine = 'native';
+
+/**
+ * Choose the engine for every RegExp passed to `findMatches` and the
+ * commands (`x`, `xMatch`, `y`, `g`, `v`, `s`, `xAll`, `xFirst`,
+ * `ifMatch`, their async versions, addresses and budgets).
+ *
+ * With `'pike'`, a pattern outside the regular subset throws a
+ * `RegexSyntaxError` when it is first used. `xAny`, lexers, window-mode
+ * streams and the pattern engine always use RegExp.
+ *
+ * @param next - `'pike'` for linear-time matching, `'native'` (the default) for RegExp
+ * @throws {TypeError} When the engine is unknown
+ *
+ * @example
+ * setRegexEngine('pike');
+ * x(/(a+)+$/, c('A'))(untrusted); // linear time, same result as RegExp
+ */
+export function setRegexEngine(next: RegexEngine): void {
+  if (next !== 'native' && next !== 'pike') {
+    throw new TypeError(`Unknown regex engine '${next}'`);
+  }
+  engine = next;
+  useRegexEngine(next === 'pike' ? programFor : undefined);
+}
+
+/**
+ * The engine chosen with `setRegexEngine`.
+ */
+export function getRegexEngine(): RegexEngine {
+  return engine;
+}
+
+/**
+ * Compile a pattern for the Pike VM.
+ *
+ * @param pattern - A RegExp, or regex source
+ * @param flags - Flags for a source string (a RegExp keeps its own)
+ * @returns A matcher to pass to `x`, `y`, `g`, `v` or `findMatches`
+ * @throws {RegexSyntaxError} When the pattern is invalid, uses backreferences
+ *   or lookarounds, or its repetitions unroll to too large a program
+ *
+ * @example
+ * findMatches(pike(/(\w+)@(\w+)/), 'ann@home, bob@work');
+ * // => the same Match objects as findMatches(/(\w+)@(\w+)/, ...)
+ *
+ * @example
+ * // No catastrophic backtracking
+ * g(pike('^(a|a)*$'), c('yes'))('a'.repeat(50) + 'b'); // returns at once
+ */
+export function pike(pattern: RegExp | string, flags = ''): TextMatcher {
+  return typeof pattern === 'string'
+    ? new PikeVM(pattern, flags)
+    : new PikeVM(pattern.source, pattern.flags);
+}
+
+// Programs for RegExps run while the Pike VM is the selected engine
+const programs = new WeakMap<RegExp, PikeVM>();
+
+// The Pike VM that runs a RegExp while it is the selected engine
+function programFor(pattern: RegExp): TextMatcher {
+  let vm = programs.get(pattern);
+  if (!vm) {
+    vm = new PikeVM(pattern.source, pattern.flags);
+    programs.set(pattern, vm);
+  }
+  return vm;
+}
+
+// ============================================================
+// Compiling
+// ============================================================
+
+// Instructions
+const CHAR = 0; // consume a character in sets[a]
+const SPLIT = 1; // continue at a, then (lower priority) at b
+const JUMP = 2; // continue at a
+const SAVE = 3; // record the position in slot a
+const RESET = 4; // clear slots [a, b): groups inside a new iteration
+const ASSERT = 5; // continue if assertion a holds here
+const ENTER = 6; // start an iteration that must not be empty
+const CHECK = 7; // end it: fail if nothing was consumed since ENTER
+const MATCH = 8;
+
+// Assertions
+const START = 0;
+const END = 1;
+const LINE_START = 2;
+const LINE_END = 3;
+const WORD_BOUNDARY = 4;
+const NOT_WORD_BOUNDARY = 5;
+
+// Largest program built; repetition counts unroll, so `(a{100}){100}` is too large
+const MAX_PROGRAM = 100_000;
+
+/**
+ * Compiled pattern: instruction `i` is `ops[i]` with operands `a[i]`, `b[i]`
+ */
+interface Program {
+  ops: Uint8Array;
+  a: Int32Array;
+  b: Int32Array;
+  sets: CharRange[][];
+  /** Membership of ASCII characters in each set: `ascii[set * 128 + code]` */
+  ascii: Uint8Array;
+  /** Deepest nesting of ENTER ... CHECK */
+  depth: number;
+}
+
+class Compiler {
+  private readonly ops: number[] = [];
+  private readonly a: number[] = [];
+  private readonly b: number[] = [];
+  private readonly sets: CharRange[][] = [];
+  private depth = 0;
+  private maxDepth = 0;
+
+  constructor(private readonly multiline: boolean) {}
+
+  program(node: RegexNode): Program {
+    this.emit(SAVE, 0);
+    this.node(node);
+    this.emit(SAVE, 1);
+    this.emit(MATCH);
+    return {
+      ops: Uint8Array.from(this.ops),
+      a: Int32Array.from(this.a),
+      b: Int32Array.from(this.b),
+      sets: this.sets,
+      ascii: asciiTable(this.sets),
+      depth: this.maxDepth,
+    };
+  }
+
+  private emit(op: number, a = 0, b = 0): number {
+    if (this.ops.length >= MAX_PROGRAM) {
+      throw new RegexSyntaxError('Pattern is too large for the Pike VM', 0);
+    }
+    this.ops.push(op);
+    this.a.push(a);
+    this.b.push(b);
+    return this.ops.length - 1;
+  }
+
+  private node(node: RegexNode): void {
+    switch (node.type) {
+      case 'empty':
+        return;
+      case 'set':
+        this.emit(CHAR, this.sets.push(node.ranges) - 1);
+        return;
+      case 'assert':
+        this.emit(ASSERT, this.assertion(node.kind));
+        return;
+      case 'backref':
+        throw new RegexSyntaxError('The Pike VM does not support backreferences', node.start);
+      case 'look':
+        throw new RegexSyntaxError('The Pike VM does not support lookarounds', node.start);
+      case 'group':
+        if (node.index !== undefined) this.emit(SAVE, 2 * node.index);
+        this.node(node.body);
+        if (node.index !== undefined) this.emit(SAVE, 2 * node.index + 1);
+        return;
+      case 'concat':
+        for (const item of node.items) this.node(item);
+        return;
+      case 'alt': {
+        const exits: number[] = [];
+        const last = node.options.length - 1;
+        for (const option of node.options.slice(0, last)) {
+          const split = this.emit(SPLIT, this.ops.length + 1);
+          this.node(option);
+          exits.push(this.emit(JUMP));
+          this.b[split] = this.ops.length;
+        }
+        this.node(node.options[last]);
+        for (const exit of exits) this.a[exit] = this.ops.length;
+        return;
+      }
+      case 'repeat':
+        this.repeat(node);
+        return;
+    }
+  }
+
+  private repeat(node: Extract<RegexNode, { type: 'repeat' }>): void {
+    const { min, max, greedy, body } = node;
+    const slots = captureSlots(body);
+    // Optional iterations of a body that can match empty must not be empty
+    const checked = nullable(body);
+    for (let i = 0; i < min; i++) this.iteration(body, slots, false);
+
+    const prefer = (split: number, exit: number) => {
+      this.a[split] = greedy ? split + 1 : exit;
+      this.b[split] = greedy ? exit : split + 1;
+    };
+    if (max === Number.POSITIVE_INFINITY) {
+      const loop = this.emit(SPLIT);
+      this.iteration(body, slots, checked);
+      this.emit(JUMP, loop);
+      prefer(loop, this.ops.length);
+      return;
+    }
+    const splits: number[] = [];
+    for (let i = min; i < max; i++) {
+      splits.push(this.emit(SPLIT));
+      this.iteration(body, slots, checked);
+    }
+    for (const split of splits) prefer(split, this.ops.length);
+  }
+
+  private iteration(body: RegexNode, slots: CharRange | undefined, checked: boolean): void {
+    if (slots) this.emit(RESET, slots[0], slots[1]);
+    if (checked) {
+      this.emit(ENTER);
+      this.maxDepth = Math.max(this.maxDepth, ++this.depth);
+    }
+    this.node(body);
+    if (checked) {
+      this.depth--;
+      this.emit(CHECK);
+    }
+  }
+
+  private assertion(kind: Extract<RegexNode, { type: 'assert' }>['kind']): number {
+    switch (kind) {
+      case 'start':
+        return this.multiline ? LINE_START : START;
+      case 'end':
+        return this.multiline ? LINE_END : END;
+      case 'wordBoundary':
+        return WORD_BOUNDARY;
+      case 'notWordBoundary':
+        return NOT_WORD_BOUNDARY;
+    }
+  }
+}
+
+function asciiTable(sets: CharRange[][]): Uint8Array {
+  const table = new Uint8Array(sets.length * 128);
+  sets.forEach((ranges, set) => {
+    for (const [from, to] of ranges) {
+      if (from < 128) table.fill(1, set * 128 + from, set * 128 + Math.min(to, 127) + 1);
+    }
+  });
+  return table;
+}
+
+// Capture slots [from, to) of the groups inside a node (numbered consecutively)
+function captureSlots(node: RegexNode): CharRange | undefined {
+  let first = Number.POSITIVE_INFINITY;
+  let last = -1;
+  const visit = (n: RegexNode): void => {
+    if (n.type === 'group' && n.index !== undefined) {
+      first = Math.min(first, n.index);
+      last = Math.max(last, n.index);
+    }
+    if (n.type === 'group' || n.type === 'repeat' || n.type === 'look') visit(n.body);
+    if (n.type === 'concat') n.items.forEach(visit);
+    if (n.type === 'alt') n.options.forEach(visit);
+  };
+  visit(node);
+  return last === -1 ? undefined : [2 * first, 2 * last + 2];
+}
+
+// Characters a match can start with, or undefined when it can be empty
+function firstChars(node: RegexNode): CharRange[] | undefined {
+  switch (node.type) {
+    case 'set':
+      return node.ranges;
+    case 'empty':
+    case 'assert':
+      return [];
+    case 'group':
+    case 'repeat':
+      return firstChars(node.body);
+    case 'concat': {
+      const chars: CharRange[] = [];
+      for (const item of node.items) {
+        const first = firstChars(item);
+        if (!first) return undefined;
+        chars.push(...first);
+        if (!nullable(item)) return chars;
+      }
+      return undefined;
+    }
+    case 'alt': {
+      const chars: CharRange[] = [];
+      for (const option of node.options) {
+        const first = firstChars(option);
+        if (!first) return undefined;
+        chars.push(...first);
+      }
+      return chars;
+    }
+    default:
+      return undefined;
+  }
+}
+
+// ============================================================
+// Matching
+// ============================================================
+
+const LINE_TERMINATORS = new Set([0x0a, 0x0d, 0x2028, 0x2029]);
+const WORD_CHARS: CharRange[] = [
+  [0x30, 0x39],
+  [0x41, 0x5a],
+  [0x5f, 0x5f],
+  [0x61, 0x7a],
+];
+// With iu, the long s and the Kelvin sign fold into \w
+const FOLDED_WORD_CHARS: CharRange[] = [...WORD_CHARS, [0x17f, 0x17f], [0x212a, 0x212a]];
+// Generations restart before they overflow `seen`
+const MAX_GENERATION = 2 ** 30;
+
+/**
+ * Threads waiting at CHAR or MATCH instructions, highest priority first
+ */
+interface ThreadList {
+  pcs: Int32Array;
+  slots: Int32Array[];
+  length: number;
+}
+
+class PikeVM implements TextMatcher {
+  readonly label: string;
+  private readonly program: Program;
+  private readonly groups: number;
+  private readonly names: [string, number][];
+  private readonly unicode: boolean;
+  private readonly sticky: boolean;
+  private readonly wordChars: CharRange[];
+  /** Units that can start a match (code points above 0xffff are checked in `starts`) */
+  private readonly startUnits?: Uint8Array;
+  private readonly starts?: CharRange[];
+  private readonly width: number;
+  // Scratch space, reused across searches
+  private readonly seen: Int32Array;
+  private generation = 0;
+  private readonly lists: [ThreadList, ThreadList];
+  /** Branches `follow` has yet to explore */
+  private readonly stack: { pcs: Int32Array; fresh: Int32Array; slots: Int32Array[] };
+
+  constructor(source: string, flags: string) {
+    if (!/^[dgimsuvy]*$/.test(flags) || new Set(flags).size !== flags.length) {
+      throw new RegexSyntaxError(`Invalid flags '${flags}'`, 0);
+    }
+    const parsed = parseRegex(source, flags);
+    this.label = `pike/${source}/${flags.replace(/[gd]/g, '')}`;
+    this.groups = parsed.groups;
+    this.names = Object.entries(parsed.names);
+    this.unicode = flags.includes('u');
+    this.sticky = flags.includes('y');
+    this.program = new Compiler(flags.includes('m')).program(parsed.node);
+    this.wordChars = this.unicode && flags.includes('i') ? FOLDED_WORD_CHARS : WORD_CHARS;
+
+    const first = nullable(parsed.node) ? undefined : firstChars(parsed.node);
+    if (first) {
+      const starts = normalizeRanges(first);
+      this.starts = starts;
+      this.startUnits = new Uint8Array(0x10000);
+      for (const [from, to] of starts) this.startUnits.fill(1, from, Math.min(to, 0xffff) + 1);
+    }
+
+    this.width = this.program.depth + 1;
+    const states = this.program.ops.length * this.width;
+    this.seen = new Int32Array(states);
+    const list = (): ThreadList => ({
+      pcs: new Int32Array(states),
+      slots: new Array(states),
+      length: 0,
+    });
+    this.lists = [list(), list()];
+    // Each SPLIT state pushes at most once per `follow`
+    this.stack = { pcs: new Int32Array(states), fresh: new Int32Array(states), slots: [] };
+  }
+
+  *scan(text: string): Generator<Match> {
+    let from = 0;
+    while (from <= text.length) {
+      const slots = this.search(text, from, false);
+      if (!slots) return;
+      yield this.match(text, slots);
+      from = slots[1] === slots[0] ? advanceIndex(text, slots[1], this.unicode) : slots[1];
+    }
+  }
+
+  test(text: string): boolean {
+    return this.search(text, 0, true) !== undefined;
+  }
+
+  /**
+   * Find the leftmost match starting at or after `from` (exactly at
+   * `from` when sticky). Returns its capture slots.
+   */
+  private search(text: string, from: number, any: boolean): Int32Array | undefined {
+    const { ops, a, sets, ascii } = this.program;
+    let [current, next] = this.lists;
+    current.length = 0;
+    let generation = this.nextGeneration();
+    let matched: Int32Array | undefined;
+    let pos = from;
+    const unset = new Int32Array(2 * this.groups + 2).fill(-1);
+
+    for (;;) {
+      if (matched === undefined && (pos === from || !this.sticky)) {
+        if (current.length === 0 && !this.sticky) {
+          pos = this.skip(text, pos);
+          generation = this.nextGeneration();
+        }
+        this.follow(current, generation, 0, unset, text, pos);
+      }
+      if (current.length === 0) {
+        if (matched !== undefined || this.sticky || pos >= text.length) return matched;
+        pos += this.codeAt(text, pos) > 0xffff ? 2 : 1;
+        continue;
+      }
+
+      const code = pos < text.length ? this.codeAt(text, pos) : -1;
+      const step = code > 0xffff ? 2 : 1;
+      next.length = 0;
+      generation = this.nextGeneration();
+      for (let t = 0; t < current.length; t++) {
+        const pc = current.pcs[t];
+        if (ops[pc] === MATCH) {
+          // Lower-priority threads can only find worse matches
+          matched = current.slots[t];
+          if (any) return matched;
+          break;
+        }
+        const member =
+          code < 128
+            ? code !== -1 && ascii[a[pc] * 128 + code] === 1
+            : rangesContain(sets[a[pc]], code);
+        if (member) {
+          this.follow(next, generation, pc + 1, current.slots[t], text, pos + step);
+        }
+      }
+      if (code === -1) return matched;
+      const done = current;
+      current = next;
+      next = done;
+      pos += step;
+    }
+  }
+
+  /**
+   * Add the threads reachable from `pc` without consuming input,
+   * in priority order. The first thread to reach a state wins it.
+   */
+  private follow(
+    list: ThreadList,
+    generation: number,
+    start: number,
+    slots: Int32Array,
+    text: string,
+    pos: number,
+  ): void {
+    const { ops, a, b } = this.program;
+    const { seen, width, stack } = this;
+    let depth = 0;
+    let pc = start;
+    let fresh = 0;
+    let current = slots;
+    for (;;) {
+      const state = pc * width + fresh;
+      let alive = seen[state] !== generation;
+      if (alive) {
+        seen[state] = generation;
+        switch (ops[pc]) {
+          case CHAR:
+          case MATCH:
+            list.pcs[list.length] = pc;
+            list.slots[list.length++] = current;
+            alive = false;
+            break;
+          case SPLIT:
+            // The second branch waits until the first is fully explored
+            stack.pcs[depth] = b[pc];
+            stack.fresh[depth] = fresh;
+            stack.slots[depth++] = current;
+            pc = a[pc];
+            break;
+          case JUMP:
+            pc = a[pc];
+            break;
+          case SAVE:
+            current = current.slice();
+            current[a[pc]] = pos;
+            pc++;
+            break;
+          case RESET:
+            current = current.slice().fill(-1, a[pc], b[pc]);
+            pc++;
+            break;
+          case ASSERT:
+            alive = this.holds(a[pc], text, pos);
+            pc++;
+            break;
+          case ENTER:
+            fresh++;
+            pc++;
+            break;
+          case CHECK:
+            alive = fresh === 0;
+            pc++;
+            break;
+        }
+      }
+      if (alive) continue;
+      if (depth === 0) return;
+      depth--;
+      pc = stack.pcs[depth];
+      fresh = stack.fresh[depth];
+      current = stack.slots[depth];
+    }
+  }
+
+  private nextGeneration(): number {
+    if (this.generation === MAX_GENERATION) {
+      this.seen.fill(0);
+      this.generation = 0;
+    }
+    return ++this.generation;
+  }
+
+  // First position at or after `pos` where a match can start
+  private skip(text: string, pos: number): number {
+    const { startUnits, starts } = this;
+    if (!startUnits || !starts) return pos;
+    let at = pos;
+    while (at < text.length) {
+      const code = this.codeAt(text, at);
+      if (code <= 0xffff ? startUnits[code] === 1 : rangesContain(starts, code)) return at;
+      at += code > 0xffff ? 2 : 1;
+    }
+    return at;
+  }
+
+  private holds(assertion: number, text: string, pos: number): boolean {
+    switch (assertion) {
+      case START:
+        return pos === 0;
+      case END:
+        return pos === text.length;
+      case LINE_START:
+        return pos === 0 || LINE_TERMINATORS.has(text.charCodeAt(pos - 1));
+      case LINE_END:
+        return pos === text.length || LINE_TERMINATORS.has(text.charCodeAt(pos));
+      default: {
+        const before = pos > 0 && rangesContain(this.wordChars, text.charCodeAt(pos - 1));
+        const after = pos < text.length && rangesContain(this.wordChars, text.charCodeAt(pos));
+        return (before !== after) === (assertion === WORD_BOUNDARY);
+      }
+    }
+  }
+
+  // Character at pos: a code point in unicode mode, else a code unit
+  private codeAt(text: string, pos: number): number {
+    return this.unicode ? text.codePointAt(pos)! : text.charCodeAt(pos);
+  }
+
+  private match(text: string, slots: Int32Array): Match {
+    // As in RegExp results, groups that did not take part are undefined
+    const groups = Array.from({ length: this.groups + 1 }, (_, i) =>
+      slots[2 * i] === -1 || slots[2 * i + 1] === -1
+        ? undefined
+        : text.slice(slots[2 * i], slots[2 * i + 1]),
+    ) as string[];
+    const found: Match = { text: groups[0], start: slots[0], end: slots[1], groups };
+    if (this.names.length > 0) {
+      found.namedGroups = {};
+      for (const [name, index] of this.names) {
+        if (groups[index] !== undefined) found.namedGroups[name] = groups[index];
+      }
+    }
+    return found;
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * Tests for the regex parser
+ */
+
+import { describe, expect, it } from 'vitest';
+import { RegexSyntaxError, parseRegex, rangesContain } from './regex';
+
+const code = (ch: string) => ch.codePointAt(0)!;
+
+describe('parseRegex', () => {
+  it('builds alternations, repeats and positions', () => {
+    expect(parseRegex('a|b+').node).toEqual({
+      type: 'alt',
+      start: 0,
+      end: 4,
+      options: [
+        { type: 'set', ranges: [[97, 97]], start: 0, end: 1 },
+        {
+          type: 'repeat',
+          min: 1,
+          max: Number.POSITIVE_INFINITY,
+          greedy: true,
+          body: { type: 'set', ranges: [[98, 98]], start: 2, end: 3 },
+          start: 2,
+          end: 4,
+        },
+      ],
+    });
+  });
+
+  it('parses quantifier forms', () => {
+    const repeat = (src: string) => {
+      const node = parseRegex(src).node;
+      return node.type === 'repeat' ? [node.min, node.max, node.greedy] : node.type;
+    };
+    expect(repeat('a{2}')).toEqual([2, 2, true]);
+    expect(repeat('a{2,}?')).toEqual([2, Number.POSITIVE_INFINITY, false]);
+    expect(repeat('a{2,5}')).toEqual([2, 5, true]);
+    expect(repeat('a??')).toEqual([0, 1, false]);
+    // Not a quantifier outside unicode mode: a literal '{'
+    expect(repeat('a{x}')).toBe('concat');
+  });
+
+  it('parses groups, lookarounds and backreferences', () => {
+    const parsed = parseRegex('(?<year>\\d{4})(?:-)(?=x)(?<!y)\\k<year>\\1');
+    expect(parsed.groups).toBe(1);
+    expect(parsed.names).toEqual({ year: 1 });
+    const node = parsed.node;
+    expect(node.type === 'concat' && node.items.map((item) => item.type)).toEqual([
+      'group',
+      'group',
+      'look',
+      'look',
+      'backref',
+      'backref',
+    ]);
+  });
+
+  it('represents characters as range sets', () => {
+    const ranges = (src: string, flags?: string) => {
+      const node = parseRegex(src, flags).node;
+      return node.type === 'set' ? node.ranges : undefined;
+    };
+    expect(ranges('[a-c\\d_]')).toEqual([
+      [48, 57],
+      [95, 95],
+      [97, 99],
+    ]);
+    expect(ranges('[^\\x00-\\uffff]')).toEqual([]);
+    expect(ranges('a', 'i')).toEqual([
+      [65, 65],
+      [97, 97],
+    ]);
+    expect(ranges('\\u{1F600}', 'u')).toEqual([[code('😀'), code('😀')]]);
+    expect(ranges('.', 's')).toEqual([[0, 0xffff]]);
+    expect(ranges('\\p{Lu}', 'u')?.some(([from, to]) => from <= 65 && 65 <= to)).toBe(true);
+  });
+
+  it('folds case as RegExp does with and without the u flag', () => {
+    const matches = (src: string, flags: string, ch: string) => {
+      const node = parseRegex(src, flags).node;
+      return node.type === 'set' && rangesContain(node.ranges, ch.codePointAt(0)!);
+    };
+    for (const [src, flags, ch] of [
+      ['s', 'i', 'ſ'],
+      ['s', 'iu', 'ſ'],
+      ['k', 'i', '\u212a'],
+      ['k', 'iu', '\u212a'],
+      ['µ', 'i', 'Μ'],
+      ['ß', 'iu', 'ẞ'],
+      ['ı', 'iu', 'i'],
+      ['\\w', 'iu', 'ſ'],
+      ['\\W', 'iu', 'ſ'],
+      ['\\W', 'i', 'ſ'],
+    ]) {
+      expect(matches(src, flags, ch), `/${src}/${flags} on ${ch}`).toBe(
+        new RegExp(src, flags).test(ch),
+      );
+    }
+  });
+
+  it('treats \\N without that many groups as an escape', () => {
+    const node = parseRegex('(a)\\2').node;
+    expect(node.type === 'concat' && node.items[1]).toMatchObject({
+      type: 'set',
+      ranges: [[2, 2]],
+    });
+  });
+
+  it('reports syntax errors with offsets', () => {
+    const offsetOf = (src: string, flags?: string) => {
+      try {
+        parseRegex(src, flags);
+      } catch (err) {
+        expect(err).toBeInstanceOf(RegexSyntaxError);
+        return (err as RegexSyntaxError).offset;
+      }
+      return undefined;
+    };
+    expect(offsetOf('ab(c')).toBe(2);
+    expect(offsetOf('a)')).toBe(1);
+    expect(offsetOf('x*+')).toBe(2);
+    expect(offsetOf('[z-a]')).toBe(1);
+    expect(offsetOf('\\q', 'u')).toBe(0);
+    expect(offsetOf('a', 'v')).toBe(0);
+  });
+});
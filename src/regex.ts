@@ -0,0 +1,772 @@
+/**
+ * Regex: parse JavaScript regular expression source into a syntax tree
+ *
+ * The tree keeps the position of every node in the source, so tools built
+ * on it (the safety analyzer, alternative matchers) can point back into
+ * the pattern. Characters are represented uniformly as sets of code
+ * ranges: a literal, `.`, `\d` and `[a-z]` are all `set` nodes.
+ *
+ * Follows ECMAScript syntax including the web-compatibility (Annex B)
+ * rules outside unicode mode, e.g. a `{` that does not start a quantifier
+ * is a literal. The `v` flag is not supported.
+ *
+ * @module regex
+ */
+
+import { countCaptures } from './source';
+
+/**
+ * Inclusive range of character codes (code units, or code points in unicode mode)
+ */
+export type CharRange = [from: number, to: number];
+
+/**
+ * Position of a node in the pattern source: [start, end)
+ */
+export interface Span {
+  start: number;
+  end: number;
+}
+
+/**
+ * Node of a parsed regular expression
+ */
+export type RegexNode =
+  | (Span & { type: 'empty' })
+  | (Span & { type: 'set'; ranges: CharRange[] })
+  | (Span & { type: 'assert'; kind: 'start' | 'end' | 'wordBoundary' | 'notWordBoundary' })
+  | (Span & { type: 'backref'; group: number | string })
+  | (Span & { type: 'group'; index?: number; name?: string; body: RegexNode })
+  | (Span & { type: 'look'; behind: boolean; negate: boolean; body: RegexNode })
+  | (Span & { type: 'concat'; items: RegexNode[] })
+  | (Span & { type: 'alt'; options: RegexNode[] })
+  | (Span & { type: 'repeat'; min: number; max: number; greedy: boolean; body: RegexNode });
+
+/**
+ * A parsed regular expression
+ */
+export interface ParsedRegex {
+  source: string;
+  flags: string;
+  node: RegexNode;
+  /** Number of capturing groups */
+  groups: number;
+  /** Group index of each named group */
+  names: Record<string, number>;
+}
+
+/**
+ * Syntax error with its position in the pattern source
+ */
+export class RegexSyntaxError extends SyntaxError {
+  readonly offset: number;
+
+  constructor(message: string, offset: number) {
+    super(`${message} at offset ${offset}`);
+    this.name = 'RegexSyntaxError';
+    this.offset = offset;
+  }
+}
+
+// ============================================================
+// Character sets
+// ============================================================
+
+const MAX_UNIT = 0xffff;
+const MAX_POINT = 0x10ffff;
+
+const DIGIT: CharRange[] = [[0x30, 0x39]];
+const WORD: CharRange[] = [
+  [0x30, 0x39],
+  [0x41, 0x5a],
+  [0x5f, 0x5f],
+  [0x61, 0x7a],
+];
+const SPACE: CharRange[] = [
+  [0x09, 0x0d],
+  [0x20, 0x20],
+  [0xa0, 0xa0],
+  [0x1680, 0x1680],
+  [0x2000, 0x200a],
+  [0x2028, 0x2029],
+  [0x202f, 0x202f],
+  [0x205f, 0x205f],
+  [0x3000, 0x3000],
+  [0xfeff, 0xfeff],
+];
+const LINE_TERMINATORS: CharRange[] = [
+  [0x0a, 0x0a],
+  [0x0d, 0x0d],
+  [0x2028, 0x2029],
+];
+
+/**
+ * Sort and merge ranges
+ *
+ * @internal Shared with regex tools
+ */
+export function normalizeRanges(ranges: readonly CharRange[]): CharRange[] {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+  const merged: CharRange[] = [];
+  for (const [from, to] of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && from <= last[1] + 1) last[1] = Math.max(last[1], to);
+    else merged.push([from, to]);
+  }
+  return merged;
+}
+
+/**
+ * Complement of normalized ranges within [0, max]
+ *
+ * @internal Shared with regex tools
+ */
+export function complementRanges(ranges: readonly CharRange[], max: number): CharRange[] {
+  const out: CharRange[] = [];
+  let next = 0;
+  for (const [from, to] of ranges) {
+    if (from > next) out.push([next, from - 1]);
+    next = to + 1;
+  }
+  if (next <= max) out.push([next, max]);
+  return out;
+}
+
+/**
+ * Whether two normalized range lists share a character
+ *
+ * @internal Shared with regex tools
+ */
+export function rangesIntersect(a: readonly CharRange[], b: readonly CharRange[]): boolean {
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i][1] < b[j][0]) i++;
+    else if (b[j][1] < a[i][0]) j++;
+    else return true;
+  }
+  return false;
+}
+
+/**
+ * Whether a character code is in normalized ranges
+ *
+ * @internal Shared with regex tools
+ */
+export function rangesContain(ranges: readonly CharRange[], code: number): boolean {
+  let lo = 0;
+  let hi = ranges.length - 1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (code < ranges[mid][0]) hi = mid - 1;
+    else if (code > ranges[mid][1]) lo = mid + 1;
+    else return true;
+  }
+  return false;
+}
+
+// Add the other case of every character (ranges larger than this are left as is)
+const CASE_FOLD_LIMIT = 0x400;
+
+function caseFold(ranges: CharRange[], unicode: boolean): CharRange[] {
+  const extra: CharRange[] = [];
+  for (const [from, to] of ranges) {
+    if (to - from > CASE_FOLD_LIMIT) continue;
+    for (let code = from; code <= to; code++) {
+      for (const other of caseClass(code, unicode)) extra.push([other, other]);
+    }
+  }
+  return normalizeRanges([...ranges, ...extra]);
+}
+
+// Highest code point with a case mapping
+const MAX_CASED = 0x1ffff;
+
+// Characters that match each other under the i flag, keyed by a shared value
+const caseClasses: { unicode?: Map<number, number[]>; legacy?: Map<number, number[]> } = {};
+
+// Characters that match `code` under the i flag (itself included)
+function caseClass(code: number, unicode: boolean): number[] {
+  const mode = unicode ? 'unicode' : 'legacy';
+  let classes = caseClasses[mode];
+  if (!classes) {
+    classes = new Map();
+    for (const other of casedCharacters(unicode ? MAX_CASED : MAX_UNIT)) {
+      const key = caseKey(other, unicode);
+      const members = classes.get(key);
+      if (members) members.push(other);
+      else classes.set(key, [other]);
+    }
+    caseClasses[mode] = classes;
+  }
+  return classes.get(caseKey(code, unicode)) ?? [code];
+}
+
+// Only characters that some case mapping changes can match another character
+function* casedCharacters(max: number): Generator<number> {
+  const chunks: string[] = [];
+  for (let from = 0; from <= max; from += 0x1000) {
+    const codes = Array.from({ length: Math.min(0x1000, max + 1 - from) }, (_, i) => from + i);
+    chunks.push(String.fromCodePoint(...codes.filter((code) => code < 0xd800 || code > 0xdfff)));
+  }
+  for (const [ch] of chunks.join('').matchAll(/\p{Changes_When_Casemapped}/gu)) {
+    yield ch.codePointAt(0)!;
+  }
+}
+
+/**
+ * Without u, ECMAScript compares uppercase code units, except that a
+ * non-ASCII unit never matches an ASCII one. With u it compares simple
+ * case foldings, approximated here by lowercasing the uppercase form.
+ */
+function caseKey(code: number, unicode: boolean): number {
+  if (!unicode) {
+    const upper = String.fromCharCode(code).toUpperCase();
+    if (upper.length !== 1) return code;
+    const key = upper.charCodeAt(0);
+    return code >= 128 && key < 128 ? code : key;
+  }
+  // Dotless i has no simple case folding
+  if (code === 0x131) return code;
+  const ch = String.fromCodePoint(code);
+  const upper = ch.toUpperCase();
+  const folded = isCodePoint(upper) ? upper.toLowerCase() : ch.toLowerCase();
+  if (isCodePoint(folded)) return folded.codePointAt(0)!;
+  const lower = ch.toLowerCase();
+  return isCodePoint(lower) ? lower.codePointAt(0)! : code;
+}
+
+function isCodePoint(text: string): boolean {
+  return text.length === 1 || (text.length === 2 && text.codePointAt(0)! > MAX_UNIT);
+}
+
+const propertyCache = new Map<string, CharRange[]>();
+
+// Ranges of a \p{...} property, found by testing every code point once
+function propertyRanges(property: string, offset: number): CharRange[] {
+  const cached = propertyCache.get(property);
+  if (cached) return cached;
+  let re: RegExp;
+  try {
+    re = new RegExp(`^\\p{${property}}$`, 'u');
+  } catch {
+    throw new RegexSyntaxError(`Invalid property name '${property}'`, offset);
+  }
+  const ranges: CharRange[] = [];
+  let from = -1;
+  for (let code = 0; code <= MAX_POINT + 1; code++) {
+    const inside = code <= MAX_POINT && re.test(String.fromCodePoint(code));
+    if (inside && from === -1) from = code;
+    if (!inside && from !== -1) {
+      ranges.push([from, code - 1]);
+      from = -1;
+    }
+  }
+  propertyCache.set(property, ranges);
+  return ranges;
+}
+
+// ============================================================
+// Parsing
+// ============================================================
+
+/**
+ * Parse regular expression source into a syntax tree.
+ *
+ * @param source - Pattern source, e.g. `'(a+)+$'` or `re.source`
+ * @param flags - Regex flags; `u` and `i` affect character sets, `s` affects `.`
+ * @returns The tree with group information
+ * @throws {RegexSyntaxError} When the source is invalid or uses the `v` flag
+ *
+ * @example
+ * parseRegex('a|b+').node;
+ * // => { type: 'alt', start: 0, end: 4, options: [
+ * //      { type: 'set', ranges: [[97, 97]], start: 0, end: 1 },
+ * //      { type: 'repeat', min: 1, max: Infinity, greedy: true, body: ..., start: 2, end: 4 }
+ * //    ] }
+ */
+export function parseRegex(source: string, flags = ''): ParsedRegex {
+  if (flags.includes('v')) {
+    throw new RegexSyntaxError("The 'v' flag is not supported", 0);
+  }
+  const parser = new RegexParser(source, flags);
+  const node = parser.parsePattern();
+  return { source, flags, node, groups: parser.groupCount, names: parser.names };
+}
+
+class RegexParser {
+  private pos = 0;
+  private readonly unicode: boolean;
+  private readonly ignoreCase: boolean;
+  private readonly dotAll: boolean;
+  private readonly max: number;
+  /** Capturing groups in the whole pattern (decides \N backref vs. escape) */
+  private readonly totalGroups: number;
+  private readonly hasNames: boolean;
+  groupCount = 0;
+  names: Record<string, number> = {};
+
+  constructor(
+    private readonly src: string,
+    flags: string,
+  ) {
+    this.unicode = flags.includes('u');
+    this.ignoreCase = flags.includes('i');
+    this.dotAll = flags.includes('s');
+    this.max = this.unicode ? MAX_POINT : MAX_UNIT;
+    const groups = countCaptures(src);
+    this.totalGroups = groups.count;
+    this.hasNames = groups.names.length > 0;
+  }
+
+  parsePattern(): RegexNode {
+    const node = this.parseAlternation();
+    if (this.pos < this.src.length) {
+      throw new RegexSyntaxError(
+        this.src[this.pos] === ')' ? "Unmatched ')'" : `Unexpected '${this.src[this.pos]}'`,
+        this.pos,
+      );
+    }
+    return node;
+  }
+
+  // alternation := concat ('|' concat)*
+  private parseAlternation(): RegexNode {
+    const start = this.pos;
+    const options = [this.parseConcat()];
+    while (this.src[this.pos] === '|') {
+      this.pos++;
+      options.push(this.parseConcat());
+    }
+    return options.length === 1 ? options[0] : { type: 'alt', options, start, end: this.pos };
+  }
+
+  // concat := quantified*
+  private parseConcat(): RegexNode {
+    const start = this.pos;
+    const items: RegexNode[] = [];
+    while (this.pos < this.src.length && this.src[this.pos] !== '|' && this.src[this.pos] !== ')') {
+      items.push(this.parseQuantified());
+    }
+    if (items.length === 0) return { type: 'empty', start, end: start };
+    return items.length === 1 ? items[0] : { type: 'concat', items, start, end: this.pos };
+  }
+
+  private parseQuantified(): RegexNode {
+    const start = this.pos;
+    const atom = this.parseAtom();
+    const quantifier = this.readQuantifier();
+    if (!quantifier) return atom;
+
+    const quantifiable =
+      atom.type !== 'assert' && (atom.type !== 'look' || (!this.unicode && !atom.behind));
+    if (!quantifiable) throw new RegexSyntaxError('Nothing to repeat', start);
+    if (quantifier.min > quantifier.max) {
+      throw new RegexSyntaxError('Numbers out of order in {} quantifier', start);
+    }
+    return { type: 'repeat', ...quantifier, body: atom, start, end: this.pos };
+  }
+
+  private readQuantifier(): { min: number; max: number; greedy: boolean } | undefined {
+    const ch = this.src[this.pos];
+    let min: number;
+    let max: number;
+    if (ch === '*' || ch === '+' || ch === '?') {
+      this.pos++;
+      min = ch === '+' ? 1 : 0;
+      max = ch === '?' ? 1 : Number.POSITIVE_INFINITY;
+    } else if (ch === '{') {
+      const braces = /^\{(\d+)(,(\d*))?\}/.exec(this.src.slice(this.pos));
+      if (!braces) return undefined;
+      this.pos += braces[0].length;
+      min = Number(braces[1]);
+      max =
+        braces[2] === undefined ? min : braces[3] ? Number(braces[3]) : Number.POSITIVE_INFINITY;
+    } else {
+      return undefined;
+    }
+    const greedy = this.src[this.pos] !== '?';
+    if (!greedy) this.pos++;
+    return { min, max, greedy };
+  }
+
+  private parseAtom(): RegexNode {
+    const start = this.pos;
+    const ch = this.src[this.pos];
+    switch (ch) {
+      case '^':
+        this.pos++;
+        return { type: 'assert', kind: 'start', start, end: this.pos };
+      case '$':
+        this.pos++;
+        return { type: 'assert', kind: 'end', start, end: this.pos };
+      case '.': {
+        this.pos++;
+        const ranges = this.dotAll
+          ? [[0, this.max] as CharRange]
+          : complementRanges(LINE_TERMINATORS, this.max);
+        return { type: 'set', ranges, start, end: this.pos };
+      }
+      case '(':
+        return this.parseGroup();
+      case '[':
+        return this.parseClass();
+      case '\\':
+        return this.parseAtomEscape();
+      case '*':
+      case '+':
+      case '?':
+        throw new RegexSyntaxError('Nothing to repeat', start);
+      case '{':
+        if (this.unicode || this.readQuantifierAt(start)) {
+          throw new RegexSyntaxError('Nothing to repeat', start);
+        }
+        this.pos++;
+        return this.literal(0x7b, start);
+      case ']':
+      case '}':
+        if (this.unicode) throw new RegexSyntaxError('Lone quantifier brackets', start);
+        this.pos++;
+        return this.literal(ch.charCodeAt(0), start);
+      default:
+        return this.literal(this.readChar(), start);
+    }
+  }
+
+  private readQuantifierAt(pos: number): boolean {
+    return /^\{\d+(,\d*)?\}/.test(this.src.slice(pos));
+  }
+
+  private parseGroup(): RegexNode {
+    const start = this.pos++;
+    let kind: 'capture' | 'plain' | 'look' = 'capture';
+    let behind = false;
+    let negate = false;
+    let name: string | undefined;
+
+    if (this.src[this.pos] === '?') {
+      const next = this.src.slice(this.pos + 1, this.pos + 3);
+      if (next[0] === ':') {
+        kind = 'plain';
+        this.pos += 2;
+      } else if (next[0] === '=' || next[0] === '!') {
+        kind = 'look';
+        negate = next[0] === '!';
+        this.pos += 2;
+      } else if (next === '<=' || next === '<!') {
+        kind = 'look';
+        behind = true;
+        negate = next[1] === '!';
+        this.pos += 3;
+      } else if (next[0] === '<') {
+        this.pos += 2;
+        name = this.readGroupName();
+        if (name in this.names) {
+          throw new RegexSyntaxError(`Duplicate capture group name '${name}'`, start);
+        }
+      } else {
+        throw new RegexSyntaxError('Invalid group', start);
+      }
+    }
+
+    const index = kind === 'capture' ? ++this.groupCount : undefined;
+    if (name !== undefined && index !== undefined) this.names[name] = index;
+    const body = this.parseAlternation();
+    if (this.src[this.pos] !== ')') {
+      throw new RegexSyntaxError('Unterminated group', start);
+    }
+    this.pos++;
+    if (kind === 'look') return { type: 'look', behind, negate, body, start, end: this.pos };
+    return { type: 'group', index, name, body, start, end: this.pos };
+  }
+
+  private readGroupName(): string {
+    const start = this.pos;
+    const match = /^([$_\p{ID_Start}][$\p{ID_Continue}\u200c\u200d]*)>/u.exec(
+      this.src.slice(this.pos),
+    );
+    if (!match) throw new RegexSyntaxError('Invalid capture group name', start);
+    this.pos += match[0].length;
+    return match[1];
+  }
+
+  private parseAtomEscape(): RegexNode {
+    const start = this.pos++;
+    const ch = this.src[this.pos];
+    if (ch === undefined) throw new RegexSyntaxError('\\ at end of pattern', start);
+
+    if (ch === 'b' || ch === 'B') {
+      this.pos++;
+      return {
+        type: 'assert',
+        kind: ch === 'b' ? 'wordBoundary' : 'notWordBoundary',
+        start,
+        end: this.pos,
+      };
+    }
+    if (/[1-9]/.test(ch)) {
+      const digits = /^\d+/.exec(this.src.slice(this.pos))![0];
+      const group = Number(digits);
+      if (group <= this.totalGroups) {
+        this.pos += digits.length;
+        return { type: 'backref', group, start, end: this.pos };
+      }
+      if (this.unicode) throw new RegexSyntaxError('Invalid escape', start);
+    }
+    if (ch === 'k' && (this.unicode || this.hasNames)) {
+      this.pos++;
+      if (this.src[this.pos] !== '<') throw new RegexSyntaxError('Invalid named reference', start);
+      this.pos++;
+      const group = this.readGroupName();
+      return { type: 'backref', group, start, end: this.pos };
+    }
+
+    this.pos = start;
+    const ranges = this.readClassEscape(false);
+    return { type: 'set', ranges: this.fold(ranges), start, end: this.pos };
+  }
+
+  private parseClass(): RegexNode {
+    const start = this.pos++;
+    const negate = this.src[this.pos] === '^';
+    if (negate) this.pos++;
+
+    const ranges: CharRange[] = [];
+    while (this.src[this.pos] !== ']') {
+      if (this.pos >= this.src.length) {
+        throw new RegexSyntaxError('Unterminated character class', start);
+      }
+      const atomStart = this.pos;
+      const from = this.readClassAtom();
+      if (
+        this.src[this.pos] === '-' &&
+        this.src[this.pos + 1] !== ']' &&
+        this.pos + 1 < this.src.length
+      ) {
+        this.pos++;
+        const to = this.readClassAtom();
+        if (
+          from.length === 1 &&
+          to.length === 1 &&
+          from[0][0] === from[0][1] &&
+          to[0][0] === to[0][1]
+        ) {
+          if (from[0][0] > to[0][0]) {
+            throw new RegexSyntaxError('Range out of order in character class', atomStart);
+          }
+          ranges.push([from[0][0], to[0][0]]);
+          continue;
+        }
+        // A class escape next to '-' makes the '-' literal (an error in unicode mode)
+        if (this.unicode) throw new RegexSyntaxError('Invalid character class', atomStart);
+        ranges.push(...from, [0x2d, 0x2d], ...to);
+        continue;
+      }
+      ranges.push(...from);
+    }
+    this.pos++;
+
+    const folded = this.fold(normalizeRanges(ranges));
+    return {
+      type: 'set',
+      ranges: negate ? complementRanges(folded, this.max) : folded,
+      start,
+      end: this.pos,
+    };
+  }
+
+  // One class member: a single character or a class escape like \d
+  private readClassAtom(): CharRange[] {
+    if (this.src[this.pos] !== '\\') {
+      const code = this.readChar();
+      return [[code, code]];
+    }
+    return this.readClassEscape(true);
+  }
+
+  /**
+   * Read an escape that denotes characters: \d, \n, \x41, \u{1F600}, \p{L}, ...
+   * `inClass` selects class rules (\b is backspace, \- is '-')
+   */
+  private readClassEscape(inClass: boolean): CharRange[] {
+    const start = this.pos++;
+    const ch = this.src[this.pos++];
+    const single = (code: number): CharRange[] => [[code, code]];
+    switch (ch) {
+      case undefined:
+        throw new RegexSyntaxError('\\ at end of pattern', start);
+      case 'd':
+        return DIGIT;
+      case 'D':
+        return complementRanges(DIGIT, this.max);
+      case 'w':
+        return WORD;
+      case 'W':
+        // With iu, \w also covers the characters that fold into it
+        return complementRanges(this.fold(WORD), this.max);
+      case 's':
+        return SPACE;
+      case 'S':
+        return complementRanges(SPACE, this.max);
+      case 'n':
+        return single(0x0a);
+      case 'r':
+        return single(0x0d);
+      case 't':
+        return single(0x09);
+      case 'v':
+        return single(0x0b);
+      case 'f':
+        return single(0x0c);
+      case 'b':
+        if (inClass) return single(0x08);
+        break;
+      case '-':
+        if (inClass) return single(0x2d);
+        break;
+      case '0':
+        if (!/\d/.test(this.src[this.pos] ?? '')) return single(0);
+        break;
+      case 'c': {
+        const letter = this.src[this.pos];
+        if (letter !== undefined && /[A-Za-z]/.test(letter)) {
+          this.pos++;
+          return single(letter.charCodeAt(0) % 32);
+        }
+        if (this.unicode) throw new RegexSyntaxError('Invalid unicode escape', start);
+        // \c without a letter is a literal backslash followed by 'c'
+        this.pos = start + 1;
+        return single(0x5c);
+      }
+      case 'x': {
+        const hex = /^[0-9a-fA-F]{2}/.exec(this.src.slice(this.pos));
+        if (hex) {
+          this.pos += 2;
+          return single(Number.parseInt(hex[0], 16));
+        }
+        break;
+      }
+      case 'u': {
+        const code = this.readUnicodeEscape();
+        if (code !== undefined) return single(code);
+        break;
+      }
+      case 'p':
+      case 'P': {
+        if (!this.unicode) break;
+        const property = /^\{([^}]+)\}/.exec(this.src.slice(this.pos));
+        if (!property) throw new RegexSyntaxError('Invalid property name', start);
+        this.pos += property[0].length;
+        const ranges = propertyRanges(property[1], start);
+        return ch === 'p' ? ranges : complementRanges(ranges, this.max);
+      }
+    }
+
+    // Identity escape: the character itself
+    if (this.unicode && !/[\^$\\.*+?()[\]{}|/-]/.test(ch)) {
+      throw new RegexSyntaxError('Invalid escape', start);
+    }
+    if (/\d/.test(ch)) {
+      // Annex B legacy octal escape
+      const octal = /^[0-7]{1,3}/.exec(this.src.slice(start + 1));
+      if (octal && Number.parseInt(octal[0], 8) <= 0xff) {
+        this.pos = start + 1 + octal[0].length;
+        return single(Number.parseInt(octal[0], 8));
+      }
+    }
+    this.pos = start + 1;
+    return single(this.readChar());
+  }
+
+  private readUnicodeEscape(): number | undefined {
+    const rest = this.src.slice(this.pos);
+    if (this.unicode && rest[0] === '{') {
+      const braced = /^\{([0-9a-fA-F]+)\}/.exec(rest);
+      const code = braced ? Number.parseInt(braced[1], 16) : Number.NaN;
+      if (!braced || code > MAX_POINT) {
+        throw new RegexSyntaxError('Invalid unicode escape', this.pos - 2);
+      }
+      this.pos += braced[0].length;
+      return code;
+    }
+    const hex = /^[0-9a-fA-F]{4}/.exec(rest);
+    if (!hex) {
+      if (this.unicode) throw new RegexSyntaxError('Invalid unicode escape', this.pos - 2);
+      return undefined;
+    }
+    this.pos += 4;
+    const code = Number.parseInt(hex[0], 16);
+    // In unicode mode an escaped surrogate pair is one code point
+    const low = /^\\u([dD][c-fC-F][0-9a-fA-F]{2})/.exec(this.src.slice(this.pos));
+    if (this.unicode && code >= 0xd800 && code <= 0xdbff && low) {
+      this.pos += 6;
+      return (code - 0xd800) * 0x400 + (Number.parseInt(low[1], 16) - 0xdc00) + 0x10000;
+    }
+    return code;
+  }
+
+  // Read one source character (a whole code point in unicode mode)
+  private readChar(): number {
+    const code = this.unicode ? this.src.codePointAt(this.pos)! : this.src.charCodeAt(this.pos);
+    this.pos += code > MAX_UNIT ? 2 : 1;
+    return code;
+  }
+
+  private literal(code: number, start: number): RegexNode {
+    return { type: 'set', ranges: this.fold([[code, code]]), start, end: this.pos };
+  }
+
+  private fold(ranges: CharRange[]): CharRange[] {
+    return this.ignoreCase ? caseFold(normalizeRanges(ranges), this.unicode) : ranges;
+  }
+}
+
+// ============================================================
+// Tree queries
+// ============================================================
+
+/**
+ * Whether a node can match the empty string
+ *
+ * @internal Shared with regex tools
+ */
+export function nullable(node: RegexNode): boolean {
+  switch (node.type) {
+    case 'empty':
+    case 'assert':
+    case 'look':
+    case 'backref':
+      return true;
+    case 'set':
+      return false;
+    case 'group':
+      return nullable(node.body);
+    case 'repeat':
+      return node.min === 0 || nullable(node.body);
+    case 'concat':
+      return node.items.every(nullable);
+    case 'alt':
+      return node.options.some(nullable);
+  }
+}
+
+/**
+ * Characters a node can consume anywhere in its match
+ *
+ * @internal Shared with regex tools
+ */
+export function consumed(node: RegexNode): CharRange[] {
+  switch (node.type) {
+    case 'set':
+      return node.ranges;
+    case 'group':
+    case 'repeat':
+      return consumed(node.body);
+    case 'concat':
+      return normalizeRanges(node.items.flatMap(consumed));
+    case 'alt':
+      return normalizeRanges(node.options.flatMap(consumed));
+    default:
+      return [];
+  }
+}
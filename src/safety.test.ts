@@ -0,0 +1,74 @@
+/**
+ * Tests for the ReDoS analyzer
+ */
+
+import { describe, expect, it } from 'vitest';
+import { analyzeRegex, isSafeRegex } from './safety';
+
+const codes = (src: string) => analyzeRegex(src).map((d) => `${d.code}:${d.severity}`);
+
+describe('analyzeRegex', () => {
+  it('flags nested quantifiers with their position', () => {
+    const [diagnostic] = analyzeRegex('^(a+)+$');
+    expect(diagnostic).toMatchObject({
+      code: 'nested-quantifier',
+      severity: 'error',
+      start: 1,
+      end: 6,
+    });
+    expect(diagnostic.message).toContain("'(a+)+'");
+    expect(codes('(a*)*b')).toEqual(['nested-quantifier:error']);
+    expect(codes('^(\\w+\\s?)*$')).toEqual(['nested-quantifier:error']);
+  });
+
+  it('accepts nested quantifiers separated by a required delimiter', () => {
+    expect(codes('(a+b)+')).toEqual([]);
+    expect(codes('^([a-z]+\\.)+[a-z]+$')).toEqual([]);
+  });
+
+  it('flags overlapping alternatives inside repeats', () => {
+    expect(codes('(\\w|\\d)+')).toEqual(['overlapping-alternation:error']);
+    expect(codes('(a|ab)*c')).toEqual(['overlapping-alternation:warning']);
+    expect(codes('(x\\d|x)+y')).toEqual(['overlapping-alternation:warning']);
+    expect(codes('(?:x|y)+')).toEqual([]);
+    expect(codes('\\w|\\d')).toEqual([]);
+  });
+
+  it('flags alternatives that split a text in two ways as errors', () => {
+    expect(codes('(a|aa)+$')).toEqual(['overlapping-alternation:error']);
+    expect(codes('^(a|a?)+$')).toEqual(['overlapping-alternation:error']);
+    expect(codes('(?:a|b|ab)*c')).toEqual(['overlapping-alternation:error']);
+    expect(codes('(?:foo|fo{1,3})+')).toEqual(['overlapping-alternation:error']);
+    expect(codes('(?:a|b(?=a)|ab)*c')).toEqual(['overlapping-alternation:warning']);
+  });
+
+  it('warns about adjacent overlapping quantifiers', () => {
+    expect(codes('\\d+\\d+')).toEqual(['adjacent-quantifiers:warning']);
+    expect(codes('.*\\s*.*')).toEqual(['adjacent-quantifiers:warning']);
+    expect(codes('.*foo.*')).toEqual([]);
+    expect(codes('\\s*\\w+')).toEqual([]);
+  });
+
+  it('ignores bounded repeats', () => {
+    expect(codes('(a+){2}')).toEqual([]);
+    expect(codes('[a-z]{1,5}')).toEqual([]);
+  });
+
+  it('accepts RegExp objects and rejects invalid patterns', () => {
+    expect(codes('^\\d+$')).toEqual([]);
+    expect(analyzeRegex(/(A|a)+/i)).toHaveLength(1);
+    expect(() => analyzeRegex('(')).toThrow(SyntaxError);
+  });
+
+  it('reports patterns it cannot parse', () => {
+    expect(analyzeRegex('[a]', 'v')).toMatchObject([{ code: 'unsupported-syntax' }]);
+  });
+});
+
+describe('isSafeRegex', () => {
+  it('is false only for error-level findings', () => {
+    expect(isSafeRegex(/^\d+$/)).toBe(true);
+    expect(isSafeRegex('\\d+\\d+')).toBe(true);
+    expect(isSafeRegex('(a|a)*b')).toBe(false);
+  });
+});
@@ -0,0 +1,513 @@
+/**
+ * Safety: static detection of catastrophic backtracking (ReDoS)
+ *
+ * Backtracking engines like JavaScript's take exponential time when a
+ * pattern can match the same text in many ways and the overall match then
+ * fails. `analyzeRegex` parses a pattern (see `regex.ts`) and reports the
+ * shapes that cause it:
+ *
+ * - nested-quantifier: a repeated group containing a repeat over the same
+ *   characters, e.g. `(a+)+`, `(\w+\s?)*` (exponential)
+ * - overlapping-alternation: alternatives of a repeated group that can
+ *   start with the same character, e.g. `(\w|\d)+`, `(a|ab)*`; an error
+ *   when some text splits into iterations in two ways, e.g. `(a|aa)+`,
+ *   `(a|b|ab)*` (exponential)
+ * - adjacent-quantifiers: repeats over overlapping characters with only
+ *   optional text between them, e.g. `\d+\d+`, `.*\s*.*` (polynomial)
+ *
+ * The analysis is conservative in both directions: it is a linter, not a
+ * proof. Errors are shapes that are exponential on some input; warnings
+ * are likely but not certain to be slow.
+ *
+ * @module safety
+ */
+
+import {
+  type CharRange,
+  type RegexNode,
+  RegexSyntaxError,
+  consumed,
+  normalizeRanges,
+  nullable,
+  parseRegex,
+  rangesIntersect,
+} from './regex';
+
+/**
+ * A finding of the safety analyzer
+ */
+export interface RegexDiagnostic {
+  code:
+    | 'nested-quantifier'
+    | 'overlapping-alternation'
+    | 'adjacent-quantifiers'
+    | 'unsupported-syntax';
+  severity: 'error' | 'warning';
+  message: string;
+  /** Start offset of the offending construct in the pattern source */
+  start: number;
+  /** End offset (exclusive) in the pattern source */
+  end: number;
+}
+
+/** Repeats at least this large count as "many" */
+const LARGE_REPEAT = 10;
+
+type RepeatNode = Extract<RegexNode, { type: 'repeat' }>;
+
+/**
+ * Analyze a pattern for catastrophic backtracking.
+ *
+ * @param pattern - Pattern source or RegExp
+ * @param flags - Flags when `pattern` is a string
+ * @returns Diagnostics ordered by position (empty when nothing was found)
+ * @throws {SyntaxError} When the pattern is not a valid regex
+ *
+ * @example
+ * analyzeRegex('^(a+)+$');
+ * // => [{ code: 'nested-quantifier', severity: 'error', start: 1, end: 6,
+ * //       message: "Nested quantifier: '(a+)+' repeats 'a+' (exponential backtracking)" }]
+ */
+export function analyzeRegex(pattern: string | RegExp, flags = ''): RegexDiagnostic[] {
+  const source = typeof pattern === 'string' ? pattern : pattern.source;
+  const regexFlags = typeof pattern === 'string' ? flags : pattern.flags;
+  // Let the engine report invalid patterns with its own message
+  new RegExp(source, regexFlags);
+
+  let node: RegexNode;
+  try {
+    node = parseRegex(source, regexFlags).node;
+  } catch (err) {
+    if (!(err instanceof RegexSyntaxError)) throw err;
+    return [
+      {
+        code: 'unsupported-syntax',
+        severity: 'warning',
+        message: `Pattern could not be analyzed: ${err.message}`,
+        start: err.offset,
+        end: source.length,
+      },
+    ];
+  }
+
+  const diagnostics: RegexDiagnostic[] = [];
+  new Analyzer(source, diagnostics).visit(node, false);
+  return diagnostics.sort((a, b) => a.start - b.start || a.end - b.end);
+}
+
+/**
+ * Whether a pattern has no error-level safety diagnostics.
+ *
+ * @example
+ * isSafeRegex(/^\d+$/);   // => true
+ * isSafeRegex('(a|a)*b'); // => false
+ */
+export function isSafeRegex(pattern: string | RegExp, flags = ''): boolean {
+  return !analyzeRegex(pattern, flags).some((d) => d.severity === 'error');
+}
+
+class Analyzer {
+  constructor(
+    private readonly source: string,
+    private readonly diagnostics: RegexDiagnostic[],
+  ) {}
+
+  /** Walk the tree; `repeated` is true inside the body of a large repeat */
+  visit(node: RegexNode, repeated: boolean): void {
+    switch (node.type) {
+      case 'repeat': {
+        const large = isLarge(node);
+        if (large) this.checkNested(node);
+        const body = unwrap(node.body);
+        if (large && body.type === 'alt') {
+          // The alternation is the whole body: check it against its own iterations
+          this.checkAlternation(body, true);
+          for (const option of body.options) this.visit(option, true);
+          return;
+        }
+        this.visit(node.body, repeated || large);
+        return;
+      }
+      case 'alt':
+        if (repeated) this.checkAlternation(node, false);
+        for (const option of node.options) this.visit(option, repeated);
+        return;
+      case 'concat':
+        this.checkAdjacent(node.items);
+        for (const item of node.items) this.visit(item, repeated);
+        return;
+      case 'group':
+        this.visit(node.body, repeated);
+        return;
+      case 'look':
+        // Lookarounds do not consume text for the enclosing repeat
+        this.visit(node.body, false);
+        return;
+      default:
+        return;
+    }
+  }
+
+  // (a+)+: a large repeat whose body contains a large repeat that can take its place
+  private checkNested(outer: RepeatNode): void {
+    const inner = findInnerRepeat(outer.body);
+    if (!inner) return;
+    this.report(
+      'nested-quantifier',
+      'error',
+      `Nested quantifier: '${this.text(outer)}' repeats '${this.text(inner)}' (exponential backtracking)`,
+      outer,
+    );
+  }
+
+  /**
+   * (\w|\d)+: alternatives that can begin with the same character. When
+   * the alternation is the whole body of the repeat, it is an error if
+   * some text splits into iterations in two ways (see `splitsTwoWays`);
+   * otherwise two overlapping single characters are an error and the
+   * rest a warning.
+   */
+  private checkAlternation(alt: Extract<RegexNode, { type: 'alt' }>, whole: boolean): void {
+    const { options } = alt;
+    for (let i = 0; i < options.length; i++) {
+      for (let j = i + 1; j < options.length; j++) {
+        const a = options[i];
+        const b = options[j];
+        if (!rangesIntersect(firstChars(a), firstChars(b))) continue;
+        const certain = whole
+          ? splitsTwoWays(a, b, alt) || splitsTwoWays(b, a, alt)
+          : a.type === 'set' && b.type === 'set';
+        this.report(
+          'overlapping-alternation',
+          certain ? 'error' : 'warning',
+          `Overlapping alternatives '${this.text(a)}' and '${this.text(b)}' in a repeated group`,
+          alt,
+        );
+        return;
+      }
+    }
+  }
+
+  // \d+\d+: neighbouring repeats of one character set that can trade characters
+  private checkAdjacent(items: RegexNode[]): void {
+    for (let i = 0; i < items.length; i++) {
+      const first = unwrap(items[i]);
+      const chars = repeatedSet(first);
+      if (!chars) continue;
+      for (let j = i + 1; j < items.length; j++) {
+        const next = unwrap(items[j]);
+        const nextChars = repeatedSet(next);
+        if (nextChars) {
+          if (rangesIntersect(chars, nextChars)) {
+            this.report(
+              'adjacent-quantifiers',
+              'warning',
+              `Adjacent quantifiers '${this.text(first)}' and '${this.text(next)}' overlap (polynomial backtracking)`,
+              { start: first.start, end: next.end },
+            );
+            return;
+          }
+        }
+        if (!nullable(next)) break;
+      }
+    }
+  }
+
+  private report(
+    code: RegexDiagnostic['code'],
+    severity: RegexDiagnostic['severity'],
+    message: string,
+    span: { start: number; end: number },
+  ): void {
+    this.diagnostics.push({ code, severity, message, start: span.start, end: span.end });
+  }
+
+  private text(node: RegexNode): string {
+    return this.source.slice(node.start, node.end);
+  }
+}
+
+function isLarge(node: RepeatNode): boolean {
+  return node.max >= LARGE_REPEAT && consumed(node.body).length > 0;
+}
+
+/**
+ * Find a large repeat inside `body` that can absorb what the rest of the
+ * body matches: every required sibling on the way must share characters
+ * with it (otherwise the siblings pin down where each iteration ends).
+ */
+function findInnerRepeat(body: RegexNode): RepeatNode | undefined {
+  switch (body.type) {
+    case 'repeat':
+      if (isLarge(body)) return body;
+      return findInnerRepeat(body.body);
+    case 'group':
+      return findInnerRepeat(body.body);
+    case 'alt':
+      for (const option of body.options) {
+        const found = findInnerRepeat(option);
+        if (found) return found;
+      }
+      return undefined;
+    case 'concat':
+      for (const [i, item] of body.items.entries()) {
+        const found = findInnerRepeat(item);
+        if (!found) continue;
+        const chars = consumed(found.body);
+        const pinned = body.items.some(
+          (other, j) => j !== i && !nullable(other) && !rangesIntersect(consumed(other), chars),
+        );
+        if (!pinned) return found;
+      }
+      return undefined;
+    default:
+      return undefined;
+  }
+}
+
+// Characters of an unbounded repeat of a single character set (\d+, .*, [a-z]*)
+function repeatedSet(node: RegexNode): CharRange[] | undefined {
+  if (node.type !== 'repeat' || node.max !== Number.POSITIVE_INFINITY) return undefined;
+  const body = unwrap(node.body);
+  return body.type === 'set' ? body.ranges : undefined;
+}
+
+function unwrap(node: RegexNode): RegexNode {
+  return node.type === 'group' ? unwrap(node.body) : node;
+}
+
+// ============================================================
+// Ambiguity of repeated alternations
+// ============================================================
+
+/** Bounded repeats are unrolled at most this many times */
+const MAX_UNROLL = 8;
+
+/** A character step (ranges) or an empty step (undefined) to another state */
+interface Step {
+  to: number;
+  ranges?: CharRange[];
+}
+
+/**
+ * A Thompson automaton over the regular part of a pattern
+ */
+class Automaton {
+  readonly steps: Step[][] = [];
+  readonly start: number;
+  readonly accept: number;
+  /** States from which the accepting state can still be reached */
+  readonly live: boolean[];
+
+  /**
+   * @returns undefined when the node uses assertions or backreferences
+   */
+  static of(node: RegexNode, star = false): Automaton | undefined {
+    const automaton = new Automaton();
+    const end = star ? automaton.star(node, automaton.start) : automaton.add(node, automaton.start);
+    if (end === undefined) return undefined;
+    automaton.link(end, automaton.accept);
+    automaton.live.push(...automaton.liveStates());
+    return automaton;
+  }
+
+  private constructor() {
+    this.start = this.state();
+    this.accept = this.state();
+    this.live = [];
+  }
+
+  /** States reachable from `states` by empty steps */
+  closure(states: Iterable<number>): Set<number> {
+    const seen = new Set(states);
+    const stack = [...seen];
+    while (stack.length > 0) {
+      for (const step of this.steps[stack.pop()!]) {
+        if (step.ranges || seen.has(step.to)) continue;
+        seen.add(step.to);
+        stack.push(step.to);
+      }
+    }
+    return seen;
+  }
+
+  private state(): number {
+    return this.steps.push([]) - 1;
+  }
+
+  private link(from: number, to: number, ranges?: CharRange[]): void {
+    this.steps[from].push({ to, ranges });
+  }
+
+  // Add the node after state `from`; returns its end state
+  private add(node: RegexNode, from: number): number | undefined {
+    switch (node.type) {
+      case 'empty':
+        return from;
+      case 'set': {
+        const to = this.state();
+        this.link(from, to, node.ranges);
+        return to;
+      }
+      case 'group':
+        return this.add(node.body, from);
+      case 'concat': {
+        let end: number | undefined = from;
+        for (const item of node.items) {
+          end = this.add(item, end);
+          if (end === undefined) return undefined;
+        }
+        return end;
+      }
+      case 'alt': {
+        const end = this.state();
+        for (const option of node.options) {
+          const entry = this.state();
+          this.link(from, entry);
+          const optionEnd = this.add(option, entry);
+          if (optionEnd === undefined) return undefined;
+          this.link(optionEnd, end);
+        }
+        return end;
+      }
+      case 'repeat': {
+        let end: number | undefined = from;
+        for (let i = 0; i < Math.min(node.min, MAX_UNROLL); i++) {
+          end = this.add(node.body, end);
+          if (end === undefined) return undefined;
+        }
+        if (node.max === Number.POSITIVE_INFINITY || node.max > MAX_UNROLL) {
+          return this.star(node.body, end);
+        }
+        for (let i = node.min; i < node.max; i++) {
+          const skip = this.state();
+          this.link(end, skip);
+          const bodyEnd = this.add(node.body, end);
+          if (bodyEnd === undefined) return undefined;
+          this.link(bodyEnd, skip);
+          end = skip;
+        }
+        return end;
+      }
+      default:
+        return undefined;
+    }
+  }
+
+  // Any number of repetitions of the node after state `from`
+  private star(node: RegexNode, from: number): number | undefined {
+    const loop = this.state();
+    this.link(from, loop);
+    const end = this.add(node, loop);
+    if (end === undefined) return undefined;
+    this.link(end, loop);
+    return loop;
+  }
+
+  private liveStates(): boolean[] {
+    const into: number[][] = this.steps.map(() => []);
+    this.steps.forEach((steps, from) => {
+      for (const step of steps) into[step.to].push(from);
+    });
+    const live = this.steps.map(() => false);
+    const stack = [this.accept];
+    live[this.accept] = true;
+    while (stack.length > 0) {
+      for (const from of into[stack.pop()!]) {
+        if (live[from]) continue;
+        live[from] = true;
+        stack.push(from);
+      }
+    }
+    return live;
+  }
+}
+
+/**
+ * Whether some non-empty text u matched by `a`, followed by some v, is
+ * matched by `b`, where v is empty or starts further iterations of `alt`.
+ * Then u v splits into iterations in two ways (a, then v; or b), and a
+ * failing match tries both for every such piece of the input.
+ */
+function splitsTwoWays(a: RegexNode, b: RegexNode, alt: RegexNode): boolean {
+  const first = Automaton.of(a);
+  const second = Automaton.of(b);
+  const rest = Automaton.of(alt, true);
+  if (!first || !second || !rest) return false;
+
+  // Run a and b side by side over u, then b and the iterations over v
+  const afterU = lockstep(first, second, false, (p) => p === first.accept);
+  return afterU.some((q) => lockstep(second, rest, true, (p) => p === second.accept, q).length > 0);
+}
+
+/**
+ * Run two automata side by side over the same text and collect the states
+ * of the second reached when the first is in a state where `done` holds.
+ * With `allowEmpty` false, at least one character must be read first.
+ */
+function lockstep(
+  left: Automaton,
+  right: Automaton,
+  allowEmpty: boolean,
+  done: (state: number) => boolean,
+  leftStart = left.start,
+): number[] {
+  const found = new Set<number>();
+  const seen = new Set<string>();
+  let frontier: [number, number][] = [];
+  const enter = (lefts: number[], rights: number[], moved: boolean) => {
+    const rightStates = [...right.closure(rights)].filter((q) => right.live[q]);
+    for (const p of left.closure(lefts)) {
+      if (!left.live[p]) continue;
+      for (const q of rightStates) {
+        if ((moved || allowEmpty) && done(p)) found.add(q);
+        const key = `${p},${q}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+        frontier.push([p, q]);
+      }
+    }
+  };
+
+  enter([leftStart], [right.start], false);
+  while (frontier.length > 0) {
+    const current = frontier;
+    frontier = [];
+    for (const [p, q] of current) {
+      for (const leftStep of left.steps[p]) {
+        if (!leftStep.ranges) continue;
+        for (const rightStep of right.steps[q]) {
+          if (rightStep.ranges && rangesIntersect(leftStep.ranges, rightStep.ranges)) {
+            enter([leftStep.to], [rightStep.to], true);
+          }
+        }
+      }
+    }
+  }
+  return [...found];
+}
+
+/**
+ * Characters a node's match can start with
+ */
+function firstChars(node: RegexNode): CharRange[] {
+  switch (node.type) {
+    case 'set':
+      return node.ranges;
+    case 'group':
+    case 'repeat':
+      return firstChars(node.body);
+    case 'alt':
+      return normalizeRanges(node.options.flatMap(firstChars));
+    case 'concat': {
+      const chars: CharRange[] = [];
+      for (const item of node.items) {
+        chars.push(...firstChars(item));
+        if (!nullable(item)) break;
+      }
+      return normalizeRanges(chars);
+    }
+    default:
+      return [];
+  }
+}
@@ -0,0 +1,212 @@
+/**
+ * Tests for the sam command language
+ */
+
+import { describe, expect, it } from 'vitest';
+import { at } from './address';
+import { c, d, g, ifMatch, n, p, pipe, s, v, x, xAny, xFirst, y } from './commands';
+import { sre } from './dsl';
+import { SamSyntaxError, compileSam, formatSam } from './sam';
+
+describe('compileSam', () => {
+  it('chains x, g and c as nested commands', () => {
+    expect(compileSam('x/\\d+/ g/4/ c/ANSWER/')('1 42 7')).toBe('1 ANSWER 7');
+  });
+
+  it('runs blocks in sequence over each match', () => {
+    const cmd = compileSam(',x/^ERROR.*$/ { p; s/ERROR/E/ }');
+    expect(cmd('ERROR disk\nINFO ok\nERROR net')).toBe('E disk\nINFO ok\nE net');
+  });
+
+  it('runs top-level commands like pipe', () => {
+    const cmd = compileSam('x/a/ c/b/\nx/b/ c/c/');
+    expect(cmd('aba')).toBe('ccc');
+  });
+
+  it('supports y, v and d', () => {
+    expect(compileSam('y/\\d+/ d')('a1b22c')).toBe('122');
+    expect(compileSam('x/\\w+/ v/o/ d')('foo bar baz')).toBe('foo  ');
+  });
+
+  it('defaults the governed command to p', () => {
+    expect(compileSam('x/\\d+/')('a1')).toBe('a1');
+  });
+
+  it('reads regex flags after a colon', () => {
+    expect(compileSam('x/a/:i c/b/')('A a')).toBe('b b');
+    expect(compileSam('s/a/b/g:i')('Aa')).toBe('bb');
+    // Without m, ^ matches only at the start of the input
+    expect(compileSam('x/^a/ c/b/')('a\na')).toBe('b\nb');
+    expect(compileSam('x/^a/: c/b/')('a\na')).toBe('b\na');
+  });
+
+  it('accepts other delimiters', () => {
+    expect(compileSam('x|a/b| c|x/y|')('a/b a')).toBe('x/y a');
+    expect(compileSam('s#/#-#')('a/b/c')).toBe('a-b-c');
+  });
+
+  it('unescapes the delimiter inside regex and text', () => {
+    expect(compileSam('x/a\\/b/ c/\\/\\n/')('a/b')).toBe('/\n');
+  });
+
+  it('translates sam replacement syntax', () => {
+    expect(compileSam('s/(\\w+)@(\\w+)/\\2:\\1 [&]/')('ann@acme')).toBe('acme:ann [ann@acme]');
+    expect(compileSam('s/cost/$5/')('cost')).toBe('$5');
+  });
+
+  it('replaces every match, with or without a trailing g', () => {
+    expect(compileSam('s/a/b/')('aXa')).toBe('bXb');
+    expect(compileSam('s/a/b/g; s/X/-/g')('aXa')).toBe('b-b');
+  });
+
+  it('treats ^ and $ as line anchors', () => {
+    expect(compileSam('x/^#.*$/ d')('# a\nb\n# c')).toBe('\nb\n');
+  });
+
+  describe('errors', () => {
+    const errorOf = (src: string): SamSyntaxError => {
+      try {
+        compileSam(src);
+      } catch (err) {
+        return err as SamSyntaxError;
+      }
+      throw new Error('expected a syntax error');
+    };
+
+    it('reports unknown commands with a column', () => {
+      const err = errorOf('x/a/ q');
+      expect(err).toBeInstanceOf(SamSyntaxError);
+      expect(err.column).toBe(6);
+      expect(err.message).toBe("Unknown command 'q' at line 1, column 6");
+    });
+
+    it('reports unterminated regexes at the delimiter', () => {
+      const err = errorOf('p\nx/abc');
+      expect([err.line, err.column]).toEqual([2, 2]);
+    });
+
+    it('reports unterminated blocks and stray braces', () => {
+      expect(errorOf('x/a/ { p').message).toMatch(/Unterminated block.*column 6/);
+      expect(errorOf('p }').column).toBe(3);
+    });
+
+    it('reports invalid regular expressions', () => {
+      expect(errorOf('x/(/ d').message).toMatch(/^Invalid regular expression/);
+      expect(errorOf('x/a/:q d').message).toMatch(/^Invalid regular expression/);
+    });
+
+    it('rejects flags other than g after s', () => {
+      expect(errorOf('s/a/b/i').message).toBe(
+        "Unknown flag 'i' after 's', only 'g' is accepted at line 1, column 7",
+      );
+    });
+
+    it('requires a delimiter', () => {
+      expect(errorOf('x abc').message).toBe("Expected delimiter after 'x' at line 1, column 2");
+    });
+  });
+});
+
+describe('formatSam', () => {
+  it('prints nested commands inline and blocks indented', () => {
+    expect(formatSam(x(/\d+/, g(/4/, c('ANSWER'))))).toBe('x/\\d+/ g/4/ c/ANSWER/');
+    expect(formatSam(x(/\d+/, pipe(g(/4/, c('ANSWER')), s(/1/, 'one'))))).toBe(
+      'x/\\d+/ {\n  g/4/ c/ANSWER/\n  s/1/one/\n}',
+    );
+    const nested = x(/a/, y(/b/, pipe(d(), v(/c/, pipe(p(), d())))));
+    expect(formatSam(nested, { indent: '\t' })).toBe(
+      'x/a/ y/b/ {\n\td\n\tv/c/ {\n\t\tp\n\t\td\n\t}\n}',
+    );
+  });
+
+  it('prints top-level pipes one command per line', () => {
+    expect(formatSam(pipe(x(/a/, c('b')), x(/b/, c('c'))))).toBe('x/a/ c/b/\nx/b/ c/c/');
+    expect(formatSam(pipe())).toBe('{}');
+  });
+
+  it('escapes text and translates replacements', () => {
+    expect(formatSam(c('a/b\nc'))).toBe('c/a\\/b\\nc/');
+    expect(formatSam(s(/(\w+)@/, '[$&] $1 $$ & \\'))).toBe('s/(\\w+)@/[&] \\1 $ \\& \\\\/');
+    expect(formatSam(s(/a\/b/i, 'x'))).toBe('s/a\\/b/x/:i');
+  });
+
+  it('round-trips text with backslashes', () => {
+    for (const text of ['a\\nb', 'a\\\nb', '\\', 'C:\\dir\\/', 'tab\\t']) {
+      const printed = formatSam(c(text));
+      expect(compileSam(printed)('x')).toBe(text);
+    }
+    expect(formatSam(c('a\\nb'))).toBe('c/a\\\\nb/');
+    expect(formatSam(s(/a/, 'C:\\n'))).toBe('s/a/C:\\\\n/');
+    expect(compileSam(formatSam(s(/a/, 'C:\\n')))('a')).toBe('C:\\n');
+  });
+
+  it('prints flags that differ from the multiline default', () => {
+    expect(formatSam(x(/a/gi, d()))).toBe('x/a/:i d');
+    expect(formatSam(compileSam('g/^a$/ d'))).toBe('g/^a$/ d');
+    expect(formatSam(g(/^a/, d()))).toBe('g/^a/: d');
+    expect(formatSam(g(/[$^]a/, d()))).toBe('g/[$^]a/ d');
+  });
+
+  it('round-trips patterns with flags through compileSam', () => {
+    const commands = [
+      x(/a/gi, c('b')),
+      g(/^a/, d()),
+      v(/b$/su, d()),
+      y(/^\w/gm, c('_')),
+      s(/a.b/is, '[&]'),
+      x(/\p{Lu}/u, pipe(s(/x/, 'y'), g(/^X/, c('Z')))),
+    ];
+    const input = 'a\nAxb\nb';
+    for (const cmd of commands) {
+      const printed = formatSam(cmd);
+      expect(compileSam(printed)(input)).toBe(cmd(input));
+      expect(formatSam(compileSam(printed))).toBe(printed);
+    }
+  });
+
+  it('prints addresses', () => {
+    expect(formatSam(at('/begin/;/end/+', d()))).toBe('/begin/;/end/+1 d');
+    expect(formatSam(compileSam('#3,$-2 c/y/'))).toBe('#3,$-2 c/y/');
+    expect(formatSam(at('?x?', d()))).toBe('?x? d');
+    expect(formatSam(at('.', p()))).toBe('. p');
+  });
+
+  it('prints commands without sam syntax as placeholders', () => {
+    const trim = (text: string) => text.trim();
+    expect(formatSam(x(/\w+/, trim))).toBe('x/\\w+/ <trim>');
+    expect(formatSam(n(0, 5, d()))).toBe('<n 0:5> d');
+    expect(formatSam(xFirst(/a/, c('b')))).toBe('<xFirst /a/> c/b/');
+    expect(formatSam(ifMatch(/a/, d(), pipe(p(), c('z'))))).toBe(
+      '<ifMatch /a/> d <else> {\n  p\n  c/z/\n}',
+    );
+    const branches = [
+      { pattern: /a/, cmd: pipe(d(), p()) },
+      { pattern: /b/, cmd: c('B') },
+    ];
+    expect(formatSam(xAny(branches, { mode: 'priority' }))).toBe(
+      '<xAny priority> {\n  /a/ {\n    d\n    p\n  }\n  /b/ c/B/\n}',
+    );
+  });
+
+  it('round-trips sam source through compileSam', () => {
+    const sources = [
+      ',x/^ERROR.*$/ { p; s/ERROR/E/ }',
+      'x/(\\w+)@(\\w+)/ s/(\\w+)@(\\w+)/\\2 at \\1 & \\& $/',
+      'y/[ \\n]+/ { g/^[a-z]/ c/w\\/x/\n v/o/ d }',
+      '2,3 x/o/ c/0\\n/',
+    ];
+    const input = 'ERROR disk\nfoo@bar  Hello\nworld o/o\nERROR net';
+    for (const source of sources) {
+      const cmd = compileSam(source);
+      const printed = formatSam(cmd);
+      expect(compileSam(printed)(input)).toBe(cmd(input));
+      expect(formatSam(compileSam(printed))).toBe(printed);
+    }
+  });
+
+  it('prints SRE pipelines', () => {
+    expect(formatSam(sre().x(/\d+/).g(/4/).c('ANSWER').end().s('a', 'b').build())).toBe(
+      'x/\\d+/ g/4/ c/ANSWER/\ns/a/b/',
+    );
+  });
+});
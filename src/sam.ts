@@ -0,0 +1,493 @@
+/**
+ * Sam: parse sam/acme-style command strings into pipelines
+ *
+ * Pike's editors expressed structural edits as a tiny command language:
+ *
+ *   x/\d+/ g/4/ c/ANSWER/
+ *   ,x/^ERROR.*$/ { p; s/ERROR/E/ }
+ *
+ * This module turns such strings into the same `Command` closures that
+ * `x`, `g`, `c`, ... build, so pipelines can be stored as data.
+ *
+ * Supported commands:
+ * - x/re/ cmd, y/re/ cmd - loop over matches / non-matches
+ * - g/re/ cmd, v/re/ cmd - guard / veto
+ * - s/re/text/           - substitute every match (& and \1..\9 as in sam);
+ *                          sam replaces only the first unless the command
+ *                          ends in `g`, which is accepted here and changes nothing
+ * - c/text/              - change
+ * - p, d                 - print / delete
+ * - { cmd; cmd }         - block (commands run in sequence)
+ *
+ * Any command may be prefixed by an address (see `address.ts`), e.g.
+ * `/begin/;/end/ d` or `3,5 x/a/ c/b/`. Without one it applies to the
+ * whole input, the same as `,`.
+ *
+ * Any punctuation character may be used as a delimiter (`x|a/b|`).
+ * Like sam, `^` and `$` match at line boundaries. Flags written right
+ * after a pattern as `:flags` replace that default: `x/error/:im` ignores
+ * case, and with `g/^a/:` `^` matches only at the start of the input.
+ *
+ * `formatSam` prints commands back in this syntax.
+ *
+ * @module sam
+ */
+
+import { type Address, AddressError, at, formatAddress, readAddress } from './address';
+import { c, commandLabel, d, describeCommand, g, p, pipe, s, v, x, y } from './commands';
+import type { Command, Selector } from './types';
+
+/**
+ * Syntax error raised by the sam command parser.
+ * Line and column are 1-based positions in the source string.
+ */
+export class SamSyntaxError extends SyntaxError {
+  readonly line: number;
+  readonly column: number;
+
+  constructor(message: string, line: number, column: number) {
+    super(`${message} at line ${line}, column ${column}`);
+    this.name = 'SamSyntaxError';
+    this.line = line;
+    this.column = column;
+  }
+}
+
+/** Characters with special meaning in a RegExp source */
+const REGEX_SPECIAL = '\\^$.|?*+()[]{}';
+
+/**
+ * Recursive-descent parser over a sam command string
+ */
+class Parser {
+  private pos = 0;
+
+  constructor(private readonly src: string) {}
+
+  parseProgram(): Command {
+    const commands = this.parseSequence();
+    if (this.pos < this.src.length) {
+      this.fail(`Unexpected '${this.src[this.pos]}'`);
+    }
+    return toPipeline(commands);
+  }
+
+  // sequence := (separator* command)* separator*
+  private parseSequence(): Command[] {
+    const commands: Command[] = [];
+    for (;;) {
+      this.skipSpace(true);
+      const ch = this.src[this.pos];
+      if (ch === undefined || ch === '}') break;
+      if (ch === ';') {
+        this.pos++;
+        continue;
+      }
+      commands.push(this.parseCommand());
+    }
+    return commands;
+  }
+
+  // command := address? simple
+  private parseCommand(): Command {
+    const address = this.parseAddress();
+    if (!address) return this.parseSimple();
+
+    this.skipSpace(false);
+    return at(address, this.atCommandEnd() ? p() : this.parseSimple());
+  }
+
+  private parseAddress(): Address | undefined {
+    const start = this.pos;
+    try {
+      const { address, end } = readAddress(this.src, this.pos);
+      this.pos = address ? end : start;
+      return address;
+    } catch (err) {
+      if (!(err instanceof AddressError)) throw err;
+      this.pos = err.offset ?? start;
+      return this.fail(err.message);
+    }
+  }
+
+  private parseSimple(): Command {
+    const start = this.pos;
+    const ch = this.src[this.pos];
+    if (ch === undefined) this.fail('Expected command');
+    this.pos++;
+
+    switch (ch) {
+      case 'x':
+      case 'y':
+      case 'g':
+      case 'v': {
+        const re = this.parseRegex(ch);
+        const body = this.parseBody();
+        const build = { x, y, g, v }[ch];
+        return build(re, body);
+      }
+      case 's': {
+        const delim = this.parseDelimiter('s');
+        const source = this.readUntil(delim, 'regular expression');
+        const replacement = toReplacement(this.readText(delim));
+        // s always replaces every match, so sam's g suffix changes nothing
+        if (this.src[this.pos] === 'g') this.pos++;
+        const flags = this.readFlags();
+        if (/\w/.test(this.src[this.pos] ?? '')) {
+          this.fail(`Unknown flag '${this.src[this.pos]}' after 's', only 'g' is accepted`);
+        }
+        return s(this.compileRegex(source, flags, start), replacement);
+      }
+      case 'c': {
+        const delim = this.parseDelimiter('c');
+        return c(this.readText(delim, true));
+      }
+      case 'p':
+        return p();
+      case 'd':
+        return d();
+      case '{': {
+        const commands = this.parseSequence();
+        if (this.src[this.pos] !== '}') {
+          this.pos = start;
+          this.fail("Unterminated block, expected '}'");
+        }
+        this.pos++;
+        return toPipeline(commands);
+      }
+      default:
+        this.pos = start;
+        this.fail(`Unknown command '${ch}'`);
+    }
+  }
+
+  // Command governed by x/y/g/v; defaults to p as in sam
+  private parseBody(): Command {
+    this.skipSpace(false);
+    return this.atCommandEnd() ? p() : this.parseCommand();
+  }
+
+  private atCommandEnd(): boolean {
+    const ch = this.src[this.pos];
+    return ch === undefined || ch === '\n' || ch === ';' || ch === '}';
+  }
+
+  private parseRegex(command: string): RegExp {
+    const start = this.pos;
+    const delim = this.parseDelimiter(command);
+    const source = this.readUntil(delim, 'regular expression');
+    return this.compileRegex(source, this.readFlags(), start);
+  }
+
+  // `:flags` after a pattern; patterns are multiline without it
+  private readFlags(): string {
+    if (this.src[this.pos] !== ':') return 'm';
+    const [flags] = /^[a-z]*/.exec(this.src.slice(this.pos + 1))!;
+    this.pos += 1 + flags.length;
+    return flags;
+  }
+
+  private compileRegex(source: string, flags: string, start: number): RegExp {
+    try {
+      return new RegExp(source, flags);
+    } catch (err) {
+      this.pos = start;
+      return this.fail(`Invalid regular expression: ${(err as Error).message}`);
+    }
+  }
+
+  private parseDelimiter(command: string): string {
+    const delim = this.src[this.pos];
+    if (delim === undefined || /[\s\w\\]/.test(delim)) {
+      this.fail(`Expected delimiter after '${command}'`);
+    }
+    this.pos++;
+    return delim;
+  }
+
+  // Read a regex up to an unescaped delimiter
+  private readUntil(delim: string, what: string): string {
+    const start = this.pos;
+    let out = '';
+    while (this.pos < this.src.length) {
+      const ch = this.src[this.pos];
+      if (ch === delim) {
+        this.pos++;
+        return out;
+      }
+      if (ch === '\n') break;
+      if (ch === '\\' && this.pos + 1 < this.src.length) {
+        const next = this.src[this.pos + 1];
+        // An escaped delimiter stands for itself (still escaped if it is a regex operator)
+        out += next === delim && !REGEX_SPECIAL.includes(delim) ? next : ch + next;
+        this.pos += 2;
+        continue;
+      }
+      out += ch;
+      this.pos++;
+    }
+    this.pos = start - 1;
+    return this.fail(`Unterminated ${what}, expected '${delim}'`);
+  }
+
+  // Read literal text up to an unescaped delimiter, resolving \n and \<delim>,
+  // and \\ when `backslashes` is set (s leaves it for toReplacement)
+  private readText(delim: string, backslashes = false): string {
+    const start = this.pos;
+    let out = '';
+    while (this.pos < this.src.length) {
+      const ch = this.src[this.pos];
+      if (ch === delim) {
+        this.pos++;
+        return out;
+      }
+      if (ch === '\\' && this.pos + 1 < this.src.length) {
+        const next = this.src[this.pos + 1];
+        const plain = next === delim || (backslashes && next === '\\');
+        out += next === 'n' ? '\n' : plain ? next : ch + next;
+        this.pos += 2;
+        continue;
+      }
+      out += ch;
+      this.pos++;
+    }
+    this.pos = start - 1;
+    return this.fail(`Unterminated text, expected '${delim}'`);
+  }
+
+  private skipSpace(newlines: boolean): void {
+    while (this.pos < this.src.length) {
+      const ch = this.src[this.pos];
+      if (ch === '\n' ? !newlines : !/\s/.test(ch)) break;
+      this.pos++;
+    }
+  }
+
+  private fail(message: string): never {
+    const before = this.src.slice(0, this.pos);
+    const line = before.split('\n').length;
+    const column = this.pos - before.lastIndexOf('\n');
+    throw new SamSyntaxError(message, line, column);
+  }
+}
+
+/**
+ * Collapse a command list into a single command
+ */
+function toPipeline(commands: Command[]): Command {
+  if (commands.length === 0) return p();
+  if (commands.length === 1) return commands[0];
+  return pipe(...commands);
+}
+
+/**
+ * Translate sam replacement text (& and \N) into a String.replace pattern
+ */
+function toReplacement(text: string): string {
+  let out = '';
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '\\' && i + 1 < text.length) {
+      const next = text[++i];
+      out += /[1-9]/.test(next) ? `$${next}` : next === '$' ? '$$' : next;
+    } else if (ch === '&') {
+      out += '$&';
+    } else if (ch === '$') {
+      out += '$$';
+    } else {
+      out += ch;
+    }
+  }
+  return out;
+}
+
+/**
+ * Compile a sam-style command string into a Command.
+ *
+ * Top-level commands (separated by newlines or `;`) run left-to-right,
+ * exactly like `pipe`. `x`, `y`, `g` and `v` govern the single command
+ * (or `{ }` block) that follows them.
+ *
+ * @param source - Command text, e.g. `x/\d+/ g/4/ c/ANSWER/`
+ * @returns The equivalent Command
+ * @throws {SamSyntaxError} When the source cannot be parsed
+ *
+ * @example
+ * const answer = compileSam('x/\\d+/ g/4/ c/ANSWER/');
+ * answer('1 42 7'); // => '1 ANSWER 7'
+ *
+ * @example
+ * // Abbreviate the severity of error lines only
+ * const shorten = compileSam(',x/^ERROR.*$/ { p; s/ERROR/E/ }');
+ * shorten('ERROR disk\nINFO ok'); // => 'E disk\nINFO ok'
+ */
+export function compileSam(source: string): Command {
+  return new Parser(source).parseProgram();
+}
+
+// ============================================================
+// Printing
+// ============================================================
+
+/**
+ * Options for `formatSam`
+ */
+export interface SamFormatOptions {
+  /** Indentation of nested blocks (default two spaces) */
+  indent?: string;
+}
+
+/**
+ * Print a command in sam syntax, one top-level command per line and
+ * multi-command bodies as indented `{ }` blocks.
+ *
+ * Built-in commands print as sam commands that `compileSam` reads back to
+ * an equivalent pipeline. Patterns whose flags differ from sam's multiline
+ * default print them as `:flags` (`x/a/:i`, `g/^a/:`). Commands sam has
+ * no syntax for print as labelled placeholders in angle brackets, which
+ * `compileSam` rejects: `<n 0:5>`, `<l 1:>`, `<xFirst /re/>`,
+ * `<ifMatch /re/> ... <else> ...`, `<xMatch /re/ fn>`, `<xAny longest>`
+ * followed by a block of `/re/ command` branches, `x<literals(3)>` for
+ * matchers, and `<name>` for custom functions.
+ *
+ * @param cmd - Command to print
+ * @param options - Indentation of nested blocks
+ * @returns The sam source
+ *
+ * @example
+ * formatSam(x(/\d+/, pipe(g(/4/, c('ANSWER')), s(/1/, 'one'))));
+ * // => 'x/\\d+/ {\n  g/4/ c/ANSWER/\n  s/1/one/\n}'
+ *
+ * @example
+ * formatSam(pipe(x(/a/, c('b')), (text) => text.trim()));
+ * // => 'x/a/ c/b/\n<command>'
+ */
+export function formatSam(cmd: Command, options: SamFormatOptions = {}): string {
+  const { indent = '  ' } = options;
+  const spec = describeCommand(cmd);
+  if (spec?.op === 'pipe' && spec.commands.length > 0) {
+    return spec.commands.map((step) => formatCommand(step, indent, 0)).join('\n');
+  }
+  return formatCommand(cmd, indent, 0);
+}
+
+// One command; nested blocks are indented one level below `depth`
+function formatCommand(cmd: Command, indent: string, depth: number): string {
+  const spec = describeCommand(cmd);
+  if (!spec) return `<${commandLabel(cmd)}>`;
+  const body = (inner: Command) => formatBody(inner, indent, depth);
+  switch (spec.op) {
+    case 'x':
+    case 'y':
+    case 'g':
+    case 'v':
+      return `${spec.op}${formatSelector(spec.pattern)} ${body(spec.cmd)}`;
+    case 's':
+      return `s/${spec.pattern.source}/${formatReplacement(spec.replacement)}/${formatFlags(spec.pattern)}`;
+    case 'c':
+      return `c/${escapeText(spec.text)}/`;
+    case 'p':
+    case 'd':
+      return spec.op;
+    case 'at':
+      return `${formatAddress(spec.address)} ${body(spec.cmd)}`;
+    case 'pipe':
+      return body(cmd);
+    case 'n':
+    case 'l':
+      return `<${spec.op} ${spec.start}:${spec.end ?? ''}> ${body(spec.cmd)}`;
+    case 'xFirst':
+      return `<xFirst ${formatRegex(spec.pattern)}> ${body(spec.cmd)}`;
+    case 'ifMatch':
+      return `<ifMatch ${formatRegex(spec.pattern)}> ${body(spec.then)} <else> ${body(spec.else)}`;
+    case 'xMatch':
+      return `<xMatch ${formatRegex(spec.pattern)} ${spec.fn.name || 'fn'}>`;
+    case 'xAny': {
+      const inner = indent.repeat(depth + 1);
+      const lines = spec.branches.map(
+        (branch) =>
+          `${inner}${formatRegex(branch.pattern)} ${formatBody(branch.cmd, indent, depth + 1)}`,
+      );
+      return `<xAny ${spec.mode}> {\n${lines.join('\n')}\n${indent.repeat(depth)}}`;
+    }
+  }
+}
+
+// A governed command: inline, or a block when it runs several commands
+function formatBody(cmd: Command, indent: string, depth: number): string {
+  const spec = describeCommand(cmd);
+  if (spec?.op !== 'pipe') return formatCommand(cmd, indent, depth);
+  if (spec.commands.length === 0) return '{}';
+  if (spec.commands.length === 1) return formatBody(spec.commands[0], indent, depth);
+  const inner = indent.repeat(depth + 1);
+  const lines = spec.commands.map((step) => inner + formatCommand(step, indent, depth + 1));
+  return `{\n${lines.join('\n')}\n${indent.repeat(depth)}}`;
+}
+
+// Matchers have no sam syntax: print their label as a placeholder
+function formatSelector(pattern: Selector): string {
+  return pattern instanceof RegExp ? formatRegex(pattern) : `<${pattern.label}>`;
+}
+
+// RegExp sources already escape '/'
+function formatRegex(pattern: RegExp): string {
+  return `/${pattern.source}/${formatFlags(pattern)}`;
+}
+
+// Sam patterns are multiline, and commands add `g` as they need it. Other
+// flags, or a missing `m` that changes what `^` and `$` match, print as `:flags`
+function formatFlags(pattern: RegExp): string {
+  const flags = pattern.flags.replace('g', '');
+  if (flags === 'm' || (flags === '' && !hasAnchors(pattern.source))) return '';
+  return `:${flags}`;
+}
+
+// Whether a regex source uses `^` or `$` outside a character class
+function hasAnchors(source: string): boolean {
+  let inClass = false;
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (ch === '\\') i++;
+    else if (ch === '[') inClass = true;
+    else if (ch === ']') inClass = false;
+    else if (!inClass && (ch === '^' || ch === '$')) return true;
+  }
+  return false;
+}
+
+// Backslashes first, so the escapes added after them stay single
+function escapeText(text: string): string {
+  return escapeLines(text.replace(/\\/g, '\\\\'));
+}
+
+function escapeLines(text: string): string {
+  return text.replace(/\n/g, '\\n').replace(/\//g, '\\/');
+}
+
+/**
+ * Translate a String.replace pattern back into sam replacement text;
+ * the inverse of `toReplacement`. `$<name>`, `` $` `` and `$'` have no sam
+ * spelling and are kept as written.
+ */
+function formatReplacement(replacement: string): string {
+  let out = '';
+  for (let i = 0; i < replacement.length; i++) {
+    const ch = replacement[i];
+    const next = replacement[i + 1];
+    if (ch === '$' && next === '$') {
+      out += '$';
+      i++;
+    } else if (ch === '$' && next === '&') {
+      out += '&';
+      i++;
+    } else if (ch === '$' && next !== undefined && /[1-9]/.test(next)) {
+      out += `\\${next}`;
+      i++;
+    } else if (ch === '&' || ch === '\\') {
+      out += `\\${ch}`;
+    } else {
+      out += ch;
+    }
+  }
+  return escapeLines(out);
+}
@@ -0,0 +1,117 @@
+/**
+ * Source: helpers over the text of regex sources
+ *
+ * Combining sources into one regex (the lexer, `xAny`) needs to count,
+ * renumber and unname their groups, and every match loop needs to step
+ * past empty matches. None of that needs a parse tree, so it lives here
+ * rather than in `regex.ts`, keeping the parser out of the core bundle.
+ *
+ * @module source
+ */
+
+const MAX_UNIT = 0xffff;
+
+/**
+ * Count the capturing groups of a regex source and collect its named ones
+ * as `[name, index]` pairs
+ *
+ * @internal Shared with the regex parser
+ */
+export function countCaptures(src: string): { count: number; names: [string, number][] } {
+  let count = 0;
+  const names: [string, number][] = [];
+  let inClass = false;
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (ch === '\\') i++;
+    else if (ch === '[') inClass = true;
+    else if (ch === ']') inClass = false;
+    else if (ch === '(' && !inClass) {
+      if (src[i + 1] !== '?') count++;
+      else if (src[i + 2] === '<' && src[i + 3] !== '=' && src[i + 3] !== '!') {
+        names.push([src.slice(i + 3, src.indexOf('>', i)), ++count]);
+      }
+    }
+  }
+  return { count, names };
+}
+
+/**
+ * Count the capturing groups (numbered and named) in a regex source
+ *
+ * @internal Shared with the lexer and `xAny`
+ */
+export function countGroups(source: string): number {
+  return countCaptures(source).count;
+}
+
+/**
+ * Add `by` to the numbered backreferences of a regex source, so it keeps
+ * its meaning when embedded after `by` other capturing groups. Escapes
+ * that are not backreferences (`\0`, octal escapes, class members) are
+ * left alone.
+ *
+ * @internal Shared with the lexer and `xAny`
+ */
+export function shiftBackreferences(source: string, by: number): string {
+  const groups = countGroups(source);
+  if (by === 0 || groups === 0) return source;
+  let out = '';
+  let inClass = false;
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (ch === '\\') {
+      const digits = inClass ? null : /^[1-9]\d*/.exec(source.slice(i + 1));
+      if (digits && Number(digits[0]) <= groups) {
+        out += `\\${Number(digits[0]) + by}`;
+        i += digits[0].length;
+      } else {
+        out += ch + (source[i + 1] ?? '');
+        i++;
+      }
+      continue;
+    }
+    if (ch === '[') inClass = true;
+    else if (ch === ']') inClass = false;
+    out += ch;
+  }
+  return out;
+}
+
+/**
+ * Turn the named groups of a regex source into plain groups, so sources
+ * that use the same names can share one regex. `\k<name>` becomes a
+ * numbered backreference. Returns the new source and the number of each
+ * named group, in the `[name, index]` form the Pike VM uses.
+ *
+ * @internal Shared with the lexer and `xAny`
+ */
+export function unnameGroups(source: string): { source: string; names: [string, number][] } {
+  const { names } = countCaptures(source);
+  if (names.length === 0) return { source, names };
+  const index = new Map(names);
+  // Classes and other escapes are matched only to be kept as they are
+  const unnamed = source.replace(
+    /\[(?:\\.|[^\\\]])*\]|\\k<([^>]+)>(\d?)|\\.|\(\?<(?![=!])[^>]+>/g,
+    (token, name: string | undefined, digit: string | undefined) => {
+      const group = name === undefined ? undefined : index.get(name);
+      // A digit after the reference would extend its number
+      if (group !== undefined) return digit ? `(?:\\${group})${digit}` : `\\${group}`;
+      return token[0] === '(' ? '(' : token;
+    },
+  );
+  return { source: unnamed, names };
+}
+
+/**
+ * Where to search next after an empty match at `index`. In unicode mode
+ * this skips the whole surrogate pair: a search starting inside one
+ * starts at the pair, and would find the same empty match again.
+ *
+ * @internal Shared by match loops
+ */
+export function advanceIndex(text: string, index: number, unicode: boolean): number {
+  if (!unicode) return index + 1;
+  const code = text.codePointAt(index);
+  return index + (code !== undefined && code > MAX_UNIT ? 2 : 1);
+}
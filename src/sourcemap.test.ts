@@ -0,0 +1,198 @@
+/**
+ * Tests for position maps and Source Map v3 export
+ */
+
+import { describe, expect, it } from 'vitest';
+import { c, d, l, n, p, pipe, s, x } from './commands';
+import { sre } from './dsl';
+import { EditConflictError } from './edits';
+import { PositionMap, mapPositions } from './sourcemap';
+import type { Position } from './sourcemap';
+
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+// Decode mappings into absolute [generated, source] position pairs
+function decode(mappings: string): [Position, Position][] {
+  const segments: [Position, Position][] = [];
+  let source = { line: 0, column: 0 };
+  mappings.split(';').forEach((group, line) => {
+    let column = 0;
+    for (const segment of group ? group.split(',') : []) {
+      const values: number[] = [];
+      let value = 0;
+      let shift = 0;
+      for (const ch of segment) {
+        const digit = BASE64.indexOf(ch);
+        value += (digit & 31) << shift;
+        shift += 5;
+        if (digit < 32) {
+          values.push(value & 1 ? -(value >> 1) : value >> 1);
+          value = 0;
+          shift = 0;
+        }
+      }
+      expect(values).toHaveLength(4);
+      expect(values[1]).toBe(0);
+      column += values[0];
+      source = { line: source.line + values[2], column: source.column + values[3] };
+      segments.push([{ line, column }, source]);
+    }
+  });
+  return segments;
+}
+
+describe('mapPositions', () => {
+  it('maps offsets between output and input', () => {
+    const { output, map } = mapPositions(x(/\d+/, c('N')), 'a 12 b 345 c');
+    expect(output).toBe('a N b N c');
+    // Unchanged text maps one to one, shifted by earlier edits
+    expect([0, 1, 2, 3, 4, 5, 6, 7, 8, 9].map((o) => map.toInput(o))).toEqual([
+      0, 1, 2, 4, 5, 6, 7, 10, 11, 12,
+    ]);
+    // Replaced text maps to the start of its replacement
+    expect([0, 2, 3, 4, 7, 9, 10, 12].map((i) => map.toOutput(i))).toEqual([
+      0, 2, 2, 3, 6, 6, 7, 9,
+    ]);
+  });
+
+  it('maps deletions and insertions', () => {
+    const { output, map } = mapPositions(pipe(x(/-/, d()), s(/^/, '>> ')), 'a-b');
+    expect(output).toBe('>> ab');
+    // The inserted prefix maps to where it was inserted
+    expect(map.toInput(0)).toBe(0);
+    expect(map.toInput(2)).toBe(0);
+    expect(map.toInput(3)).toBe(0);
+    // Past a deletion, text maps to the character after it
+    expect(map.toInput(4)).toBe(2);
+    expect(map.toOutput(1)).toBe(4);
+    expect(map.toOutput(2)).toBe(4);
+  });
+
+  it('maps lines and columns', () => {
+    const { output, map } = mapPositions(x(/^ +/m, d()), '  alpha\n    beta\ngamma');
+    expect(output).toBe('alpha\nbeta\ngamma');
+    expect(map.toInputPosition({ line: 1, column: 2 })).toEqual({ line: 1, column: 6 });
+    expect(map.toInputPosition({ line: 2, column: 5 })).toEqual({ line: 2, column: 5 });
+    expect(map.toOutputPosition({ line: 0, column: 4 })).toEqual({ line: 0, column: 2 });
+    expect(map.toOutputPosition({ line: 0, column: 1 })).toEqual({ line: 0, column: 0 });
+    // Edits that add lines move the lines after them
+    const added = mapPositions(s(/;/g, ';\n'), 'a;b;\nc');
+    expect(added.map.toInputPosition({ line: 3, column: 0 })).toEqual({ line: 1, column: 0 });
+    expect(added.map.toOutputPosition({ line: 0, column: 2 })).toEqual({ line: 1, column: 0 });
+  });
+
+  it('rejects positions outside the text', () => {
+    const { map } = mapPositions(x(/b/, c('BB')), 'ab\nc');
+    expect(() => map.toInput(6)).toThrow('Offset 6 is outside the output (length 5)');
+    expect(() => map.toOutput(-1)).toThrow(RangeError);
+    expect(() => map.toInputPosition({ line: 2, column: 0 })).toThrow(
+      'Line 2 is outside the output (2 lines)',
+    );
+    expect(() => map.toOutputPosition({ line: 0, column: 3 })).toThrow(
+      'Column 3 is outside line 0 of the input',
+    );
+    expect(map.toOutputPosition({ line: 1, column: 1 })).toEqual({ line: 1, column: 1 });
+  });
+
+  it('builds from an edit log', () => {
+    const edits = [
+      { start: 0, end: 1, replacement: 'A', producedBy: 'c' },
+      { start: 2, end: 2, replacement: '!', producedBy: 'c' },
+    ];
+    const map = new PositionMap('abc', edits);
+    expect(map.output).toBe('Ab!c');
+    expect(map.toInput(3)).toBe(2);
+    expect(() => new PositionMap('abc', [...edits].reverse())).toThrow(EditConflictError);
+  });
+
+  it('maps inverted n and l ranges', () => {
+    const cmd = x(/\w+/, pipe(n(2, 1, c('-')), l(1, 0, p())));
+    const { output, map } = mapPositions(cmd, 'abc de');
+    expect(output).toBe(cmd('abc de'));
+    expect(map.output).toBe(output);
+    // Each word is one opaque change; the space between them maps one to one
+    const space = output.indexOf(' ');
+    expect(map.toInput(space)).toBe(3);
+    expect(map.toInput(space + 1)).toBe(4);
+    expect(map.toOutput(3)).toBe(space);
+  });
+
+  it('maps fluent pipelines', () => {
+    const { output, map } = mapPositions(sre().s(/x/, 'value').build(), 'x = 1');
+    expect(output).toBe('value = 1');
+    expect(map.toInput(8)).toBe(4);
+  });
+});
+
+describe('toSourceMap', () => {
+  const input = 'var a = 1;\nvar bb = 22;\n\nvar c = a;';
+  const cmd = pipe(x(/\bvar\b/, c('let')), s(/22/, 'twenty-two'), x(/;\n\n/, c(';\n')));
+
+  it('exports Source Map v3', () => {
+    const { map } = mapPositions(cmd, input);
+    const sourceMap = map.toSourceMap({ file: 'out.js', source: 'in.js', includeContent: true });
+    expect(sourceMap).toMatchObject({
+      version: 3,
+      file: 'out.js',
+      sources: ['in.js'],
+      sourcesContent: [input],
+      names: [],
+    });
+    expect(map.toSourceMap()).toEqual({
+      version: 3,
+      sources: ['input'],
+      names: [],
+      mappings: sourceMap.mappings,
+    });
+  });
+
+  it('has segments at line starts and edit boundaries that agree with the map', () => {
+    const { output, map } = mapPositions(cmd, input);
+    const segments = decode(map.toSourceMap().mappings);
+    const lines = output.split('\n');
+    for (const [generated, source] of segments) {
+      expect(map.toInputPosition(generated)).toEqual(source);
+    }
+    for (let line = 0; line < lines.length; line++) {
+      expect(segments.some(([g]) => g.line === line && g.column === 0)).toBe(true);
+    }
+    expect(segments.map(([g]) => [g.line, g.column])).toEqual([
+      [0, 0],
+      [0, 3],
+      [1, 0],
+      [1, 3],
+      [1, 9],
+      [1, 19],
+      [2, 0],
+      [2, 3],
+    ]);
+  });
+
+  it('maps every unchanged character in hires mode', () => {
+    const { output, map } = mapPositions(cmd, input);
+    const segments = decode(map.toSourceMap({ hires: true }).mappings);
+    const columns = new Set(segments.map(([g]) => `${g.line}:${g.column}`));
+    let line = 0;
+    let column = 0;
+    for (let offset = 0; offset < output.length; offset++) {
+      if (map.toOutput(map.toInput(offset)) === offset) {
+        expect(columns.has(`${line}:${column}`), `offset ${offset}`).toBe(true);
+      }
+      if (output[offset] === '\n') {
+        line++;
+        column = 0;
+      } else {
+        column++;
+      }
+    }
+    for (const [generated, source] of segments) {
+      expect(map.toInputPosition(generated)).toEqual(source);
+    }
+  });
+
+  it('encodes an unchanged and an empty text', () => {
+    expect(mapPositions(x(/z/, c('')), 'ab\ncd').map.toSourceMap().mappings).toBe('AAAA;AACA');
+    expect(mapPositions(x(/z/, c('')), '').map.toSourceMap().mappings).toBe('AAAA');
+    expect(mapPositions(d(), 'abc').map.toSourceMap().mappings).toBe('AAAG');
+  });
+});
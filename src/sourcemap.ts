@@ -0,0 +1,312 @@
+/**
+ * Source maps: map positions between a pipeline's output and its input
+ *
+ * `mapPositions` runs a command in edit-recording mode (see `edits.ts`)
+ * and returns a `PositionMap` over the recorded edits. Text outside the
+ * edits maps one to one; a position inside a replacement maps to the
+ * start of the text it replaced, and the other way round. Positions are
+ * offsets, or zero-based `{ line, column }` pairs with columns in UTF-16
+ * code units, as in the Source Map format and the Language Server Protocol.
+ *
+ * `toSourceMap` exports the map in the Source Map v3 format, so tools
+ * that read source maps can point at the input from the output.
+ *
+ * @module sourcemap
+ */
+
+import { applyEdits, recordEdits } from './edits';
+import type { Edit } from './edits';
+import type { Command } from './types';
+
+/**
+ * A zero-based line and column; columns count UTF-16 code units
+ */
+export interface Position {
+  line: number;
+  column: number;
+}
+
+/**
+ * A Source Map v3 object, ready for `JSON.stringify`
+ */
+export interface SourceMapV3 {
+  version: 3;
+  /** Name of the generated file */
+  file?: string;
+  sources: string[];
+  /** Source text, when requested with `includeContent` */
+  sourcesContent?: string[];
+  names: string[];
+  /** Base64 VLQ segments, one group per output line */
+  mappings: string;
+}
+
+/**
+ * Options for `PositionMap.toSourceMap`
+ */
+export interface SourceMapOptions {
+  /** Name of the generated file (the output) */
+  file?: string;
+  /** Name of the source file (the input, default 'input') */
+  source?: string;
+  /** Embed the input as `sourcesContent` (default false) */
+  includeContent?: boolean;
+  /**
+   * Map every character of unchanged text, not just the start of each
+   * line and edit (default false; larger, but exact for every column)
+   */
+  hires?: boolean;
+}
+
+/**
+ * Output of a command with a map back to its input
+ */
+export interface PositionMapResult {
+  output: string;
+  map: PositionMap;
+}
+
+/**
+ * Run a command and map positions between its output and the input.
+ *
+ * @param cmd - Command to run (typically a pipeline of primitives)
+ * @param input - The input text
+ * @returns The output and its position map
+ * @throws {EditConflictError} If the recorded edits are out of sequence
+ *
+ * @example
+ * const { output, map } = mapPositions(s(/colour/, 'color'), 'a colour\nb colour');
+ * // output => 'a color\nb color'
+ * map.toInput(10); // => 11 (the 'c' of the second 'colour')
+ * map.toInputPosition({ line: 1, column: 7 }); // => { line: 1, column: 8 }
+ */
+export function mapPositions(cmd: Command, input: string): PositionMapResult {
+  const { output, edits } = recordEdits(cmd, input);
+  return { output, map: new PositionMap(input, edits) };
+}
+
+/**
+ * Positions in the output of a list of edits, mapped to the input and back
+ */
+export class PositionMap {
+  readonly input: string;
+  readonly output: string;
+  readonly edits: readonly Edit[];
+  /** Where each edit starts in the input */
+  private readonly inStarts: number[] = [];
+  /** Where each edit's replacement starts in the output */
+  private readonly outStarts: number[] = [];
+  /** Offsets where each line starts, built on first use */
+  private lines?: { input: number[]; output: number[] };
+
+  /**
+   * @param input - The text the edits were recorded against
+   * @param edits - Edits in ascending, non-overlapping order (see `recordEdits`)
+   * @throws {EditConflictError} When the edits are out of sequence
+   * @throws {RangeError} When an edit lies outside the input
+   */
+  constructor(input: string, edits: readonly Edit[]) {
+    this.input = input;
+    this.output = applyEdits(input, edits);
+    this.edits = edits;
+    let shift = 0;
+    for (const edit of edits) {
+      this.inStarts.push(edit.start);
+      this.outStarts.push(edit.start + shift);
+      shift += edit.replacement.length - (edit.end - edit.start);
+    }
+  }
+
+  /**
+   * Input offset of an output offset. Offsets inside a replacement map to
+   * the start of the replaced text.
+   *
+   * @throws {RangeError} When the offset is outside the output
+   */
+  toInput(offset: number): number {
+    checkOffset(offset, this.output, 'output');
+    const index = lastAtOrBefore(this.outStarts, offset);
+    if (index < 0) return offset;
+    const edit = this.edits[index];
+    const outEnd = this.outStarts[index] + edit.replacement.length;
+    return offset < outEnd ? edit.start : edit.end + offset - outEnd;
+  }
+
+  /**
+   * Output offset of an input offset. Offsets inside replaced text map to
+   * the start of its replacement.
+   *
+   * @throws {RangeError} When the offset is outside the input
+   */
+  toOutput(offset: number): number {
+    checkOffset(offset, this.input, 'input');
+    const index = lastAtOrBefore(this.inStarts, offset);
+    if (index < 0) return offset;
+    const edit = this.edits[index];
+    const outStart = this.outStarts[index];
+    return offset < edit.end ? outStart : outStart + edit.replacement.length + offset - edit.end;
+  }
+
+  /**
+   * Input line and column of an output line and column.
+   *
+   * @throws {RangeError} When the position is outside the output
+   */
+  toInputPosition(position: Position): Position {
+    const lines = this.lineStarts();
+    return positionOf(
+      lines.input,
+      this.toInput(offsetOf(lines.output, position, this.output, 'output')),
+    );
+  }
+
+  /**
+   * Output line and column of an input line and column.
+   *
+   * @throws {RangeError} When the position is outside the input
+   */
+  toOutputPosition(position: Position): Position {
+    const lines = this.lineStarts();
+    return positionOf(
+      lines.output,
+      this.toOutput(offsetOf(lines.input, position, this.input, 'input')),
+    );
+  }
+
+  /**
+   * Export the map in the Source Map v3 format, with the output as the
+   * generated file and the input as its only source.
+   *
+   * @param options - File names, embedded content and resolution
+   * @returns A Source Map v3 object
+   *
+   * @example
+   * const { map } = mapPositions(x(/\bvar\b/, c('let')), 'var a = 1;\nvar b = 2;');
+   * JSON.stringify(map.toSourceMap({ file: 'out.js', source: 'in.js' }));
+   * // => '{"version":3,"file":"out.js","sources":["in.js"],"names":[],"mappings":"AAAA,GAAG;AACH,GAAG"}'
+   */
+  toSourceMap(options: SourceMapOptions = {}): SourceMapV3 {
+    const { input: inputLines, output: outputLines } = this.lineStarts();
+    const { output } = this;
+
+    // Output offsets where the mapping does not continue from the previous segment
+    const starts = new Set<number>(outputLines);
+    this.edits.forEach((edit, i) => {
+      starts.add(this.outStarts[i]);
+      starts.add(this.outStarts[i] + edit.replacement.length);
+    });
+    if (options.hires) {
+      let index = 0;
+      for (const [i, edit] of this.edits.entries()) {
+        for (; index < this.outStarts[i]; index++) starts.add(index);
+        index = this.outStarts[i] + edit.replacement.length;
+      }
+      for (; index < output.length; index++) starts.add(index);
+    }
+
+    const lines: string[][] = outputLines.map(() => []);
+    let previous = { column: 0, source: { line: 0, column: 0 } };
+    let line = -1;
+    for (const offset of [...starts].sort((a, b) => a - b)) {
+      // A segment at the very end would map nothing, unless it starts a line
+      if (offset >= output.length && offset !== outputLines[outputLines.length - 1]) {
+        continue;
+      }
+      const generated = positionOf(outputLines, offset);
+      const source = positionOf(inputLines, this.toInput(offset));
+      if (generated.line !== line) {
+        line = generated.line;
+        previous = { column: 0, source: previous.source };
+      }
+      // Fields are relative to the previous segment; the source index is always 0
+      lines[line].push(
+        vlq(generated.column - previous.column) +
+          vlq(0) +
+          vlq(source.line - previous.source.line) +
+          vlq(source.column - previous.source.column),
+      );
+      previous = { column: generated.column, source };
+    }
+
+    return {
+      version: 3,
+      ...(options.file !== undefined && { file: options.file }),
+      sources: [options.source ?? 'input'],
+      ...(options.includeContent && { sourcesContent: [this.input] }),
+      names: [],
+      mappings: lines.map((segments) => segments.join(',')).join(';'),
+    };
+  }
+
+  private lineStarts(): { input: number[]; output: number[] } {
+    this.lines ??= { input: lineStarts(this.input), output: lineStarts(this.output) };
+    return this.lines;
+  }
+}
+
+// ============================================================
+// Helpers
+// ============================================================
+
+function checkOffset(offset: number, text: string, name: string): void {
+  if (!Number.isInteger(offset) || offset < 0 || offset > text.length) {
+    throw new RangeError(`Offset ${offset} is outside the ${name} (length ${text.length})`);
+  }
+}
+
+// Index of the last value <= target, or -1
+function lastAtOrBefore(values: readonly number[], target: number): number {
+  let low = 0;
+  let high = values.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (values[mid] <= target) low = mid + 1;
+    else high = mid;
+  }
+  return low - 1;
+}
+
+function lineStarts(text: string): number[] {
+  const starts = [0];
+  for (let i = text.indexOf('\n'); i !== -1; i = text.indexOf('\n', i + 1)) starts.push(i + 1);
+  return starts;
+}
+
+function positionOf(lines: readonly number[], offset: number): Position {
+  const line = lastAtOrBefore(lines, offset);
+  return { line, column: offset - lines[line] };
+}
+
+function offsetOf(
+  lines: readonly number[],
+  position: Position,
+  text: string,
+  name: string,
+): number {
+  const { line, column } = position;
+  if (!Number.isInteger(line) || line < 0 || line >= lines.length) {
+    throw new RangeError(`Line ${line} is outside the ${name} (${lines.length} lines)`);
+  }
+  // Columns run up to the newline, or the end of the last line
+  const start = lines[line];
+  const end = line + 1 < lines.length ? lines[line + 1] - 1 : text.length;
+  if (!Number.isInteger(column) || column < 0 || start + column > end) {
+    throw new RangeError(`Column ${column} is outside line ${line} of the ${name}`);
+  }
+  return start + column;
+}
+
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+// Base64 VLQ: the sign in the lowest bit, then 5 bits per digit, lowest first
+function vlq(value: number): string {
+  let rest = value < 0 ? (-value << 1) | 1 : value << 1;
+  let encoded = '';
+  do {
+    let digit = rest & 31;
+    rest >>>= 5;
+    if (rest > 0) digit |= 32;
+    encoded += BASE64[digit];
+  } while (rest > 0);
+  return encoded;
+}
@@ -0,0 +1,211 @@
+/**
+ * Tests for streaming execution
+ */
+
+import { describe, expect, it } from 'vitest';
+import { c, d, g, p, pipe, s, v, x, xMatch, y } from './commands';
+import {
+  type StreamOptions,
+  type TextSource,
+  streamCommand,
+  toByteTransformStream,
+  toTransformStream,
+} from './stream';
+import type { Command } from './types';
+
+async function* from(chunks: string[]): AsyncIterable<string> {
+  yield* chunks;
+}
+
+// Split text into chunks of the given sizes, cycling through them
+function chunk(text: string, sizes: number[]): string[] {
+  const chunks: string[] = [];
+  for (let i = 0, k = 0; i < text.length; k++) {
+    const size = sizes[k % sizes.length];
+    chunks.push(text.slice(i, i + size));
+    i += size;
+  }
+  return chunks;
+}
+
+async function run(source: TextSource, cmd: Command, options?: StreamOptions): Promise<string> {
+  let out = '';
+  for await (const piece of streamCommand(source, cmd, options)) out += piece;
+  return out;
+}
+
+describe('streamCommand', () => {
+  describe('line mode', () => {
+    it('runs the command on each line', async () => {
+      const cmd = g(/ERROR/, s(/ERROR/, 'E'));
+      const out = await run(from(['ERROR a\nIN', 'FO b\nERR', 'OR c\n']), cmd);
+      expect(out).toBe('E a\nINFO b\nE c\n');
+    });
+
+    it('keeps a final line without a newline', async () => {
+      expect(await run(from(['a\nb']), x(/\w/, c('X')))).toBe('X\nX');
+    });
+
+    it('splits records on a RegExp, waiting for separators that may grow', async () => {
+      const out = await run(from(['a\r', '\nb\r\n', 'c']), (rec) => `[${rec}]`, {
+        split: /\r?\n/,
+      });
+      expect(out).toBe('[a]\r\n[b]\r\n[c]');
+    });
+
+    it('accepts any command, including custom functions', async () => {
+      expect(await run(from(['ab\ncd\n']), (line) => line.toUpperCase())).toBe('AB\nCD\n');
+    });
+  });
+
+  describe('window mode', () => {
+    const window = { mode: 'window', lookahead: 16 } as const;
+
+    it('finds matches that span chunk boundaries', async () => {
+      const cmd = x(/BEGIN[\s\S]*?END/, d());
+      const out = await run(from(['keep BEG', 'IN drop\nme E', 'ND kept']), cmd, window);
+      expect(out).toBe('keep  kept');
+    });
+
+    it('matches the whole-string result for any chunking', async () => {
+      const input = 'foo 123\nbar 4567 foo\n\nbaz 89 foo9\n'.repeat(5);
+      const commands: Command[] = [
+        x(/\d+/, c('N')),
+        s(/(\w+) (\d+)/, '$2-$1'),
+        x(/^.*$/m, pipe(g(/foo/, x(/o+/, c('0'))), v(/bar/, s(/a/, 'A')))),
+        pipe(
+          s(/foo/, 'food'),
+          x(/\w+/, (word) => word.length.toString()),
+        ),
+        x(/o*/, c('.')),
+        xMatch(/\d/, (m, i) => `${m.start}:${i}`),
+        p(),
+        g(/baz 89/, x(/\d+/, c('N'))),
+        g(/qux/, d()),
+        v(/qux/, pipe(s(/foo/, 'F'), g(/F9$/m, c('last')))),
+        v(/foo\n\nbaz/, d()),
+        pipe(x(/bar/, c('qux')), v(/qux/, d())),
+      ];
+      for (const cmd of commands) {
+        for (const sizes of [[1], [3, 7], [50], [input.length]]) {
+          expect(await run(from(chunk(input, sizes)), cmd, window)).toBe(cmd(input));
+        }
+      }
+    });
+
+    it('steps over surrogate pairs after empty matches in unicode mode', async () => {
+      const input = 'a😀b😀😀c';
+      for (const cmd of [x(/(?:)/u, c('|')), x(/\p{L}*/u, (t) => `<${t}>`), s(/x*/gu, '-')]) {
+        for (const sizes of [[1], [2, 3], [input.length]]) {
+          expect(await run(from(chunk(input, sizes)), cmd, window)).toBe(cmd(input));
+        }
+      }
+    });
+
+    it('sees line anchors across chunks', async () => {
+      const cmd = x(/^#.*\n/m, d());
+      expect(await run(from(['a\n#', ' x\nb#c\n', '# y\n']), cmd, window)).toBe('a\nb#c\n');
+    });
+
+    it('yields output before the input ends', async () => {
+      async function* endless(): AsyncIterable<string> {
+        yield 'a1 '.repeat(20);
+        await new Promise(() => {});
+      }
+      const iterator = streamCommand(endless(), x(/\d/, c('N')), window)[Symbol.asyncIterator]();
+      const first = await iterator.next();
+      expect(first.value).toMatch(/^(aN )+/);
+    });
+
+    it('runs d and c over the whole stream', async () => {
+      expect(await run(from(['a', 'b']), d(), window)).toBe('');
+      expect(await run(from(['a', 'b']), c('X'), window)).toBe('X');
+    });
+
+    it('reads web ReadableStreams', async () => {
+      const stream = new ReadableStream<string>({
+        start(controller) {
+          controller.enqueue('a1b');
+          controller.enqueue('22c');
+          controller.close();
+        },
+      });
+      expect(await run(stream, x(/\d+/, c('N')), window)).toBe('aNbNc');
+    });
+
+    it('holds back a top-level g or v only until its pattern matches', async () => {
+      async function* endless(): AsyncIterable<string> {
+        yield 'a1 '.repeat(5);
+        yield 'START ';
+        yield 'b2 '.repeat(10);
+        await new Promise(() => {});
+      }
+      const cmd = g(/START/, x(/\d/, c('N')));
+      const iterator = streamCommand(endless(), cmd, window)[Symbol.asyncIterator]();
+      const first = await iterator.next();
+      expect(first.value).toMatch(/^aN aN aN aN aN START/);
+      expect(await run(from(['a1 ', 'b2']), v(/START/, s(/\d/, '#')), window)).toBe('a# b#');
+      expect(await run(from([]), v(/a/, c('X')), window)).toBe('X');
+    });
+
+    it('rejects commands that need the whole input', () => {
+      expect(() => streamCommand(from([]), pipe(p(), y(/a/, d())), window)).toThrow(/'y'/);
+      expect(() => streamCommand(from([]), (t) => t, window)).toThrow(/wrap it in x\(\)/);
+    });
+
+    it('validates the lookahead', () => {
+      expect(() => streamCommand(from([]), p(), { mode: 'window', lookahead: 0 })).toThrow(
+        RangeError,
+      );
+    });
+  });
+
+  describe('transform streams', () => {
+    function readable<T>(chunks: T[]): ReadableStream<T> {
+      return new ReadableStream<T>({
+        start(controller) {
+          for (const item of chunks) controller.enqueue(item);
+          controller.close();
+        },
+      });
+    }
+
+    async function readAll<T>(stream: ReadableStream<T>): Promise<T[]> {
+      const items: T[] = [];
+      const reader = stream.getReader();
+      for (let r = await reader.read(); !r.done; r = await reader.read()) items.push(r.value);
+      return items;
+    }
+
+    it('transforms records of a string stream', async () => {
+      const stream = readable(['ERROR a\nINFO', ' b\nERROR c']).pipeThrough(
+        toTransformStream(g(/ERROR/, s(/ERROR/, 'E'))),
+      );
+      expect((await readAll(stream)).join('')).toBe('E a\nINFO b\nE c');
+    });
+
+    it('splits on a custom separator', async () => {
+      const stream = readable(['a;b', ';;c']).pipeThrough(
+        toTransformStream(
+          x(/\w/, (ch) => ch.toUpperCase()),
+          { split: /;+/ },
+        ),
+      );
+      expect((await readAll(stream)).join('')).toBe('A;B;;C');
+    });
+
+    it('decodes multibyte characters split across byte chunks', async () => {
+      const bytes = new TextEncoder().encode('café 😀\nnaïve\n');
+      const chunks = [1, 4, 7, 9, 12, bytes.length].map((end, i, ends) =>
+        bytes.slice(i === 0 ? 0 : ends[i - 1], end),
+      );
+      const stream = readable(chunks).pipeThrough(
+        toByteTransformStream(x(/[^ -~\n]/u, (ch) => `<${ch}>`)),
+      );
+      const out = new TextDecoder().decode(
+        new Uint8Array((await readAll(stream)).flatMap((chunk) => [...chunk])),
+      );
+      expect(out).toBe('caf<é> <😀>\nna<ï>ve\n');
+    });
+  });
+});
@@ -0,0 +1,468 @@
+/**
+ * Stream: run commands over chunked input with bounded memory
+ *
+ * Commands take and return whole strings. For inputs that do not fit in
+ * memory (multi-gigabyte logs, network bodies) `streamCommand` runs a
+ * pipeline over an `AsyncIterable<string>` or a web `ReadableStream` and
+ * yields the output as it goes. Two modes:
+ *
+ * - line (default): the command runs on each line (or record between
+ *   `split` matches), separator excluded. Memory is bounded by the
+ *   longest record. Any command works.
+ * - window: the pipeline runs over the stream as one text. Each `x`/`s`
+ *   step holds back `lookahead` characters, so a match that spans chunk
+ *   boundaries is seen whole as long as it is at most that long. A
+ *   top-level `g`/`v` holds back the stream until its pattern matches,
+ *   or to the end when it never does.
+ *
+ * `toTransformStream` and `toByteTransformStream` wrap line mode as web
+ * TransformStreams for `pipeThrough` chains.
+ *
+ * Shipped as its own entrypoint (`@obiverse/pike-sre/stream`) so the core
+ * stays small.
+ *
+ * @module stream
+ */
+
+import { describeCommand, expandReplacement, namedGroups } from './commands';
+import { advanceIndex } from './source';
+import type { Command, Match } from './types';
+
+/**
+ * Chunked text input
+ */
+export type TextSource = AsyncIterable<string> | ReadableStream<string>;
+
+/**
+ * Options for streaming execution
+ */
+export interface StreamOptions {
+  /** 'line' runs the command per record; 'window' runs it over the whole stream (default 'line') */
+  mode?: 'line' | 'window';
+  /** Line mode: record separator, 'line' (default) or a RegExp */
+  split?: 'line' | RegExp;
+  /** Window mode: longest match the pipeline must see whole, in characters (default 65536) */
+  lookahead?: number;
+}
+
+type Stage = (chunks: AsyncIterable<string>) => AsyncIterable<string>;
+
+/**
+ * Run a command over chunked input, yielding output chunks.
+ *
+ * In line mode the command sees one line at a time (without its newline),
+ * which suits filters like `g(/ERROR/, ...)` and per-line rewrites. With
+ * `split` set to a RegExp it sees the records between separator matches.
+ *
+ * In window mode the pipeline must be built from `x`, `xMatch`, `s`, `g`,
+ * `v`, `p`, `d`, `c` and `pipe`; bodies of `x` may be any command. The
+ * output equals `cmd(whole input)` provided no match is longer than
+ * `lookahead`. Anchors and lookbehind see up to `lookahead` characters of
+ * context before the current position. A top-level `g` or `v` yields
+ * nothing until a match of its pattern is followed by `lookahead`
+ * characters; without one it buffers the whole stream.
+ *
+ * @param source - Async iterable of strings or a `ReadableStream<string>`
+ * @param cmd - Command to run
+ * @param options - Mode and lookahead window
+ * @returns Async iterable of output chunks
+ * @throws {TypeError} In window mode, when the pipeline contains a
+ *   command that needs the whole input (a top-level `y`, `n`, ...) or a
+ *   matcher such as `literals(...)` in a top-level `x`, `g` or `v`
+ * @throws {RangeError} When `lookahead` is not a positive integer
+ *
+ * @example
+ * // Redact IPs in a large log, line by line
+ * for await (const chunk of streamCommand(file, x(/\d+(\.\d+){3}/, c('[IP]')))) {
+ *   out.write(chunk);
+ * }
+ *
+ * @example
+ * // Blocks that span lines (and chunks)
+ * const strip = x(/BEGIN[\s\S]*?END/, d());
+ * streamCommand(body, strip, { mode: 'window', lookahead: 4096 });
+ */
+export function streamCommand(
+  source: TextSource,
+  cmd: Command,
+  options: StreamOptions = {},
+): AsyncIterable<string> {
+  const { mode = 'line', split = 'line', lookahead = 65536 } = options;
+  if (mode === 'line') return records(chunksOf(source), cmd, split);
+
+  if (!Number.isInteger(lookahead) || lookahead < 1) {
+    throw new RangeError(`lookahead must be a positive integer, got ${lookahead}`);
+  }
+  return toStage(cmd, lookahead)(chunksOf(source));
+}
+
+// ============================================================
+// Sources
+// ============================================================
+
+async function* chunksOf(source: TextSource): AsyncIterable<string> {
+  if (!('getReader' in source)) {
+    yield* source;
+    return;
+  }
+  const reader = source.getReader();
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      yield value;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// ============================================================
+// Line mode
+// ============================================================
+
+/**
+ * Splits chunked text into records and runs a command on each one.
+ * Separators are copied to the output unchanged.
+ */
+class Records {
+  private pending = '';
+  private readonly separator?: RegExp;
+
+  constructor(
+    private readonly cmd: Command,
+    split: 'line' | RegExp,
+  ) {
+    if (split !== 'line') {
+      this.separator = new RegExp(
+        split.source,
+        split.flags.includes('g') ? split.flags : `${split.flags}g`,
+      );
+    }
+  }
+
+  /** Add a chunk; returns the output of the records it completes */
+  push(chunk: string): string {
+    this.pending += chunk;
+    return this.separator ? this.splitOn(this.separator, false) : this.splitLines();
+  }
+
+  /** End of input; returns the output of the remaining record */
+  flush(): string {
+    let out = this.separator ? this.splitOn(this.separator, true) : '';
+    // A final record without a separator; nothing after a trailing separator
+    if (this.pending !== '') out += this.cmd(this.pending);
+    this.pending = '';
+    return out;
+  }
+
+  private splitLines(): string {
+    const last = this.pending.lastIndexOf('\n');
+    if (last === -1) return '';
+    const complete = this.pending.slice(0, last).split('\n');
+    this.pending = this.pending.slice(last + 1);
+    return complete.map((line) => `${this.cmd(line)}\n`).join('');
+  }
+
+  // A separator touching the end of the input may still grow, so it waits unless final
+  private splitOn(separator: RegExp, final: boolean): string {
+    let out = '';
+    separator.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = separator.exec(this.pending)) !== null) {
+      if (match[0].length === 0) {
+        separator.lastIndex = advanceIndex(this.pending, separator.lastIndex, separator.unicode);
+        continue;
+      }
+      const end = match.index + match[0].length;
+      if (!final && end >= this.pending.length) break;
+      out += this.cmd(this.pending.slice(0, match.index)) + match[0];
+      this.pending = this.pending.slice(end);
+      separator.lastIndex = 0;
+    }
+    return out;
+  }
+}
+
+async function* records(
+  chunks: AsyncIterable<string>,
+  cmd: Command,
+  split: 'line' | RegExp,
+): AsyncIterable<string> {
+  const splitter = new Records(cmd, split);
+  for await (const chunk of chunks) {
+    const out = splitter.push(chunk);
+    if (out !== '') yield out;
+  }
+  const out = splitter.flush();
+  if (out !== '') yield out;
+}
+
+// ============================================================
+// Transform streams
+// ============================================================
+
+/**
+ * Options for transform stream adapters
+ */
+export interface TransformOptions {
+  /** Record separator: 'line' (default) or a RegExp; the command runs on each record */
+  split?: 'line' | RegExp;
+}
+
+/**
+ * Wrap a command as a web `TransformStream` of strings.
+ *
+ * The command runs on each record (line by default) as soon as it is
+ * complete. Separators are passed through unchanged.
+ *
+ * @param cmd - Command to run on each record
+ * @param options - Record separator
+ * @returns A TransformStream for `pipeThrough`
+ *
+ * @example
+ * const body = response.body
+ *   .pipeThrough(new TextDecoderStream())
+ *   .pipeThrough(toTransformStream(g(/ERROR/, s(/ERROR/, 'E'))));
+ *
+ * @example
+ * // Records separated by blank lines
+ * toTransformStream(x(/^Subject: .*$/m, d()), { split: /\n\n+/ });
+ */
+export function toTransformStream(
+  cmd: Command,
+  options: TransformOptions = {},
+): TransformStream<string, string> {
+  const splitter = new Records(cmd, options.split ?? 'line');
+  return new TransformStream({
+    transform(chunk, controller) {
+      const out = splitter.push(chunk);
+      if (out !== '') controller.enqueue(out);
+    },
+    flush(controller) {
+      const out = splitter.flush();
+      if (out !== '') controller.enqueue(out);
+    },
+  });
+}
+
+/**
+ * Wrap a command as a web `TransformStream` of UTF-8 bytes.
+ *
+ * Decoding uses a streaming `TextDecoder`, so multibyte characters split
+ * across chunks are reassembled before the command sees them.
+ *
+ * @param cmd - Command to run on each record
+ * @param options - Record separator
+ * @returns A TransformStream from bytes to bytes
+ *
+ * @example
+ * const res = await fetch(url);
+ * const redacted = res.body!.pipeThrough(toByteTransformStream(x(/\d{16}/, c('[CARD]'))));
+ */
+export function toByteTransformStream(
+  cmd: Command,
+  options: TransformOptions = {},
+): TransformStream<Uint8Array, Uint8Array> {
+  const splitter = new Records(cmd, options.split ?? 'line');
+  const decoder = new TextDecoder();
+  const encoder = new TextEncoder();
+  return new TransformStream({
+    transform(chunk, controller) {
+      const out = splitter.push(decoder.decode(chunk, { stream: true }));
+      if (out !== '') controller.enqueue(encoder.encode(out));
+    },
+    flush(controller) {
+      const out = splitter.push(decoder.decode()) + splitter.flush();
+      if (out !== '') controller.enqueue(encoder.encode(out));
+    },
+  });
+}
+
+// ============================================================
+// Window mode
+// ============================================================
+
+function toStage(cmd: Command, lookahead: number): Stage {
+  const spec = describeCommand(cmd);
+  if (!spec) {
+    throw new TypeError(
+      `Cannot stream ${cmd.name || 'a custom function'} in window mode; wrap it in x() or use line mode`,
+    );
+  }
+
+  switch (spec.op) {
+    case 'p':
+      return pass;
+    case 'd':
+      return (chunks) => drain(chunks, '');
+    case 'c':
+      return (chunks) => drain(chunks, spec.text);
+    case 'x': {
+      const { pattern, cmd: body } = spec;
+      if (!(pattern instanceof RegExp)) {
+        throw new TypeError(`Cannot stream x with ${pattern.label} in window mode; use line mode`);
+      }
+      return (chunks) => windowed(chunks, pattern, lookahead, (m) => body(m.text));
+    }
+    case 'xMatch': {
+      const fn = spec.fn;
+      return (chunks) => windowed(chunks, spec.pattern, lookahead, fn);
+    }
+    case 's': {
+      const { replacement } = spec;
+      // $` and $' expand to the text in the window
+      return (chunks) =>
+        windowed(chunks, spec.pattern, lookahead, (m, _index, window, offset) =>
+          expandReplacement(
+            replacement,
+            { ...m, start: m.start - offset, end: m.end - offset },
+            window,
+          ),
+        );
+    }
+    case 'g':
+    case 'v': {
+      const { op, pattern } = spec;
+      if (!(pattern instanceof RegExp)) {
+        throw new TypeError(
+          `Cannot stream ${op} with ${pattern.label} in window mode; use line mode`,
+        );
+      }
+      const body = toStage(spec.cmd, lookahead);
+      // g runs its body when the pattern matches, v when it does not
+      return (chunks) =>
+        gated(chunks, pattern, lookahead, (found) => (found === (op === 'g') ? body : pass));
+    }
+    case 'pipe': {
+      const stages = spec.commands.map((step) => toStage(step, lookahead));
+      return (chunks) => stages.reduce((input, stage) => stage(input), chunks);
+    }
+    default:
+      throw new TypeError(
+        `Cannot stream '${spec.op}' in window mode; use it inside x() or use line mode`,
+      );
+  }
+}
+
+async function* drain(chunks: AsyncIterable<string>, text: string): AsyncIterable<string> {
+  for await (const _ of chunks);
+  if (text !== '') yield text;
+}
+
+const pass: Stage = (chunks) => chunks;
+
+/**
+ * Hold the stream back until it is known whether `pattern` matches it,
+ * then run all of it through the stage `choose` picks. As in `windowed`,
+ * a match counts once `lookahead` characters follow it; when none does,
+ * the whole stream is held until it ends.
+ */
+async function* gated(
+  chunks: AsyncIterable<string>,
+  pattern: RegExp,
+  lookahead: number,
+  choose: (found: boolean) => Stage,
+): AsyncIterable<string> {
+  const global = new RegExp(
+    pattern.source,
+    pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`,
+  );
+  const iterator = chunks[Symbol.asyncIterator]();
+  let buffer = '';
+  let searchFrom = 0;
+  for (let next = await iterator.next(); !next.done; next = await iterator.next()) {
+    buffer += next.value;
+    global.lastIndex = searchFrom;
+    const match = global.exec(buffer);
+    if (match && match.index + match[0].length <= buffer.length - lookahead) {
+      yield* choose(true)(resume(buffer, iterator));
+      return;
+    }
+    // Matches are at most `lookahead` long, so none can start further back
+    searchFrom = match ? match.index : Math.max(0, buffer.length - lookahead);
+  }
+  global.lastIndex = searchFrom;
+  yield* choose(global.exec(buffer) !== null)(resume(buffer, iterator));
+}
+
+// The held text, then the rest of the stream
+async function* resume(held: string, rest: AsyncIterator<string>): AsyncIterable<string> {
+  if (held !== '') yield held;
+  for (let next = await rest.next(); !next.done; next = await rest.next()) yield next.value;
+}
+
+/**
+ * Replace each match of `pattern` in the stream with `replace(match)`.
+ * Match positions are offsets into the whole stream.
+ *
+ * The buffer holds up to `lookahead` characters of already emitted text
+ * (context for anchors and lookbehind) followed by unprocessed text. A
+ * match is only accepted once `lookahead` characters follow the position
+ * where it starts, so longer text could not have produced a different one.
+ */
+async function* windowed(
+  chunks: AsyncIterable<string>,
+  pattern: RegExp,
+  lookahead: number,
+  replace: (match: Match, index: number, window: string, offset: number) => string,
+): AsyncIterable<string> {
+  const global = new RegExp(
+    pattern.source,
+    pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`,
+  );
+  let buffer = '';
+  let pos = 0; // Start of unprocessed text
+  let searchFrom = 0; // Next search position (past pos after an empty match)
+  let index = 0;
+  let offset = 0; // Stream position of buffer[0]
+
+  const advance = (final: boolean): string => {
+    const limit = final ? buffer.length : buffer.length - lookahead;
+    let out = '';
+    while (pos < limit || (final && searchFrom <= buffer.length)) {
+      global.lastIndex = searchFrom;
+      const match = global.exec(buffer);
+      if (!match || match.index >= limit + (final ? 1 : 0)) {
+        out += buffer.slice(pos, Math.max(pos, limit));
+        pos = Math.max(pos, limit);
+        searchFrom = pos;
+        break;
+      }
+      const end = match.index + match[0].length;
+      if (!final && end > limit) {
+        // May still grow: emit up to its start and wait for more input
+        out += buffer.slice(pos, match.index);
+        pos = match.index;
+        searchFrom = pos;
+        break;
+      }
+      const found: Match = {
+        text: match[0],
+        start: offset + match.index,
+        end: offset + end,
+        groups: [...match],
+      };
+      if (match.groups) found.namedGroups = namedGroups(match.groups);
+      out += buffer.slice(pos, match.index) + replace(found, index++, buffer, offset);
+      pos = end;
+      searchFrom = match[0].length === 0 ? advanceIndex(buffer, end, global.unicode) : end;
+    }
+
+    // Keep up to `lookahead` characters of emitted text as context
+    const drop = Math.max(0, pos - lookahead);
+    buffer = buffer.slice(drop);
+    pos -= drop;
+    searchFrom -= drop;
+    offset += drop;
+    return out;
+  };
+
+  for await (const chunk of chunks) {
+    buffer += chunk;
+    const out = advance(false);
+    if (out !== '') yield out;
+  }
+  const out = advance(true);
+  if (out !== '') yield out;
+}
@@ -3,6 +3,7 @@
  *
  * Supports:
  * - ${N} - regex capture groups (1-indexed)
+ * - ${name} or ${cap.name} - named capture groups, e.g. (?<name>...)
  * - ${path.N} - path segments (0-indexed)
  * - ${uuid} - generated unique ID
  * - ${data.field} - data field access (supports nested: ${data.user.name})
@@ -15,6 +16,8 @@
 export interface TemplateContext {
   /** Regex capture groups (index 0 is full match) */
   captures?: string[];
+  /** Named regex capture groups */
+  namedCaptures?: Record<string, string>;
   /** Path segments */
   path?: string[];
   /** Arbitrary data object */
@@ -49,6 +52,9 @@ function getNestedValue(obj: Record<string, unknown>, path: string): unknown {
   return current;
 }
 
+/** Variables that a bare ${name} capture reference cannot override */
+const RESERVED_NAMES = new Set(['uuid', 'input']);
+
 /**
  * Substitute template variables in a string
  */
@@ -63,6 +69,16 @@ export function substituteString(template: string, ctx: TemplateContext): string
     }
   }
 
+  // ${cap.name} or ${name} - named capture groups (bare names never shadow uuid/input)
+  if (ctx.namedCaptures) {
+    const named = ctx.namedCaptures;
+    result = result.replace(/\$\{(cap\.)?([A-Za-z_$][\w$]*)\}/g, (whole, prefix, name: string) => {
+      if (!Object.hasOwn(named, name)) return whole;
+      if (!prefix && RESERVED_NAMES.has(name)) return whole;
+      return named[name];
+    });
+  }
+
   // ${path.N} - path segments
   if (ctx.path) {
     for (let i = 0; i < ctx.path.length; i++) {
@@ -0,0 +1,153 @@
+/**
+ * Tests for pipeline tracing
+ */
+
+import { describe, expect, it } from 'vitest';
+import { at } from './address';
+import { c, d, g, ifMatch, l, n, p, pipe, s, v, x, xAny, xFirst, xMatch, y } from './commands';
+import { sre } from './dsl';
+import { type TraceStep, formatTrace, trace } from './trace';
+import type { Command } from './types';
+
+// The tree without timings, for exact comparisons
+function shape(step: TraceStep): unknown {
+  const { duration, children, ...rest } = step;
+  expect(duration).toBeGreaterThanOrEqual(0);
+  return children.length ? { ...rest, children: children.map(shape) } : rest;
+}
+
+describe('trace', () => {
+  it('records nested steps with inputs, outputs and match regions', () => {
+    const cmd = pipe(x(/\d+/, c('N')), g(/N/, s(/a/, 'A')));
+    const { output, trace: root } = trace(cmd, 'a1b22');
+    expect(output).toBe('ANbN');
+    expect(shape(root)).toEqual({
+      label: 'pipe',
+      op: 'pipe',
+      input: 'a1b22',
+      output: 'ANbN',
+      children: [
+        {
+          label: 'x/\\d+/',
+          op: 'x',
+          input: 'a1b22',
+          output: 'aNbN',
+          matches: [
+            { start: 1, end: 2 },
+            { start: 3, end: 5 },
+          ],
+          children: [
+            { label: 'c', op: 'c', input: '1', output: 'N' },
+            { label: 'c', op: 'c', input: '22', output: 'N' },
+          ],
+        },
+        {
+          label: 'g/N/',
+          op: 'g',
+          input: 'aNbN',
+          output: 'ANbN',
+          matched: true,
+          children: [
+            {
+              label: 's/a/',
+              op: 's',
+              input: 'aNbN',
+              output: 'ANbN',
+              matches: [{ start: 0, end: 1 }],
+            },
+          ],
+        },
+      ],
+    });
+  });
+
+  it('records which way guards went', () => {
+    const guards = (cmd: Command, input: string) => trace(cmd, input).trace.matched;
+    expect(guards(g(/z/, d()), 'abc')).toBe(false);
+    expect(guards(v(/z/, d()), 'abc')).toBe(false);
+    expect(guards(v(/a/, d()), 'abc')).toBe(true);
+    const branch = trace(ifMatch(/a/, c('then'), c('else')), 'abc').trace;
+    expect(branch).toMatchObject({ matched: true, output: 'then' });
+    expect(branch.children.map((step) => step.output)).toEqual(['then']);
+  });
+
+  it('runs y bodies on the gaps and names custom functions', () => {
+    const upper = (text: string) => text.toUpperCase();
+    const root = trace(y(/\d/, upper), 'ab1cd').trace;
+    expect(root.matches).toEqual([{ start: 2, end: 3 }]);
+    expect(root.children.map((step) => [step.label, step.op, step.input])).toEqual([
+      ['upper', 'function', 'ab'],
+      ['upper', 'function', 'cd'],
+    ]);
+  });
+
+  it('records the regions xAny matched and the branch run on each', () => {
+    const cmd = xAny([
+      { pattern: /\d+/, cmd: c('N') },
+      { pattern: /[a-z]+/, cmd: d() },
+    ]);
+    const { trace: root } = trace(cmd, 'ab 12');
+    expect(root.matches).toEqual([
+      { start: 0, end: 2 },
+      { start: 3, end: 5 },
+    ]);
+    expect(root.children.map((step) => [step.label, step.input])).toEqual([
+      ['d', 'ab'],
+      ['c', '12'],
+    ]);
+  });
+
+  it('gives the same output as running the command', () => {
+    const input = 'foo 123\nbar 4567 foo\n';
+    const commands: Command[] = [
+      xMatch(/\d/, (m, i) => `${m.start}:${i}`),
+      xFirst(/\d+/, p()),
+      n(0, 3, c('X')),
+      l(1, 2, x(/o/, c('0'))),
+      at('/bar/', c('BAR')),
+      x(/o*/, c('.')),
+      xAny([
+        { pattern: /fo+/, cmd: c('F') },
+        { pattern: /\d+/, cmd: s(/\d/, '#') },
+      ]),
+    ];
+    for (const cmd of commands) {
+      const { output, trace: root } = trace(cmd, input);
+      expect(output).toBe(cmd(input));
+      expect(root.output).toBe(output);
+    }
+  });
+
+  it('exports the tree as JSON', () => {
+    const root = trace(x(/b/, d()), 'abc').trace;
+    expect(JSON.parse(JSON.stringify(root))).toEqual(root);
+  });
+});
+
+describe('formatTrace', () => {
+  it('renders one line per step', () => {
+    const report = formatTrace(trace(pipe(x(/\d+/, c('N')), v(/a/, d())), 'a1b22').trace);
+    expect(report.replace(/\d+\.\d\dms/g, 'T')).toBe(
+      [
+        'pipe  "a1b22" -> "aNbN"  T',
+        '├─ x/\\d+/ 2 matches [1,2) [3,5)  "a1b22" -> "aNbN"  T',
+        '│  ├─ c  "1" -> "N"  T',
+        '│  └─ c  "22" -> "N"  T',
+        '└─ v/a/ matched  "aNbN" (unchanged)  T',
+      ].join('\n'),
+    );
+  });
+
+  it('elides long text', () => {
+    const report = formatTrace(trace(p(), 'x'.repeat(100)).trace, { width: 12 });
+    expect(report).toMatch(/^p {2}"xxxxxxxxx…" \(unchanged\)/);
+  });
+});
+
+describe('fluent pipelines', () => {
+  it('traces the built pipeline', () => {
+    const { output, trace: root } = trace(sre().x(/\d/).c('N').build(), 'a1 b2');
+    expect(output).toBe('aN bN');
+    expect(root).toMatchObject({ op: 'x', matches: [{ start: 1 }, { start: 4 }] });
+  });
+});
@@ -0,0 +1,245 @@
+/**
+ * Trace: record what every step of a pipeline did
+ *
+ * `trace` runs a command and returns a tree with one step per command
+ * executed: its input and output, the regions its pattern matched, whether
+ * a guard let the text through, and how long it took. Steps nested inside
+ * `x`, `y`, `g`, `v`, `ifMatch` and the other structural commands appear as
+ * children, once per region they ran on.
+ *
+ * The tree is plain data, so `JSON.stringify` exports it as is;
+ * `formatTrace` renders it as a text report.
+ *
+ * @module trace
+ */
+
+import { at } from './address';
+import {
+  MultiMatcher,
+  commandLabel,
+  describeCommand,
+  findMatches,
+  g,
+  ifMatch,
+  l,
+  n,
+  pipe,
+  v,
+  x,
+  xAny,
+  xFirst,
+  y,
+} from './commands';
+import type { Command, CommandSpec } from './types';
+
+/**
+ * One executed command
+ */
+export interface TraceStep {
+  /** Command label, e.g. `x/\d+/`, `pipe`, or a function name */
+  label: string;
+  /** Built-in op, or `'function'` for custom commands */
+  op: CommandSpec['op'] | 'function';
+  input: string;
+  output: string;
+  /** Regions the step's pattern matched, as offsets into its input */
+  matches?: { start: number; end: number }[];
+  /** For g, v and ifMatch: whether the pattern matched */
+  matched?: boolean;
+  /** Wall-clock time in milliseconds, including children */
+  duration: number;
+  /** Steps run by this step, in execution order */
+  children: TraceStep[];
+}
+
+/**
+ * Output of a traced run with its step tree
+ */
+export interface TraceResult {
+  output: string;
+  trace: TraceStep;
+}
+
+/**
+ * Options for `formatTrace`
+ */
+export interface TraceFormatOptions {
+  /** Longest quoted input/output shown before eliding (default 40) */
+  width?: number;
+}
+
+/**
+ * Run a command and record every step it executes.
+ *
+ * @param cmd - Command to run (typically a pipeline of primitives)
+ * @param input - The input text
+ * @returns The output and the root step of the trace
+ *
+ * @example
+ * const { output, trace: root } = trace(pipe(x(/\d+/, c('N')), s(/a/, 'A')), 'a1b22');
+ * // output => 'ANbN'
+ * // root.children[0] => { label: 'x/\d+/', matches: [{ start: 1, end: 2 }, ...], children: [c, c] }
+ * console.log(formatTrace(root));
+ */
+export function trace(cmd: Command, input: string): TraceResult {
+  const root: TraceStep = {
+    label: 'trace',
+    op: 'function',
+    input,
+    output: '',
+    duration: 0,
+    children: [],
+  };
+  const stack = [root];
+  const output = instrument(cmd, stack)(input);
+  return { output, trace: root.children[0] };
+}
+
+// ============================================================
+// Instrumented commands
+// ============================================================
+
+// Ops whose steps record the regions their pattern matched
+const REGION_OPS = new Set<TraceStep['op']>(['x', 'xMatch', 'y', 's', 'xFirst']);
+
+function now(): number {
+  return typeof performance === 'undefined' ? Date.now() : performance.now();
+}
+
+// Wrap a command so each call pushes a step under the step currently running
+function instrument(cmd: Command, stack: TraceStep[]): Command {
+  const spec = describeCommand(cmd);
+  const label = commandLabel(cmd);
+  const op = spec?.op ?? 'function';
+  const body = spec ? rebuild(spec, cmd, stack) : cmd;
+  const matcher =
+    spec?.op === 'xAny'
+      ? new MultiMatcher(
+          spec.branches.map((branch) => branch.pattern),
+          spec.mode,
+        )
+      : undefined;
+  return (input: string): string => {
+    const step: TraceStep = { label, op, input, output: '', duration: 0, children: [] };
+    if (spec && 'pattern' in spec && REGION_OPS.has(op)) {
+      const found = findMatches(spec.pattern, input);
+      step.matches = (op === 'xFirst' ? found.slice(0, 1) : found).map(({ start, end }) => ({
+        start,
+        end,
+      }));
+    }
+    if (matcher) step.matches = [...matcher.scan(input)].map(({ start, end }) => ({ start, end }));
+    if (op === 'g' || op === 'ifMatch') step.matched = false;
+    if (op === 'v') step.matched = true;
+
+    stack[stack.length - 1].children.push(step);
+    stack.push(step);
+    const start = now();
+    try {
+      step.output = body(input);
+    } finally {
+      step.duration = now() - start;
+      stack.pop();
+    }
+    return step.output;
+  };
+}
+
+function rebuild(spec: CommandSpec, cmd: Command, stack: TraceStep[]): Command {
+  const inner = (child: Command) => instrument(child, stack);
+  // Record on the running guard step which way it went
+  const mark = (child: Command, matched: boolean): Command => {
+    const traced = inner(child);
+    return (input: string): string => {
+      stack[stack.length - 1].matched = matched;
+      return traced(input);
+    };
+  };
+  switch (spec.op) {
+    case 'p':
+    case 'd':
+    case 'c':
+    case 's':
+    case 'xMatch':
+      return cmd;
+    case 'x':
+      return x(spec.pattern, inner(spec.cmd));
+    case 'y':
+      return y(spec.pattern, inner(spec.cmd));
+    case 'g':
+      return g(spec.pattern, mark(spec.cmd, true));
+    case 'v':
+      return v(spec.pattern, mark(spec.cmd, false));
+    case 'ifMatch':
+      return ifMatch(spec.pattern, mark(spec.then, true), mark(spec.else, false));
+    case 'xFirst':
+      return xFirst(spec.pattern, inner(spec.cmd));
+    case 'xAny':
+      return xAny(
+        spec.branches.map((branch) => ({ pattern: branch.pattern, cmd: inner(branch.cmd) })),
+        { mode: spec.mode },
+      );
+    case 'n':
+      return n(spec.start, spec.end, inner(spec.cmd));
+    case 'l':
+      return l(spec.start, spec.end, inner(spec.cmd));
+    case 'at':
+      return at(spec.address, inner(spec.cmd));
+    case 'pipe':
+      return pipe(...spec.commands.map(inner));
+  }
+}
+
+// ============================================================
+// Text report
+// ============================================================
+
+/**
+ * Render a trace as an indented text report, one line per step.
+ *
+ * @param step - Root step (from `trace`)
+ * @param options - Elision width for quoted text
+ * @returns The report
+ *
+ * @example
+ * formatTrace(trace(x(/\d+/, c('N')), 'a1b22').trace);
+ * // x/\d+/ 2 matches [1,2) [3,5)  "a1b22" -> "aNbN"  0.02ms
+ * // ├─ c  "1" -> "N"  0.00ms
+ * // └─ c  "22" -> "N"  0.00ms
+ */
+export function formatTrace(step: TraceStep, options: TraceFormatOptions = {}): string {
+  const { width = 40 } = options;
+  const lines: string[] = [];
+  const visit = (node: TraceStep, lead: string, branch: string): void => {
+    lines.push(`${lead}${branch}${describeStep(node, width)}`);
+    const childLead = lead + (branch === '├─ ' ? '│  ' : branch === '' ? '' : '   ');
+    node.children.forEach((child, i) => {
+      visit(child, childLead, i === node.children.length - 1 ? '└─ ' : '├─ ');
+    });
+  };
+  visit(step, '', '');
+  return lines.join('\n');
+}
+
+function describeStep(step: TraceStep, width: number): string {
+  const parts = [step.label];
+  if (step.matches) {
+    const count = step.matches.length;
+    const regions = step.matches.slice(0, 3).map((m) => `[${m.start},${m.end})`);
+    if (count > 3) regions.push('…');
+    parts.push(
+      `${count} ${count === 1 ? 'match' : 'matches'}${count ? ` ${regions.join(' ')}` : ''}`,
+    );
+  }
+  if (step.matched !== undefined) parts.push(step.matched ? 'matched' : 'no match');
+  const change =
+    step.output === step.input
+      ? `${quote(step.input, width)} (unchanged)`
+      : `${quote(step.input, width)} -> ${quote(step.output, width)}`;
+  return `${parts.join(' ')}  ${change}  ${step.duration.toFixed(2)}ms`;
+}
+
+function quote(text: string, width: number): string {
+  const quoted = JSON.stringify(text);
+  return quoted.length <= width ? quoted : `${quoted.slice(0, width - 2)}…"`;
+}
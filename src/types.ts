@@ -2,12 +2,69 @@
  * Core types for Pike's Structural Regular Expressions
  */
 
+import type { Address } from './address';
+
 /**
  * A Command takes input text and returns transformed output.
  * This is the fundamental unit of composition.
  */
 export type Command = (input: string) => string;
 
+/**
+ * How a built-in command was constructed (see `describeCommand`)
+ */
+export type CommandSpec =
+  | { op: 'x' | 'y' | 'g' | 'v'; pattern: Selector; cmd: Command }
+  | { op: 'xFirst'; pattern: RegExp; cmd: Command }
+  | { op: 'xMatch'; pattern: RegExp; fn: MatchCommand }
+  | { op: 'xAny'; branches: XBranch[]; mode: XAnyMode }
+  | { op: 's'; pattern: RegExp; replacement: string }
+  | { op: 'c'; text: string }
+  | { op: 'p' }
+  | { op: 'd' }
+  | { op: 'n' | 'l'; start: number; end: number | undefined; cmd: Command }
+  | { op: 'pipe'; commands: Command[] }
+  | { op: 'ifMatch'; pattern: RegExp; then: Command; else: Command }
+  | { op: 'at'; address: Address; cmd: Command };
+
+/**
+ * A matcher that `x`, `y`, `g`, `v` and `findMatches` accept in place of a
+ * RegExp (see `literals`)
+ */
+export interface TextMatcher {
+  /** Description for labels and messages, e.g. `literals(1200)` */
+  readonly label: string;
+  /** Non-overlapping matches, in order */
+  scan(text: string): Iterable<Match>;
+  /** Whether the text contains a match */
+  test(text: string): boolean;
+}
+
+/**
+ * What `x`, `y`, `g`, `v` and `findMatches` search for
+ */
+export type Selector = RegExp | TextMatcher;
+
+/**
+ * A command that receives the full match (captures and position)
+ * and its index among the matches, returning the replacement text.
+ */
+export type MatchCommand = (match: Match, index: number) => string;
+
+/**
+ * One pattern of an `xAny` scan and the command for its matches
+ */
+export interface XBranch {
+  pattern: RegExp;
+  cmd: Command;
+}
+
+/**
+ * How `xAny` picks among patterns matching at the same position:
+ * the longest match, or the first pattern in the list
+ */
+export type XAnyMode = 'longest' | 'priority';
+
 /**
  * Match result from a regex operation
  */
@@ -20,6 +77,8 @@ export interface Match {
   end: number;
   /** Capture groups (group 0 is full match) */
   groups: string[];
+  /** Named capture groups that participated in the match, e.g. `(?<user>\w+)` */
+  namedGroups?: Record<string, string>;
 }
 
 /**
@@ -34,6 +93,8 @@ export interface Context {
   data?: Record<string, unknown>;
   /** Regex capture groups from x command */
   captures?: string[];
+  /** Named regex capture groups from x command */
+  namedCaptures?: Record<string, string>;
 }
 
 /**
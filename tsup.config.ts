@@ -8,6 +8,24 @@ export default defineConfig({
     pattern: 'src/pattern.ts',
     glob: 'src/glob.ts',
     template: 'src/template.ts',
+    stream: 'src/stream.ts',
+    node: 'src/node.ts',
+    edits: 'src/edits.ts',
+    diff: 'src/diff.ts',
+    ast: 'src/ast.ts',
+    optimize: 'src/optimize.ts',
+    trace: 'src/trace.ts',
+    budget: 'src/budget.ts',
+    async: 'src/async.ts',
+    pike: 'src/pike.ts',
+    literals: 'src/literals.ts',
+    incremental: 'src/incremental.ts',
+    sourcemap: 'src/sourcemap.ts',
+    files: 'src/files.ts',
+    regex: 'src/regex.ts',
+    safety: 'src/safety.ts',
+    sam: 'src/sam.ts',
+    address: 'src/address.ts',
   },
   format: ['esm', 'cjs'],
   dts: true,